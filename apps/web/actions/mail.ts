@@ -4,9 +4,34 @@ import {
   contactSchema,
   ContactSchema,
 } from "@/app/(root)/contact/contact-schema";
-import { ContactEmailTemplate } from "@/app/email-templates";
-import { resend } from "@/lib/resend-instance";
+import {
+  vetSummaryMailSchema,
+  VetSummaryMailSchema,
+} from "@/app/chat/components/vet-summary-schema";
+import {
+  reportMailSchema,
+  ReportMailSchema,
+} from "@/app/chat/reports/[id]/report-mail-schema";
+import {
+  supportReplySchema,
+  SupportReplySchema,
+} from "@/app/chat/support/support-reply-schema";
+import {
+  ContactEmailTemplate,
+  ReportAnalysisEmailTemplate,
+  SupportForwardEmailTemplate,
+  SupportReplyEmailTemplate,
+  VetSummaryEmailTemplate,
+} from "@/app/email-templates";
+import { env } from "@/app/env";
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+import { getAuthedConvexClient } from "@/lib/convex-server";
+import { sendEmail } from "@/lib/mailer";
+import { checkRateLimit, rateLimitMessage } from "@/lib/rate-limit";
+import { auth, currentUser } from "@clerk/nextjs/server";
 import { render } from "@react-email/render";
+import { ConvexHttpClient } from "convex/browser";
 import z from "zod";
 
 export async function sendContactMail(_prevState: unknown, formData: FormData) {
@@ -27,19 +52,57 @@ export async function sendContactMail(_prevState: unknown, formData: FormData) {
       };
     }
 
-    const { email, name } = parsed.data;
+    const { email, name, message } = parsed.data;
+
+    // The form is public, signed-in senders are linked to their ticket
+    const { userId } = await auth();
+
+    const limit = await checkRateLimit("contact", userId ?? undefined);
+    if (!limit.ok) {
+      return { success: false, message: rateLimitMessage(limit.retryAfter) };
+    }
+    const ticketId = await new ConvexHttpClient(
+      env.NEXT_PUBLIC_CONVEX_URL,
+    ).mutation(api.support.createTicket, {
+      serverSecret: env.CONVEX_SERVER_SECRET,
+      userId: userId ?? undefined,
+      name,
+      email,
+      message,
+    });
+
+    // The ticket is saved, a failed forward only shows in the email log
+    await sendEmail({
+      kind: "support_forward",
+      userId: userId ?? undefined,
+      to: env.SUPPORT_INBOX,
+      replyTo: email,
+      subject: `Contact form: ${name}`,
+      html: await render(
+        SupportForwardEmailTemplate({
+          name,
+          email,
+          message,
+          ticketUrl: new URL(
+            `/chat/support?ticket=${ticketId}`,
+            env.NEXT_PUBLIC_APP_URL,
+          ).toString(),
+        }),
+      ),
+    });
 
     //  IMPORTANT: render() is async
     const html = await render(ContactEmailTemplate({ firstName: name }));
 
-    const { data: mailData, error } = await resend.emails.send({
-      from: "PashuCare <no-reply@pashucare.com>",
+    const result = await sendEmail({
+      kind: "contact",
+      userId: userId ?? undefined,
       to: email,
       subject: "We’ve received your message — PashuCare",
       html,
     });
 
-    if (error) {
+    if (!result.success) {
       return {
         success: false,
         message: "Failed to send email",
@@ -49,7 +112,7 @@ export async function sendContactMail(_prevState: unknown, formData: FormData) {
     return {
       success: true,
       message: "Confirmation email sent",
-      metadata: { mailData },
+      metadata: { mailData: { id: result.id } },
     };
   } catch (error) {
     console.error("sendContactMail error:", error);
@@ -59,3 +122,258 @@ export async function sendContactMail(_prevState: unknown, formData: FormData) {
     };
   }
 }
+
+export async function sendVetSummaryMail(
+  _prevState: unknown,
+  formData: FormData,
+) {
+  try {
+    const data: VetSummaryMailSchema = {
+      summaryId: formData.get("summaryId") as string,
+      email: formData.get("email") as string,
+      note: (formData.get("note") as string) || undefined,
+    };
+
+    const parsed = vetSummaryMailSchema.safeParse(data);
+
+    if (!parsed.success) {
+      return {
+        success: false,
+        message: "Invalid payload",
+        errors: z.flattenError(parsed.error).fieldErrors,
+      };
+    }
+
+    const session = await getAuthedConvexClient();
+    if (!session) {
+      return { success: false, message: "Unauthorized" };
+    }
+
+    const limit = await checkRateLimit("mail", session.userId);
+    if (!limit.ok) {
+      return { success: false, message: rateLimitMessage(limit.retryAfter) };
+    }
+
+    const { summaryId, email, note } = parsed.data;
+    const summary = await session.client.query(api.vetSummaries.getVetSummary, {
+      summaryId: summaryId as Id<"vetSummaries">,
+    });
+    if (!summary?.url) {
+      return { success: false, message: "Summary not found" };
+    }
+
+    const pdf = await fetch(summary.url);
+    if (!pdf.ok) {
+      return { success: false, message: "Failed to load the summary PDF" };
+    }
+
+    const user = await currentUser();
+    const ownerName = user?.fullName ?? "A pet owner";
+    const patientName = summary.summary.patientName;
+
+    const html = await render(
+      VetSummaryEmailTemplate({ ownerName, patientName, note }),
+    );
+
+    const result = await sendEmail({
+      kind: "vet_summary",
+      userId: session.userId,
+      to: email,
+      replyTo: user?.primaryEmailAddress?.emailAddress,
+      subject: `Visit summary${patientName ? ` for ${patientName}` : ""} — PashuCare`,
+      html,
+      attachments: [
+        {
+          filename: "vet-visit-summary.pdf",
+          content: Buffer.from(await pdf.arrayBuffer()),
+        },
+      ],
+    });
+
+    if (!result.success) {
+      return {
+        success: false,
+        message: "Failed to send email",
+      };
+    }
+
+    return {
+      success: true,
+      message: `Summary sent to ${email}`,
+    };
+  } catch (error) {
+    console.error("sendVetSummaryMail error:", error);
+    return {
+      success: false,
+      message: "Something went wrong while sending the email",
+    };
+  }
+}
+
+export async function sendReportAnalysisMail(
+  _prevState: unknown,
+  formData: FormData,
+) {
+  try {
+    const data: ReportMailSchema = {
+      reportId: formData.get("reportId") as string,
+      email: formData.get("email") as string,
+      note: (formData.get("note") as string) || undefined,
+    };
+
+    const parsed = reportMailSchema.safeParse(data);
+
+    if (!parsed.success) {
+      return {
+        success: false,
+        message: "Invalid payload",
+        errors: z.flattenError(parsed.error).fieldErrors,
+      };
+    }
+
+    const session = await getAuthedConvexClient();
+    if (!session) {
+      return { success: false, message: "Unauthorized" };
+    }
+
+    const limit = await checkRateLimit("mail", session.userId);
+    if (!limit.ok) {
+      return { success: false, message: rateLimitMessage(limit.retryAfter) };
+    }
+
+    const { reportId, email, note } = parsed.data;
+    const report = await session.client.query(api.uploader.getReport, {
+      id: reportId as Id<"reports">,
+    });
+    if (!report?.analysis) {
+      return { success: false, message: "This report has no analysis yet" };
+    }
+
+    const file = report.url ? await fetch(report.url) : null;
+    if (!file?.ok) {
+      return { success: false, message: "Failed to load the report file" };
+    }
+
+    const user = await currentUser();
+    const ownerName = user?.fullName ?? "A pet owner";
+
+    const html = await render(
+      ReportAnalysisEmailTemplate({
+        ownerName,
+        fileName: report.fileName,
+        analysis: report.analysis,
+        note,
+      }),
+    );
+
+    const result = await sendEmail({
+      kind: "analysis_to_vet",
+      userId: session.userId,
+      to: email,
+      replyTo: user?.primaryEmailAddress?.emailAddress,
+      subject: `Report analysis: ${report.fileName} — PashuCare`,
+      html,
+      attachments: [
+        {
+          filename: report.fileName,
+          content: Buffer.from(await file.arrayBuffer()),
+        },
+      ],
+    });
+
+    if (!result.success) {
+      return {
+        success: false,
+        message: "Failed to send email",
+      };
+    }
+
+    return {
+      success: true,
+      message: `Analysis sent to ${email}`,
+    };
+  } catch (error) {
+    console.error("sendReportAnalysisMail error:", error);
+    return {
+      success: false,
+      message: "Something went wrong while sending the email",
+    };
+  }
+}
+
+export async function replyToSupportTicket(
+  _prevState: unknown,
+  formData: FormData,
+) {
+  try {
+    const data: SupportReplySchema = {
+      ticketId: formData.get("ticketId") as string,
+      reply: formData.get("reply") as string,
+    };
+
+    const parsed = supportReplySchema.safeParse(data);
+
+    if (!parsed.success) {
+      return {
+        success: false,
+        message: "Invalid payload",
+        errors: z.flattenError(parsed.error).fieldErrors,
+      };
+    }
+
+    const session = await getAuthedConvexClient();
+    if (!session) {
+      return { success: false, message: "Unauthorized" };
+    }
+
+    const ticketId = parsed.data.ticketId as Id<"supportTickets">;
+    const { reply } = parsed.data;
+    // Throws for anyone who isn't support staff
+    const ticket = await session.client.query(api.support.getTicket, {
+      ticketId,
+    });
+    if (!ticket) {
+      return { success: false, message: "Ticket not found" };
+    }
+
+    const html = await render(
+      SupportReplyEmailTemplate({
+        firstName: ticket.name,
+        reply,
+        originalMessage: ticket.message,
+      }),
+    );
+
+    const result = await sendEmail({
+      kind: "support_reply",
+      userId: session.userId,
+      to: ticket.email,
+      replyTo: env.SUPPORT_INBOX,
+      subject: "Re: your message to PashuCare",
+      html,
+    });
+
+    if (!result.success) {
+      return {
+        success: false,
+        message: "Failed to send email",
+      };
+    }
+
+    await session.client.mutation(api.support.addTicketReply, {
+      ticketId,
+      body: reply,
+    });
+
+    return {
+      success: true,
+      message: `Reply sent to ${ticket.email}`,
+    };
+  } catch (error) {
+    console.error("replyToSupportTicket error:", error);
+    return {
+      success: false,
+      message: "Something went wrong while sending the reply",
+    };
+  }
+}
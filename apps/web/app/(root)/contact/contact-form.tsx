@@ -32,6 +32,10 @@ export default function ContactForm() {
       {state.success && (
         <p className="text-green-500 text-lg">{state.message}</p>
       )}
+      {/* e.g. rate limited, field errors show under their inputs */}
+      {!state.success && state.message && !state.errors && (
+        <p className="text-sm text-red-500">{state.message}</p>
+      )}
 
       <form action={action} className="space-y-4 md:space-y-8">
         <div>
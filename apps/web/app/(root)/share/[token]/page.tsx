@@ -0,0 +1,19 @@
+import type { Metadata } from "next";
+import SharedView from "./shared-view";
+
+// Links are meant for the people they're sent to, not search engines
+export const metadata: Metadata = {
+  title: "Shared from PashuCare",
+  robots: { index: false, follow: false },
+};
+
+type SharePageParams = {
+  params: Promise<{
+    token: string;
+  }>;
+};
+export default async function SharePage({ params }: SharePageParams) {
+  const { token } = await params;
+
+  return <SharedView token={token} />;
+}
@@ -0,0 +1,86 @@
+"use client";
+
+import { useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import MessageList from "@/app/chat/components/message-list";
+import AnalysisResult from "@/app/chat/reports/[id]/analysis-result";
+import { EyeIcon, LinkIcon } from "lucide-react";
+import Link from "next/link";
+
+const noop = () => {};
+
+function ReadOnlyNotice({ expiresAt }: { expiresAt?: number }) {
+  return (
+    <div className="flex items-center gap-2 rounded-lg border border-dashed bg-muted/30 px-4 py-2 text-xs text-muted-foreground">
+      <EyeIcon className="h-4 w-4 shrink-0" />
+      <span>
+        Read-only copy shared from PashuCare
+        {expiresAt &&
+          `, available until ${new Date(expiresAt).toLocaleDateString()}`}
+        .
+      </span>
+    </div>
+  );
+}
+
+export default function SharedView({ token }: { token: string }) {
+  const content = useQuery(api.shares.getSharedContent, { token });
+
+  if (content === undefined) {
+    return (
+      <div className="mx-auto max-w-4xl space-y-4 px-4 py-10">
+        <Skeleton className="h-8 w-64" />
+        <Skeleton className="h-[60vh] w-full rounded-xl" />
+      </div>
+    );
+  }
+
+  if (content === null) {
+    return (
+      <div className="mx-auto max-w-md space-y-4 px-4 py-24 text-center">
+        <LinkIcon className="mx-auto h-12 w-12 text-muted-foreground" />
+        <h1 className="text-2xl font-bold">Link unavailable</h1>
+        <p className="text-muted-foreground">
+          This link has expired or been revoked, or what it pointed to was
+          deleted. Ask the person who shared it for a new one.
+        </p>
+        <Button asChild variant="outline">
+          <Link href="/">Go to PashuCare</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mx-auto max-w-4xl space-y-4 px-4 py-10">
+      <div className="space-y-1">
+        <h1 className="text-2xl font-semibold tracking-tight">
+          {content.kind === "chat"
+            ? content.name || "Untitled Chat"
+            : content.fileName}
+        </h1>
+        {content.kind === "report" && (
+          <p className="text-sm text-muted-foreground">
+            Uploaded {new Date(content.createdAt).toLocaleDateString()}
+          </p>
+        )}
+      </div>
+
+      <ReadOnlyNotice expiresAt={content.expiresAt} />
+
+      {content.kind === "chat" ? (
+        <div className="flex h-[70dvh] flex-col overflow-hidden rounded-xl border">
+          <MessageList
+            messages={content.messages}
+            isLoadingMore={false}
+            loadMore={noop}
+          />
+        </div>
+      ) : (
+        <AnalysisResult analysis={content.analysis} isAnalyzing={false} />
+      )}
+    </div>
+  );
+}
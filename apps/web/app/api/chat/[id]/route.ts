@@ -1,24 +1,76 @@
-import { env } from "@/app/env";
+import { buildAnimalContext } from "@/app/prompts/animal-context";
+import { buildReportContext } from "@/app/prompts/report-context";
 import { systemPrompt } from "@/app/prompts/system-prompt";
+import { env } from "@/app/env";
+import { api } from "@/convex/_generated/api";
 import { Id } from "@/convex/_generated/dataModel";
-// import { Id } from "@/convex/_generated/dataModel";
-import { NextRequest, NextResponse } from "next/server";
-import { OpenAI } from "openai";
+import { estimateTokens, selectHistoryWindow } from "@/lib/context-window";
+import { detectEmergency } from "@/lib/emergency";
+import { getAuthedConvexClient } from "@/lib/convex-server";
+import { isValidConvexId } from "@/lib/utils";
+import { enforceRateLimit } from "@/lib/rate-limit";
+import { streamToMessage } from "@/lib/stream-to-message";
+import { limitReachedResponse } from "@/lib/usage-limit";
+import { after, NextRequest, NextResponse } from "next/server";
+import {
+  getLLM,
+  LLMContentPart,
+  LLMMessage,
+  textOf,
+  TokenUsage,
+} from "@/lib/llm";
+import { normalizeReport } from "@/lib/report-ingest";
 import * as z from "zod";
 
-const messageSchema = z.object({
-  role: z.enum(["user", "assistant", "system"]),
-  content: z.string(),
-});
-
+// Only the new user turn is accepted from the client, history is loaded
+// from Convex so the browser can't forge assistant or system messages.
 const chatRequestSchema = z.object({
-  messages: z.array(messageSchema).min(1, "At least one message required"),
+  // May be empty when the owner only sent photos
+  content: z.string().trim(),
+  // Set when regenerating, the reply becomes a new version of this message
+  branchOf: z.string().refine(isValidConvexId).optional(),
 });
 
-export const client = new OpenAI({
-  apiKey: env.MOONSHOTAI_API_KEY,
-  baseURL: "https://api.moonshot.ai/v1",
-});
+// Only the newest photos are sent, older turns keep a text placeholder
+const MAX_HISTORY_IMAGES = 4;
+
+type HistoryTurn = {
+  role: "user" | "assistant";
+  content: string;
+  attachments: { url: string | null; mimeType: string }[];
+};
+
+async function toVisionContent(
+  message: HistoryTurn,
+  includeImages: boolean,
+): Promise<LLMMessage["content"]> {
+  if (message.attachments.length === 0) return message.content;
+
+  if (!includeImages) {
+    return `${message.content}\n\n[${message.attachments.length} photo(s) shared earlier]`.trim();
+  }
+
+  const parts: LLMContentPart[] = [
+    { type: "text", text: message.content || "(photo only)" },
+  ];
+  for (const attachment of message.attachments) {
+    if (!attachment.url) continue;
+    const response = await fetch(attachment.url);
+    if (!response.ok) continue;
+    // Same pipeline as report photos: HEIC conversion, EXIF rotation, resize
+    const image = await normalizeReport(
+      Buffer.from(await response.arrayBuffer()),
+    );
+    if (image.kind === "image") {
+      parts.push({
+        type: "image",
+        mimeType: image.mimeType,
+        data: image.base64,
+      });
+    }
+  }
+  return parts;
+}
 
 const SYSTEM_PROMPT = {
   role: "system" as const,
@@ -30,13 +82,25 @@ export async function POST(
   { params }: { params: Promise<{ id: string }> },
 ) {
   try {
+    const session = await getAuthedConvexClient();
+    if (!session) {
+      return NextResponse.json(
+        { success: false, message: "Unauthorized" },
+        { status: 401 },
+      );
+    }
+    const convex = session.client;
+
     const { id } = await params;
+    if (!isValidConvexId(id)) {
+      return NextResponse.json(
+        { success: false, message: "Invalid chat id" },
+        { status: 400 },
+      );
+    }
     const chatId = id as Id<"chats">;
     const body = await req.json();
 
-    console.log("Chat ID:", chatId);
-    console.log("Request body:", body);
-
     // Validate request body
     const parsed = chatRequestSchema.safeParse(body);
     if (!parsed.success) {
@@ -50,49 +114,151 @@ export async function POST(
       );
     }
 
-    const { messages } = parsed.data;
+    const { content, branchOf } = parsed.data;
 
-    // Prepend system prompt if not present
-    const fullMessages =
-      messages[0]?.role === "system" ? messages : [SYSTEM_PROMPT, ...messages];
+    const chat = await convex.query(api.chats.getChatById, { chatId });
+    if (!chat) {
+      return NextResponse.json(
+        { success: false, message: "Chat not found" },
+        { status: 404 },
+      );
+    }
 
-    const stream = await client.chat.completions.create({
-      model: "kimi-k2-turbo-preview",
-      messages: fullMessages,
-      temperature: 0.6,
-      stream: true,
+    const animal = chat.animalId
+      ? await convex.query(api.animals.getAnimal, { id: chat.animalId })
+      : null;
+
+    // Pin first-aid guidance before calling the model, so it shows up
+    // immediately and still works when the provider is down or the daily
+    // quota or rate limit is used up.
+    const emergency = detectEmergency(content, animal?.species);
+    if (emergency) {
+      await convex.mutation(api.chats.flagEmergency, { chatId, emergency });
+    }
+
+    const limited = await enforceRateLimit("chat", session.userId);
+    if (limited) return limited;
+
+    const usage = await convex.query(api.usage.getMyUsage, {
+      now: Date.now(),
     });
+    if (usage?.limitReached) {
+      return limitReachedResponse();
+    }
 
-    const encoder = new TextEncoder();
-
-    const readableStream = new ReadableStream({
-      async start(controller) {
-        try {
-          for await (const chunk of stream) {
-            const content = chunk.choices?.[0]?.delta?.content || "";
-            if (content) {
-              controller.enqueue(encoder.encode(content));
-            }
-          }
-          controller.close();
-        } catch (error) {
-          console.error("Stream error:", error);
-          controller.error(error);
-        }
-      },
-      cancel() {
-        // Handle client disconnect
-        stream.controller.abort();
-      },
+    const history = await convex.query(api.chats.getChatHistory, { chatId });
+
+    // The user turn is normally persisted before this request, only add it
+    // when it hasn't landed yet.
+    const lastMessage = history.at(-1);
+    if (lastMessage?.role !== "user" || lastMessage.content !== content) {
+      history.push({
+        role: "user",
+        content,
+        tokens: undefined,
+        attachments: [],
+      });
+    }
+
+    const attached = await convex.query(api.uploader.getChatReports, {
+      chatId,
     });
+    const reports = (
+      await Promise.all(
+        attached.map((report) =>
+          convex.query(api.uploader.getReport, { id: report._id }),
+        ),
+      )
+    ).filter((report) => report !== null);
+
+    const fullMessages: LLMMessage[] = [SYSTEM_PROMPT];
 
-    return new Response(readableStream, {
-      headers: {
-        "Content-Type": "text/plain; charset=utf-8",
-        "Cache-Control": "no-cache, no-transform",
-        Connection: "keep-alive",
+    // Inject the linked animal's profile right after the system prompt
+    if (animal) {
+      fullMessages.push({
+        role: "system",
+        content: buildAnimalContext(animal),
+      });
+    }
+
+    if (reports.length > 0) {
+      fullMessages.push({
+        role: "system",
+        content: buildReportContext(reports),
+      });
+    }
+
+    if (emergency) {
+      fullMessages.push({
+        role: "system",
+        content: `The owner's message matches an emergency pattern: ${emergency.title}. Triage it URGENT unless the message clearly rules it out, and lead with going to a vet now.`,
+      });
+    }
+
+    const window = selectHistoryWindow(history);
+
+    // Newest turns get the photo budget first
+    let imageBudget = MAX_HISTORY_IMAGES;
+    const includeImages = window.map(() => false);
+    for (let i = window.length - 1; i >= 0; i--) {
+      const count = window[i].attachments.length;
+      if (count > 0 && count <= imageBudget) {
+        includeImages[i] = true;
+        imageBudget -= count;
+      }
+    }
+
+    for (const [i, message] of window.entries()) {
+      fullMessages.push({
+        role: message.role,
+        content: await toVisionContent(message, includeImages[i]),
+      });
+    }
+    const hasImages = fullMessages.some((m) => typeof m.content !== "string");
+
+    // Photos need a vision-capable model. Resolved before the placeholder
+    // below, a misconfigured provider would otherwise leave it pending.
+    const { provider, model } = getLLM(hasImages ? "vision" : "chat");
+
+    // Placeholder the reply is streamed into, clients watch it via Convex
+    const messageId = await convex.mutation(api.chats.createAssistantMessage, {
+      serverSecret: env.CONVEX_SERVER_SECRET,
+      chatId,
+      userId: session.userId,
+      branchOf: branchOf as Id<"messages"> | undefined,
+    });
+    const abortController = new AbortController();
+    let tokenUsage: TokenUsage | undefined;
+
+    const chunks = provider.streamText({
+      model,
+      messages: fullMessages,
+      temperature: 0.6,
+      signal: abortController.signal,
+      onUsage: (reported) => {
+        tokenUsage = reported;
       },
     });
+
+    // Keep generating after the response so closing the tab loses nothing
+    after(() =>
+      streamToMessage(messageId, chunks, {
+        abort: () => abortController.abort(),
+        usage: () => tokenUsage,
+        promptTokens: estimateTokens(
+          fullMessages.map((m) => textOf(m.content)).join(""),
+        ),
+      }),
+    );
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: "Generating",
+        metadata: { data: messageId },
+      },
+      { status: 202 },
+    );
   } catch (error) {
     console.error("API error:", error);
 
@@ -0,0 +1,153 @@
+import { NextRequest, NextResponse } from "next/server";
+import { currentUser } from "@clerk/nextjs/server";
+
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+import { getAuthedConvexClient } from "@/lib/convex-server";
+import { getLLM, TokenUsage } from "@/lib/llm";
+import { enforceRateLimit } from "@/lib/rate-limit";
+import { limitReachedResponse } from "@/lib/usage-limit";
+import { isValidConvexId } from "@/lib/utils";
+import { parseVetSummary, withAnimalProfile } from "@/lib/vet-summary";
+import { renderVetSummaryPdf } from "@/lib/vet-summary-pdf";
+import { buildAnimalContext } from "@/app/prompts/animal-context";
+import { vetSummarySystemPrompt } from "@/app/prompts/vet-summary-prompt";
+import { env } from "@/app/env";
+
+// Newest turns win when a long chat doesn't fit
+const MAX_TRANSCRIPT_CHARS = 40_000;
+
+/** Generates a vet visit summary PDF for the chat and stores it */
+export async function POST(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const session = await getAuthedConvexClient();
+    if (!session) {
+      return NextResponse.json(
+        { success: false, message: "Unauthorized" },
+        { status: 401 },
+      );
+    }
+    const convex = session.client;
+
+    const limited = await enforceRateLimit("summary", session.userId);
+    if (limited) return limited;
+
+    const quota = await convex.query(api.usage.getMyUsage, {
+      now: Date.now(),
+    });
+    if (quota?.limitReached) {
+      return limitReachedResponse();
+    }
+
+    const { id } = await params;
+    if (!isValidConvexId(id)) {
+      return NextResponse.json(
+        { success: false, message: "Invalid chat id" },
+        { status: 400 },
+      );
+    }
+    const chatId = id as Id<"chats">;
+
+    const chat = await convex.query(api.chats.getChatById, { chatId });
+    if (!chat) {
+      return NextResponse.json(
+        { success: false, message: "Chat not found" },
+        { status: 404 },
+      );
+    }
+
+    const history = await convex.query(api.chats.getChatHistory, { chatId });
+    if (!history.some((m) => m.role === "assistant")) {
+      return NextResponse.json(
+        { success: false, message: "There is nothing to summarize yet" },
+        { status: 422 },
+      );
+    }
+
+    let transcript = "";
+    for (const message of [...history].reverse()) {
+      const photos = message.attachments.length
+        ? ` [${message.attachments.length} photo(s)]`
+        : "";
+      const turn = `${message.role === "user" ? "Owner" : "PashuCare AI"}:${photos} ${message.content}\n\n`;
+      if (transcript.length + turn.length > MAX_TRANSCRIPT_CHARS) break;
+      transcript = turn + transcript;
+    }
+
+    const animal = chat.animalId
+      ? await convex.query(api.animals.getAnimal, { id: chat.animalId })
+      : null;
+
+    const { provider, model } = getLLM("report");
+    let usage: TokenUsage | undefined;
+    let reply = "";
+    for await (const delta of provider.streamText({
+      model,
+      messages: [
+        { role: "system", content: vetSummarySystemPrompt },
+        ...(animal
+          ? [{ role: "system" as const, content: buildAnimalContext(animal) }]
+          : []),
+        { role: "user", content: `Conversation:\n\n${transcript}` },
+      ],
+      temperature: 0.2,
+      maxTokens: 2048,
+      onUsage: (reported) => {
+        usage = reported;
+      },
+    })) {
+      reply += delta;
+    }
+
+    if (usage) {
+      await convex.mutation(api.usage.recordServerTokenUsage, {
+        serverSecret: env.CONVEX_SERVER_SECRET,
+        userId: session.userId,
+        usage,
+      });
+    }
+
+    const parsed = parseVetSummary(reply);
+    if (!parsed) {
+      console.error("Unparseable vet summary:", reply.slice(0, 500));
+      return NextResponse.json(
+        { success: false, message: "Could not generate a summary, try again" },
+        { status: 502 },
+      );
+    }
+
+    const summary = withAnimalProfile(parsed, animal);
+    const user = await currentUser();
+    const pdf = await renderVetSummaryPdf(summary, {
+      ownerName: user?.fullName ?? undefined,
+      generatedAt: Date.now(),
+    });
+
+    const uploadUrl = await convex.mutation(api.uploader.generateUploadUrl, {});
+    const upload = await fetch(uploadUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/pdf" },
+      body: new Uint8Array(pdf),
+    });
+    if (!upload.ok) throw new Error("Failed to store the summary PDF");
+    const { storageId } = await upload.json();
+    await convex.mutation(api.uploader.registerUpload, { storageId });
+
+    const summaryId = await convex.mutation(api.vetSummaries.saveVetSummary, {
+      chatId,
+      summary,
+      fileId: storageId,
+    });
+
+    return NextResponse.json({ success: true, summaryId });
+  } catch (error) {
+    console.error("Vet summary error:", error);
+    return NextResponse.json(
+      { success: false, message: "Failed to generate the summary" },
+      { status: 500 },
+    );
+  }
+}
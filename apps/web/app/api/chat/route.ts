@@ -2,11 +2,29 @@ import { NextRequest, NextResponse } from "next/server";
 import { ConvexHttpClient } from "convex/browser";
 import * as z from "zod";
 import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
 import { auth } from "@clerk/nextjs/server";
+import { enforceRateLimit } from "@/lib/rate-limit";
 
-const chatSchema = z.object({
-  text: z.string().min(1, "Text is required"),
-});
+const chatSchema = z
+  .object({
+    text: z.string(),
+    animalId: z.string().optional(),
+    attachments: z
+      .array(
+        z.object({
+          storageId: z.string(),
+          mimeType: z.string().startsWith("image/"),
+          name: z.string().optional(),
+        }),
+      )
+      .max(4)
+      .optional(),
+  })
+  .refine((data) => data.text.trim() || data.attachments?.length, {
+    message: "Text is required",
+    path: ["text"],
+  });
 
 export async function POST(req: NextRequest) {
   try {
@@ -19,6 +37,9 @@ export async function POST(req: NextRequest) {
       });
     }
 
+    const limited = await enforceRateLimit("createChat", userId);
+    if (limited) return limited;
+
     const token = await getToken({ template: "convex" });
 
     if (!token) {
@@ -35,15 +56,21 @@ export async function POST(req: NextRequest) {
         errors: z.flattenError(parsed.error).fieldErrors,
       });
     }
-    const { text } = parsed.data;
+    const { text, animalId, attachments } = parsed.data;
+    const name = text.trim() || "Photo consultation";
 
     // db operation
     const client = new ConvexHttpClient(process.env.NEXT_PUBLIC_CONVEX_URL!);
     client.setAuth(token);
 
     const result = await client.mutation(api.chats.createChat, {
-      name: text.substring(0, 40) + (text.length > 40 ? "..." : ""),
+      name: name.substring(0, 40) + (name.length > 40 ? "..." : ""),
       initialMessage: text,
+      initialAttachments: attachments?.map((a) => ({
+        ...a,
+        storageId: a.storageId as Id<"_storage">,
+      })),
+      animalId: animalId as Id<"animals"> | undefined,
     });
 
     return new Response(
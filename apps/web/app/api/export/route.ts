@@ -0,0 +1,256 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { strToU8, Zip, ZipDeflate, ZipPassThrough } from "fflate";
+import { ConvexHttpClient } from "convex/browser";
+import { FunctionReturnType } from "convex/server";
+
+import { api } from "@/convex/_generated/api";
+import { env } from "@/app/env";
+import {
+  ARCHIVE_VERSION,
+  ArchiveManifest,
+  ArchivedChat,
+  chatToMarkdown,
+  extensionFor,
+  safeFileName,
+} from "@/lib/archive";
+import { slugify } from "@/lib/slug";
+
+async function download(url: string | null) {
+  if (!url) return null;
+  const response = await fetch(url);
+  if (!response.ok) return null;
+  return {
+    bytes: new Uint8Array(await response.arrayBuffer()),
+    mimeType: response.headers.get("content-type") ?? "",
+  };
+}
+
+const json = (value: unknown) => strToU8(JSON.stringify(value, null, 2));
+
+// Reports per getArchiveReports call, their extracted text can be large
+const REPORT_PAGE_SIZE = 10;
+
+type ArchiveEntry = {
+  path: string;
+  bytes: Uint8Array;
+  // Photos and PDFs are compressed already
+  compress: boolean;
+};
+
+/**
+ * Yields the archive one file at a time, downloading each only when the ZIP
+ * stream asks for more, with manifest.json last.
+ */
+async function* archiveEntries(
+  convex: ConvexHttpClient,
+  userId: string,
+  data: FunctionReturnType<typeof api.archive.getArchiveManifest>,
+): AsyncGenerator<ArchiveEntry> {
+  const serverSecret = env.CONVEX_SERVER_SECRET;
+  const written = new Set<string>();
+
+  const manifest: ArchiveManifest = {
+    version: ARCHIVE_VERSION,
+    exportedAt: Date.now(),
+    animals: [],
+    chats: [],
+    reports: [],
+  };
+
+  for (const animal of data.animals) {
+    let photo: ArchiveManifest["animals"][number]["photo"];
+    const file = await download(animal.photoUrl);
+    if (file) {
+      // Storage serves files with the content type they were uploaded with
+      const mimeType = file.mimeType || "image/jpeg";
+      photo = {
+        path: `animals/${animal._id}.${extensionFor(mimeType)}`,
+        mimeType,
+      };
+      yield { path: photo.path, bytes: file.bytes, compress: false };
+    }
+
+    manifest.animals.push({
+      id: animal._id,
+      name: animal.name,
+      species: animal.species,
+      breed: animal.breed,
+      sex: animal.sex,
+      dateOfBirth: animal.dateOfBirth,
+      isNeutered: animal.isNeutered,
+      weightHistory: animal.weightHistory,
+      photo,
+      createdAt: animal.createdAt,
+      updatedAt: animal.updatedAt,
+    });
+  }
+
+  for (const chat of data.chats) {
+    const messages = await convex.query(api.archive.getArchiveChat, {
+      serverSecret,
+      userId,
+      chatId: chat._id,
+    });
+
+    const archived: ArchivedChat = {
+      id: chat._id,
+      name: chat.name,
+      animalId: chat.animalId,
+      urgentAt: chat.urgentAt,
+      createdAt: chat.createdAt,
+      updatedAt: chat.updatedAt,
+      messages: [],
+    };
+
+    for (const message of messages) {
+      const attachments = [];
+      for (const attachment of message.attachments) {
+        const path = `chats/attachments/${attachment.storageId}.${extensionFor(attachment.mimeType)}`;
+        // Edited messages share their original's photos
+        if (!written.has(path)) {
+          const file = await download(attachment.url);
+          if (!file) continue;
+          written.add(path);
+          yield { path, bytes: file.bytes, compress: false };
+        }
+        attachments.push({
+          path,
+          mimeType: attachment.mimeType,
+          name: attachment.name,
+        });
+      }
+
+      archived.messages.push({
+        id: message._id,
+        role: message.role,
+        content: message.content,
+        status: message.status,
+        triage: message.triage,
+        attachments: attachments.length ? attachments : undefined,
+        parentId: message.parentId,
+        branchOf: message.branchOf,
+        hidden: message.hidden,
+        createdAt: message.createdAt,
+      });
+    }
+
+    const base = `chats/${slugify(chat.name)}-${chat._id}`;
+    yield { path: `${base}.json`, bytes: json(archived), compress: true };
+    yield {
+      path: `${base}.md`,
+      bytes: strToU8(chatToMarkdown(archived)),
+      compress: true,
+    };
+    manifest.chats.push({
+      id: chat._id,
+      name: chat.name,
+      path: `${base}.json`,
+    });
+  }
+
+  let cursor: string | null = null;
+  let isDone = false;
+  while (!isDone) {
+    const result: FunctionReturnType<typeof api.archive.getArchiveReports> =
+      await convex.query(api.archive.getArchiveReports, {
+        serverSecret,
+        userId,
+        paginationOpts: { numItems: REPORT_PAGE_SIZE, cursor },
+      });
+    cursor = result.continueCursor;
+    isDone = result.isDone;
+
+    for (const report of result.page) {
+      const file = await download(report.url);
+      if (!file) continue;
+
+      const path = `reports/${report._id}/${safeFileName(report.fileName)}`;
+      yield { path, bytes: file.bytes, compress: false };
+      if (report.analysis) {
+        yield {
+          path: `reports/${report._id}/analysis.md`,
+          bytes: strToU8(report.analysis),
+          compress: true,
+        };
+      }
+
+      manifest.reports.push({
+        id: report._id,
+        chatId: report.chatId,
+        animalId: report.animalId,
+        file: { path, mimeType: report.mimeType, name: report.fileName },
+        sizeBytes: report.sizeBytes,
+        analysis: report.analysis,
+        extractedText: report.extractedText,
+        createdAt: report.createdAt,
+      });
+    }
+  }
+
+  yield { path: "manifest.json", bytes: json(manifest), compress: true };
+}
+
+// Streaming takes as long as the download, past the user's Convex token, so
+// the archive is read with the server secret
+export async function GET() {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, message: "Unauthorized" },
+        { status: 401 },
+      );
+    }
+    const convex = new ConvexHttpClient(env.NEXT_PUBLIC_CONVEX_URL);
+
+    const data = await convex.query(api.archive.getArchiveManifest, {
+      serverSecret: env.CONVEX_SERVER_SECRET,
+      userId,
+    });
+    const entries = archiveEntries(convex, userId, data);
+
+    // Streamed, only the file being added is held in memory
+    let zip: Zip;
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        zip = new Zip((error, chunk, final) => {
+          if (error) return controller.error(error);
+          controller.enqueue(chunk);
+          if (final) controller.close();
+        });
+      },
+      async pull() {
+        const next = await entries.next();
+        if (next.done) {
+          zip.end();
+          return;
+        }
+
+        const { path, bytes, compress } = next.value;
+        const file = compress ? new ZipDeflate(path) : new ZipPassThrough(path);
+        zip.add(file);
+        file.push(bytes, true);
+      },
+      async cancel() {
+        await entries.return(undefined);
+      },
+    });
+
+    const date = new Date().toISOString().slice(0, 10);
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "application/zip",
+        "Content-Disposition": `attachment; filename="pashucare-export-${date}.zip"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    console.error("Export error:", error);
+    return NextResponse.json(
+      { success: false, message: "Failed to export data" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,345 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { strFromU8, unzipSync } from "fflate";
+import { ConvexHttpClient } from "convex/browser";
+import * as z from "zod";
+
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+import { archivedChatSchema, archiveManifestSchema } from "@/lib/archive";
+import { isValidConvexId } from "@/lib/utils";
+import { env } from "@/app/env";
+
+const MAX_ARCHIVE_SIZE = 200 * 1024 * 1024;
+// Everything in the archive once unzipped. Entries are inflated into buffers
+// of their declared size, so the headers can't be used to exceed it.
+const MAX_UNZIPPED_SIZE = 300 * 1024 * 1024;
+// Any one file once unzipped, only one is held in memory at a time
+const MAX_ENTRY_SIZE = 50 * 1024 * 1024;
+// Messages per importMessages call, keeps each mutation small
+const MESSAGE_BATCH = 100;
+
+class ArchiveError extends Error {}
+
+const importSchema = z.object({
+  // The export, uploaded straight to Convex storage by the browser
+  storageId: z.string().refine(isValidConvexId, "Invalid archive id"),
+});
+
+type ArchiveReader = (path: string) => Uint8Array | undefined;
+
+/**
+ * Checks the archive's declared sizes without inflating anything, then
+ * returns a reader that inflates one entry at a time, on demand.
+ */
+function openArchive(bytes: Uint8Array): ArchiveReader {
+  let total = 0;
+  try {
+    unzipSync(bytes, {
+      filter: (file) => {
+        total += file.originalSize;
+        if (file.originalSize > MAX_ENTRY_SIZE) {
+          throw new ArchiveError(`${file.name} is too large`);
+        }
+        if (total > MAX_UNZIPPED_SIZE) {
+          throw new ArchiveError("Archive is too large once unzipped");
+        }
+        return false;
+      },
+    });
+  } catch (error) {
+    if (error instanceof ArchiveError) throw error;
+    throw new ArchiveError("Not a valid ZIP file");
+  }
+
+  return (path) => {
+    try {
+      return unzipSync(bytes, { filter: (file) => file.name === path })[path];
+    } catch {
+      throw new ArchiveError(`Corrupt file ${path}`);
+    }
+  };
+}
+
+function readJson(read: ArchiveReader, path: string) {
+  const bytes = read(path);
+  if (!bytes) throw new ArchiveError(`Missing ${path}`);
+  try {
+    return JSON.parse(strFromU8(bytes));
+  } catch {
+    throw new ArchiveError(`Invalid JSON in ${path}`);
+  }
+}
+
+async function upload(
+  convex: ConvexHttpClient,
+  userId: string,
+  bytes: Uint8Array,
+  mimeType: string,
+) {
+  const postUrl = await convex.mutation(api.uploader.generateServerUploadUrl, {
+    serverSecret: env.CONVEX_SERVER_SECRET,
+  });
+  const response = await fetch(postUrl, {
+    method: "POST",
+    headers: { "Content-Type": mimeType },
+    body: new Uint8Array(bytes),
+  });
+  if (!response.ok) throw new Error("Failed to upload file to storage");
+  const { storageId } = await response.json();
+  await convex.mutation(api.uploader.registerServerUpload, {
+    serverSecret: env.CONVEX_SERVER_SECRET,
+    userId,
+    storageId,
+  });
+  return storageId as Id<"_storage">;
+}
+
+/**
+ * Restores a data export into the signed-in (empty) account. Large imports
+ * outlive the user's Convex token, so all calls go through the server secret.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, message: "Unauthorized" },
+        { status: 401 },
+      );
+    }
+    const convex = new ConvexHttpClient(env.NEXT_PUBLIC_CONVEX_URL);
+    const serverSecret = env.CONVEX_SERVER_SECRET;
+
+    const body = importSchema.safeParse(await req.json());
+    if (!body.success) {
+      return NextResponse.json(
+        { success: false, message: "No archive provided" },
+        { status: 400 },
+      );
+    }
+    const archiveId = body.data.storageId as Id<"_storage">;
+
+    try {
+      const archive = await convex.query(api.archive.getImportArchive, {
+        serverSecret,
+        userId,
+        storageId: archiveId,
+      });
+      if (!archive) {
+        return NextResponse.json(
+          { success: false, message: "Archive not found" },
+          { status: 404 },
+        );
+      }
+      if (archive.size > MAX_ARCHIVE_SIZE) {
+        return NextResponse.json(
+          { success: false, message: "Archive exceeds 200MB" },
+          { status: 413 },
+        );
+      }
+
+      if (
+        !(await convex.query(api.archive.isAccountEmpty, {
+          serverSecret,
+          userId,
+        }))
+      ) {
+        return NextResponse.json(
+          {
+            success: false,
+            message: "Imports are only possible into an account with no data",
+          },
+          { status: 409 },
+        );
+      }
+
+      const response = await fetch(archive.url);
+      if (!response.ok) throw new Error("Failed to fetch archive from storage");
+      const read = openArchive(new Uint8Array(await response.arrayBuffer()));
+
+      return await importArchive(convex, userId, read);
+    } finally {
+      await convex
+        .mutation(api.archive.deleteImportArchive, {
+          serverSecret,
+          userId,
+          storageId: archiveId,
+        })
+        .catch((error) => console.error("Archive cleanup error:", error));
+    }
+  } catch (error) {
+    if (error instanceof ArchiveError) {
+      return NextResponse.json(
+        { success: false, message: error.message },
+        { status: 422 },
+      );
+    }
+    console.error("Import error:", error);
+    return NextResponse.json(
+      { success: false, message: "Failed to import data" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * Creates everything in the archive. Nothing is left behind on failure, so
+ * the user can simply retry.
+ */
+async function importArchive(
+  convex: ConvexHttpClient,
+  userId: string,
+  read: ArchiveReader,
+) {
+  const serverSecret = env.CONVEX_SERVER_SECRET;
+  // Archive ids to ids in this deployment
+  const animalIds = new Map<string, Id<"animals">>();
+  const chatIds = new Map<string, Id<"chats">>();
+  const reportIds: Id<"reports">[] = [];
+  const uploads = new Map<string, Id<"_storage">>();
+
+  try {
+    const parsed = archiveManifestSchema.safeParse(
+      readJson(read, "manifest.json"),
+    );
+    if (!parsed.success) {
+      throw new ArchiveError("Unsupported or corrupt manifest.json");
+    }
+    const manifest = parsed.data;
+
+    const uploadPath = async (path: string, mimeType: string) => {
+      if (!uploads.has(path)) {
+        const bytes = read(path);
+        if (!bytes) return undefined;
+        uploads.set(path, await upload(convex, userId, bytes, mimeType));
+      }
+      return uploads.get(path);
+    };
+
+    for (const { id, photo, ...animal } of manifest.animals) {
+      const photoId = photo
+        ? await uploadPath(photo.path, photo.mimeType)
+        : undefined;
+      animalIds.set(
+        id,
+        await convex.mutation(api.archive.importAnimal, {
+          serverSecret,
+          userId,
+          ...animal,
+          photoId,
+        }),
+      );
+    }
+
+    for (const entry of manifest.chats) {
+      const chatParsed = archivedChatSchema.safeParse(
+        readJson(read, entry.path),
+      );
+      if (!chatParsed.success) {
+        throw new ArchiveError(`Corrupt chat file ${entry.path}`);
+      }
+      const { id, animalId, messages, ...chat } = chatParsed.data;
+
+      const chatId = await convex.mutation(api.archive.importChat, {
+        serverSecret,
+        userId,
+        ...chat,
+        animalId: animalId ? animalIds.get(animalId) : undefined,
+      });
+      chatIds.set(id, chatId);
+
+      let idMap: Record<string, Id<"messages">> = {};
+      for (let i = 0; i < messages.length; i += MESSAGE_BATCH) {
+        const batch = [];
+        for (const message of messages.slice(i, i + MESSAGE_BATCH)) {
+          // The prompt is always the server's own
+          if (message.role === "system") continue;
+
+          const attachments = [];
+          for (const attachment of message.attachments ?? []) {
+            const storageId = await uploadPath(
+              attachment.path,
+              attachment.mimeType,
+            );
+            if (!storageId) continue;
+            attachments.push({
+              storageId,
+              mimeType: attachment.mimeType,
+              name: attachment.name,
+            });
+          }
+
+          batch.push({
+            sourceId: message.id,
+            role: message.role,
+            content: message.content,
+            // Replies cut off mid-stream keep whatever text they had
+            status:
+              message.status === "error"
+                ? ("error" as const)
+                : ("sent" as const),
+            triage: message.triage,
+            attachments: attachments.length ? attachments : undefined,
+            parentSourceId: message.parentId,
+            branchOfSourceId: message.branchOf,
+            hidden: message.hidden,
+            createdAt: message.createdAt,
+          });
+        }
+
+        const inserted = await convex.mutation(api.archive.importMessages, {
+          serverSecret,
+          userId,
+          chatId,
+          messages: batch,
+          idMap,
+        });
+        idMap = { ...idMap, ...inserted };
+      }
+    }
+
+    for (const report of manifest.reports) {
+      const fileId = await uploadPath(report.file.path, report.file.mimeType);
+      if (!fileId) continue;
+
+      const reportId = await convex.mutation(api.archive.importReport, {
+        serverSecret,
+        userId,
+        fileId,
+        fileName: report.file.name ?? report.file.path.split("/").pop()!,
+        mimeType: report.file.mimeType,
+        sizeBytes: report.sizeBytes,
+        chatId: report.chatId ? chatIds.get(report.chatId) : undefined,
+        animalId: report.animalId ? animalIds.get(report.animalId) : undefined,
+        analysis: report.analysis,
+        extractedText: report.extractedText,
+        createdAt: report.createdAt,
+      });
+      reportIds.push(reportId);
+    }
+
+    return NextResponse.json({
+      success: true,
+      imported: {
+        animals: animalIds.size,
+        chats: chatIds.size,
+        reports: reportIds.length,
+      },
+    });
+  } catch (error) {
+    await convex
+      .mutation(api.archive.rollbackImport, {
+        serverSecret,
+        userId,
+        animalIds: [...animalIds.values()],
+        chatIds: [...chatIds.values()],
+        reportIds,
+        storageIds: [...uploads.values()],
+      })
+      .catch((rollbackError) =>
+        console.error("Import rollback error:", rollbackError),
+      );
+    throw error;
+  }
+}
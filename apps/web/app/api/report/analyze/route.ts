@@ -1,137 +1,437 @@
-/* eslint-disable @typescript-eslint/no-explicit-any */
-import { auth } from "@clerk/nextjs/server";
-import { NextRequest, NextResponse } from "next/server";
+import { after, NextRequest, NextResponse } from "next/server";
+import { currentUser } from "@clerk/nextjs/server";
+import { render } from "@react-email/render";
+import { ConvexHttpClient } from "convex/browser";
+import * as z from "zod";
 
-import { client } from "../../chat/[id]/route";
-import fs from "fs";
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+import { getAuthedConvexClient } from "@/lib/convex-server";
+import { getLLM, LLMMessage, TokenUsage } from "@/lib/llm";
+import { sendEmail } from "@/lib/mailer";
+import { extractPdfText } from "@/lib/pdf-extract";
+import {
+  NormalizedReport,
+  normalizeReport,
+  UnsupportedReportError,
+} from "@/lib/report-ingest";
+import { enforceRateLimit } from "@/lib/rate-limit";
+import { limitReachedResponse } from "@/lib/usage-limit";
+import { isValidConvexId } from "@/lib/utils";
+import { ocrPrompt, reportSystemPrompt } from "@/app/prompts/report-prompt";
+import { AnalysisReadyEmailTemplate } from "@/app/email-templates";
+import { env } from "@/app/env";
+
+// Keeps the stored text well under Convex's 1MB document limit
+const MAX_EXTRACTED_CHARS = 200_000;
+const MAX_PROMPT_CHARS = 60_000;
+
+// Opted-in users are emailed when an analysis outlasts this, or when they
+// closed the page before it finished
+const LONG_ANALYSIS_MS = 30_000;
+
+// Same limit as the upload area and saveReport
+const MAX_REPORT_SIZE = 5 * 1024 * 1024;
+
+const reanalyzeSchema = z.object({
+  reportId: z.string().refine(isValidConvexId, "Invalid report id"),
+});
+
+/** Vision-model OCR for PDF pages that have no text layer */
+async function transcribePage(
+  png: Buffer,
+  onUsage: (usage: TokenUsage) => void,
+): Promise<string> {
+  const { provider, model } = getLLM("vision");
+  let text = "";
+  for await (const delta of provider.streamText({
+    model,
+    messages: [
+      {
+        role: "user",
+        content: [
+          { type: "text", text: ocrPrompt },
+          {
+            type: "image",
+            mimeType: "image/png",
+            data: png.toString("base64"),
+          },
+        ],
+      },
+    ],
+    temperature: 0,
+    maxTokens: 2048,
+    onUsage,
+  })) {
+    text += delta;
+  }
+  return text;
+}
 
 export async function POST(req: NextRequest) {
+  // Uploads no report points at yet, deleted when the request fails
+  const pending: Id<"_storage">[] = [];
+  let discardPending = async () => {};
+
   try {
-    const { userId } = await auth();
-    if (!userId) {
+    const session = await getAuthedConvexClient();
+    if (!session) {
       return NextResponse.json(
         { success: false, message: "Unauthorized" },
         { status: 401 },
       );
     }
+    const convex = session.client;
+    discardPending = async () => {
+      for (const storageId of pending.splice(0)) {
+        await convex
+          .mutation(api.uploader.discardUpload, { storageId })
+          .catch((error) => console.error("Upload cleanup error:", error));
+      }
+    };
+
+    const limited = await enforceRateLimit("analyze", session.userId);
+    if (limited) return limited;
+
+    const usage = await convex.query(api.usage.getMyUsage, {
+      now: Date.now(),
+    });
+    if (usage?.limitReached) {
+      return limitReachedResponse();
+    }
+
+    // OCR pages and the analysis itself, recorded once the stream ends
+    const tokenUsage: TokenUsage = { promptTokens: 0, completionTokens: 0 };
+    const addUsage = (reported: TokenUsage) => {
+      tokenUsage.promptTokens += reported.promptTokens;
+      tokenUsage.completionTokens += reported.completionTokens;
+    };
+    const recordUsage = async () => {
+      if (!tokenUsage.promptTokens && !tokenUsage.completionTokens) return;
+      await new ConvexHttpClient(env.NEXT_PUBLIC_CONVEX_URL)
+        .mutation(api.usage.recordServerTokenUsage, {
+          serverSecret: env.CONVEX_SERVER_SECRET,
+          userId: session.userId,
+          usage: tokenUsage,
+        })
+        .catch((error) => console.error("Token usage error:", error));
+    };
 
-    // Check if the request is JSON (e.g. from DetailsCard) or FormData (e.g. from UploadArea)
+    // Check if the request is JSON (re-analysis from DetailsCard) or FormData (first upload from UploadArea)
     const contentType = req.headers.get("content-type") || "";
-    let buffer: Buffer;
     let fileName: string;
+    let reportId: Id<"reports"> | undefined;
+    let storedText: string | undefined;
+    let report: NormalizedReport | undefined;
+    let upload:
+      | {
+          fileId: Id<"_storage">;
+          sizeBytes: number;
+          chatId?: Id<"chats">;
+          animalId?: Id<"animals">;
+        }
+      | undefined;
 
     if (contentType.includes("application/json")) {
-      const { imageUrl } = await req.json();
-      if (!imageUrl) {
+      const parsed = reanalyzeSchema.safeParse(await req.json());
+      if (!parsed.success) {
         return NextResponse.json(
-          { success: false, message: "No image URL provided" },
+          {
+            success: false,
+            message: "Invalid payload",
+            errors: parsed.error.flatten().fieldErrors,
+          },
           { status: 400 },
         );
       }
-      const response = await fetch(imageUrl);
-      if (!response.ok) throw new Error("Failed to fetch file from URL");
-      const bytes = await response.arrayBuffer();
-      buffer = Buffer.from(bytes);
-      fileName = "report-file.pdf"; // Fallback name
+
+      reportId = parsed.data.reportId as Id<"reports">;
+      const existing = await convex.query(api.uploader.getReport, {
+        id: reportId,
+      });
+      if (!existing) {
+        return NextResponse.json(
+          { success: false, message: "Report not found" },
+          { status: 404 },
+        );
+      }
+      fileName = existing.fileName;
+
+      // Text reports are extracted once, only photos are re-read
+      storedText = existing.extractedText;
+      if (!storedText) {
+        if (!existing.url) throw new Error("Report file is missing");
+        const response = await fetch(existing.url);
+        if (!response.ok) throw new Error("Failed to fetch file from storage");
+        report = await normalizeReport(
+          Buffer.from(await response.arrayBuffer()),
+        );
+      }
     } else {
       const formData = await req.formData();
-      const file = formData.get("report-file") as File | null;
+      const storageId = formData.get("storageId") as string | null;
+      const name = formData.get("fileName") as string | null;
+      const chatId = formData.get("chatId") as string | null;
+      const animalId = formData.get("animalId") as string | null;
 
-      if (!file) {
+      if (!storageId || !isValidConvexId(storageId)) {
         return NextResponse.json(
           { success: false, message: "No file provided" },
           { status: 400 },
         );
       }
 
-      const bytes = await file.arrayBuffer();
-      buffer = Buffer.from(bytes);
-      fileName = file.name;
-    }
+      // The stored object is what the report points at, so read that rather
+      // than trusting a second copy from the form
+      const fileId = storageId as Id<"_storage">;
+      const stored = await convex.query(api.uploader.getUploadedFile, {
+        storageId: fileId,
+      });
+      if (!stored?.url) {
+        return NextResponse.json(
+          { success: false, message: "File not found" },
+          { status: 404 },
+        );
+      }
+      pending.push(fileId);
 
-    // Create a temporary file path
-    const tempPath = `/tmp/${fileName}`;
-    fs.writeFileSync(tempPath, buffer);
+      if (stored.size > MAX_REPORT_SIZE) {
+        await discardPending();
+        return NextResponse.json(
+          { success: false, message: "File exceeds 5MB" },
+          { status: 413 },
+        );
+      }
+      const response = await fetch(stored.url);
+      if (!response.ok) throw new Error("Failed to fetch file from storage");
 
-    const file_object = await client.files.create({
-      file: fs.createReadStream(tempPath),
-      purpose: "file-extract" as any,
-    });
+      fileName = name?.trim() || "Report";
+      upload = {
+        fileId,
+        sizeBytes: stored.size,
+        chatId: isValidConvexId(chatId) ? (chatId as Id<"chats">) : undefined,
+        animalId: isValidConvexId(animalId)
+          ? (animalId as Id<"animals">)
+          : undefined,
+      };
+      report = await normalizeReport(Buffer.from(await response.arrayBuffer()));
+    }
 
-    const file_content = await (
-      await client.files.content(file_object.id)
-    ).text();
+    let extractedText: string | undefined;
+    if (report?.kind === "docx") {
+      extractedText = report.text;
+    } else if (report?.kind === "pdf") {
+      extractedText = (
+        await extractPdfText(report.buffer, (png) =>
+          transcribePage(png, addUsage),
+        )
+      ).text;
+    }
+    extractedText = extractedText?.slice(0, MAX_EXTRACTED_CHARS);
 
-    // Clean up temp file
-    fs.unlinkSync(tempPath);
+    if (extractedText !== undefined && !extractedText.trim()) {
+      await discardPending();
+      return NextResponse.json(
+        { success: false, message: "No readable text found in this report" },
+        { status: 422 },
+      );
+    }
 
-    const stream = await client.chat.completions.create({
-      model: "kimi-k2.5",
-      messages: [
-        {
-          role: "system",
-          content: `You are an expert veterinary AI assistant specializing in analyzing pet medical reports, lab results, and diagnostic images. 
-          
-Your analysis should include:
-1. **Summary** - Brief overview of what the report shows
-2. **Key Findings** - Important values, measurements, or observations
-3. **Interpretation** - What these findings mean for the pet's health
-4. **Recommendations** - Suggested next steps, treatments, or lifestyle changes
-5. **Red Flags** - Any urgent concerns that need immediate veterinary attention
-
-Be thorough but clear. Use medical terminology appropriately but explain it for pet owners. Always include a disclaimer that this is AI-assisted analysis and not a replacement for professional veterinary consultation.`,
-        },
-        {
-          role: "user",
-          content: `Please analyze the following pet medical report.
+    // Persist before streaming so the report is only saved once analysis can start
+    if (upload && report) {
+      if (report.kind === "image") {
+        // Keep the normalized JPEG, a HEIC original wouldn't open in browsers
+        const jpeg = Buffer.from(report.base64, "base64");
+        const postUrl = await convex.mutation(
+          api.uploader.generateUploadUrl,
+          {},
+        );
+        const uploaded = await fetch(postUrl, {
+          method: "POST",
+          headers: { "Content-Type": report.mimeType },
+          body: jpeg,
+        });
+        if (!uploaded.ok) throw new Error("Failed to store the photo");
+        const { storageId } = await uploaded.json();
+        await convex.mutation(api.uploader.registerUpload, { storageId });
+        pending.push(storageId);
+        upload = { ...upload, fileId: storageId, sizeBytes: jpeg.length };
+      }
 
-${file_content}
+      reportId = await convex.mutation(api.uploader.saveReport, {
+        ...upload,
+        fileName,
+        mimeType: report.mimeType,
+        extractedText,
+      });
+
+      // The report owns its file now, a replaced original is deleted
+      pending.splice(pending.indexOf(upload.fileId), 1);
+      await discardPending();
+    } else if (reportId && extractedText) {
+      await convex.mutation(api.uploader.saveExtractedText, {
+        reportId,
+        extractedText,
+      });
+    }
 
-Include:
+    const instructions = `Include:
 1. Summary
 2. Key Findings
 3. Interpretation
 4. Recommendations
 5. Red Flags
 
-Note: Explain medical terms in simple language.`,
+Note: Explain medical terms in simple language.`;
+
+    let userContent: LLMMessage["content"];
+    let llm: ReturnType<typeof getLLM>;
+
+    if (report?.kind === "image") {
+      // Photos of lab sheets or DICOM exports go straight to a vision model
+      llm = getLLM("vision");
+      userContent = [
+        {
+          type: "text",
+          text: `Please analyze the pet medical report in this image (${fileName}). Read any printed values carefully and say so if something is illegible.
+
+${instructions}`,
+        },
+        { type: "image", mimeType: report.mimeType, data: report.base64 },
+      ];
+    } else {
+      llm = getLLM("report");
+
+      const file_content = (storedText ?? extractedText ?? "").slice(
+        0,
+        MAX_PROMPT_CHARS,
+      );
+
+      userContent = `Please analyze the following pet medical report.
+
+${file_content}
+
+${instructions}`;
+    }
+
+    // Resolved up front, the Clerk session isn't available once streaming
+    const settings = reportId
+      ? await convex.query(api.settings.getMySettings, {})
+      : null;
+    const user = settings?.emailOnAnalysisReady ? await currentUser() : null;
+    const notifyEmail = user?.primaryEmailAddress?.emailAddress;
+    const notify = async (analysis: string, clientGone: boolean) => {
+      if (!reportId || !notifyEmail) return;
+
+      // The browser would have saved it, so do it here instead
+      if (clientGone) {
+        await new ConvexHttpClient(env.NEXT_PUBLIC_CONVEX_URL).mutation(
+          api.uploader.completeAnalysis,
+          { serverSecret: env.CONVEX_SERVER_SECRET, reportId, analysis },
+        );
+      }
+
+      const html = await render(
+        AnalysisReadyEmailTemplate({
+          firstName: user?.firstName ?? "there",
+          fileName,
+          reportUrl: new URL(
+            `/chat/reports/${reportId}`,
+            env.NEXT_PUBLIC_APP_URL,
+          ).toString(),
+        }),
+      );
+      await sendEmail({
+        kind: "analysis_ready",
+        userId: session.userId,
+        to: notifyEmail,
+        subject: `Your analysis of ${fileName} is ready — PashuCare`,
+        html,
+      });
+    };
+
+    const abortController = new AbortController();
+    const startedAt = Date.now();
+    let clientGone = false;
+
+    const stream = llm.provider.streamText({
+      model: llm.model,
+      signal: abortController.signal,
+      messages: [
+        {
+          role: "system",
+          content: reportSystemPrompt,
+        },
+        {
+          role: "user",
+          content: userContent,
         },
       ],
       temperature: 1, // Slightly lower for more consistent medical analysis
-      max_tokens: 4096,
-      stream: true,
+      maxTokens: 4096,
+      onUsage: addUsage,
     });
 
     const encoder = new TextEncoder();
+    let output: ReadableStreamDefaultController<Uint8Array> | undefined;
 
-    const readableStream = new ReadableStream({
-      async start(controller) {
-        try {
-          for await (const chunk of stream) {
-            const content = chunk.choices?.[0]?.delta?.content || "";
-            if (content) {
-              controller.enqueue(encoder.encode(content));
-            }
-          }
-          controller.close();
-        } catch (error) {
-          console.error("Stream processing error:", error);
-          controller.error(error);
-        }
+    const readableStream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        output = controller;
       },
       cancel() {
-        console.log("Client disconnected from stream");
+        clientGone = true;
+        // Opted in to email, finish the analysis for them
+        if (!notifyEmail) abortController.abort();
       },
     });
 
+    // Not driven by the response stream, so it keeps going once the browser
+    // disconnects. after() keeps the function alive until the analysis is
+    // saved and the email sent, like the chat route.
+    const generation = (async () => {
+      let analysis = "";
+      try {
+        for await (const content of stream) {
+          analysis += content;
+          if (!clientGone) output?.enqueue(encoder.encode(content));
+        }
+        if (!clientGone) output?.close();
+      } catch (error) {
+        console.error("Stream processing error:", error);
+        if (!clientGone) output?.error(error);
+        return;
+      } finally {
+        await recordUsage();
+      }
+
+      if (clientGone || Date.now() - startedAt > LONG_ANALYSIS_MS) {
+        await notify(analysis, clientGone).catch((error) =>
+          console.error("Analysis ready email error:", error),
+        );
+      }
+    })();
+    after(generation);
+
     return new Response(readableStream, {
       headers: {
         "Content-Type": "text/plain; charset=utf-8",
         "Cache-Control": "no-cache, no-transform",
         "X-Content-Type-Options": "nosniff",
+        // Lets the client save the analysis on the report created above
+        ...(reportId && { "X-Report-Id": reportId }),
       },
     });
   } catch (error) {
+    await discardPending();
+
+    if (error instanceof UnsupportedReportError) {
+      return NextResponse.json(
+        { success: false, message: error.message },
+        { status: 415 },
+      );
+    }
+
     console.error("Analysis API error:", error);
     return NextResponse.json(
       {
@@ -0,0 +1,160 @@
+import { NextRequest, NextResponse } from "next/server";
+import * as z from "zod";
+
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+import { getAuthedConvexClient } from "@/lib/convex-server";
+import { getLLM, TokenUsage } from "@/lib/llm";
+import { enforceRateLimit } from "@/lib/rate-limit";
+import { limitReachedResponse } from "@/lib/usage-limit";
+import { isValidConvexId } from "@/lib/utils";
+import { compareSystemPrompt } from "@/app/prompts/report-prompt";
+import { env } from "@/app/env";
+
+const compareSchema = z.object({
+  reportIds: z
+    .array(z.string().refine(isValidConvexId, "Invalid report id"))
+    .length(2),
+});
+
+function formatValue(entry?: { value: number; flag?: string }) {
+  if (!entry) return "—";
+  return entry.flag && entry.flag !== "normal"
+    ? `${entry.value} (${entry.flag})`
+    : `${entry.value}`;
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getAuthedConvexClient();
+    if (!session) {
+      return NextResponse.json(
+        { success: false, message: "Unauthorized" },
+        { status: 401 },
+      );
+    }
+
+    const limited = await enforceRateLimit("compare", session.userId);
+    if (limited) return limited;
+
+    const quota = await session.client.query(api.usage.getMyUsage, {
+      now: Date.now(),
+    });
+    if (quota?.limitReached) {
+      return limitReachedResponse();
+    }
+
+    const parsed = compareSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Invalid payload",
+          errors: parsed.error.flatten().fieldErrors,
+        },
+        { status: 400 },
+      );
+    }
+
+    const comparison = await session.client.query(api.labs.compareReports, {
+      reportIds: parsed.data.reportIds as Id<"reports">[],
+    });
+    if (!comparison) {
+      return NextResponse.json(
+        { success: false, message: "Report not found" },
+        { status: 404 },
+      );
+    }
+    if (comparison.rows.length === 0) {
+      return NextResponse.json(
+        { success: false, message: "These reports have no lab values yet" },
+        { status: 422 },
+      );
+    }
+
+    const date = (ts: number) => new Date(ts).toISOString().slice(0, 10);
+    const table = [
+      `| Analyte | ${date(comparison.before.createdAt)} | ${date(comparison.after.createdAt)} | Unit | Change |`,
+      "|---|---|---|---|---|",
+      ...comparison.rows.map(
+        (row) =>
+          `| ${row.analyte} | ${formatValue(row.before)} | ${formatValue(row.after)} | ${row.unit} | ${
+            row.changePercent === undefined
+              ? "—"
+              : `${row.changePercent > 0 ? "+" : ""}${row.changePercent.toFixed(0)}%`
+          } |`,
+      ),
+    ].join("\n");
+
+    const { provider, model } = getLLM("report");
+    const abortController = new AbortController();
+    let usage: TokenUsage | undefined;
+
+    const stream = provider.streamText({
+      model,
+      signal: abortController.signal,
+      messages: [
+        { role: "system", content: compareSystemPrompt },
+        {
+          role: "user",
+          content: `Earlier report: ${comparison.before.fileName}
+Later report: ${comparison.after.fileName}
+
+${table}`,
+        },
+      ],
+      temperature: 1,
+      maxTokens: 2048,
+      onUsage: (reported) => {
+        usage = reported;
+      },
+    });
+
+    const encoder = new TextEncoder();
+
+    const readableStream = new ReadableStream({
+      async start(controller) {
+        try {
+          for await (const content of stream) {
+            controller.enqueue(encoder.encode(content));
+          }
+          controller.close();
+        } catch (error) {
+          console.error("Stream processing error:", error);
+          controller.error(error);
+        }
+
+        if (usage) {
+          await session.client
+            .mutation(api.usage.recordServerTokenUsage, {
+              serverSecret: env.CONVEX_SERVER_SECRET,
+              userId: session.userId,
+              usage,
+            })
+            .catch((error) => console.error("Token usage error:", error));
+        }
+      },
+      cancel() {
+        abortController.abort();
+      },
+    });
+
+    return new Response(readableStream, {
+      headers: {
+        "Content-Type": "text/plain; charset=utf-8",
+        "Cache-Control": "no-cache, no-transform",
+        "X-Content-Type-Options": "nosniff",
+      },
+    });
+  } catch (error) {
+    console.error("Compare API error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Failed to compare reports",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -14,9 +14,22 @@ import {
   useMemo,
 } from "react";
 import { cn, isValidConvexId } from "@/lib/utils";
-import { useMutation, usePaginatedQuery } from "convex/react";
+import { useMutation, usePaginatedQuery, useQuery } from "convex/react";
 import { api } from "@/convex/_generated/api";
 import MessageList, { Message } from "./message-list";
+import AttachedReports from "./attached-reports";
+import {
+  AttachButton,
+  AttachmentTray,
+  dropHandlers,
+} from "./composer-attachments";
+import { useImageAttachments } from "@/hooks/use-image-attachments";
+import { useUsage } from "@/hooks/use-usage";
+import { useSearchParams } from "next/navigation";
+import UsageLimitNotice from "./usage-limit-notice";
+
+// Longer rate limit waits are shown as an error instead
+const MAX_RETRY_AFTER_SECONDS = 30;
 
 interface ActiveChatInputProps {
   id: Id<"chats">;
@@ -35,19 +48,38 @@ export default function ActiveChatInput({
   autoTrigger = false,
 }: ActiveChatInputProps) {
   const [inputValue, setInputValue] = useState("");
-  const [isStreaming, setIsStreaming] = useState(false);
-  const [streamingContent, setStreamingContent] = useState("");
+  const [isSending, setIsSending] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [pendingMessageId, setPendingMessageId] =
-    useState<Id<"messages"> | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const {
+    attachments,
+    ready: readyAttachments,
+    isUploading,
+    addFiles,
+    remove: removeAttachment,
+    clear: clearAttachments,
+  } = useImageAttachments();
+
+  const { limitReached } = useUsage();
 
-  const abortControllerRef = useRef<AbortController | null>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const hasAutoTriggered = useRef(false);
 
+  // Set by chat search to jump to the matching message
+  const searchParams = useSearchParams();
+  const highlightMessageId = searchParams.get("m") as Id<"messages"> | null;
+
   // Convex mutations
   const createMessage = useMutation(api.chats.createMessage);
-  const updateMessage = useMutation(api.chats.updateMessage);
+  const stopMessage = useMutation(api.chats.stopMessage);
+  const dismissEmergency = useMutation(api.chats.dismissEmergency);
+  const branchFrom = useMutation(api.chats.branchFrom);
+  const switchBranch = useMutation(api.chats.switchBranch);
+
+  const chat = useQuery(
+    api.chats.getChatById,
+    isValidConvexId(id) ? { chatId: id } : "skip",
+  );
 
   // Paginated Query - only run if ID is valid
   const {
@@ -65,26 +97,35 @@ export default function ActiveChatInput({
     return (paginatedMessages || []) as Message[];
   }, [paginatedMessages]);
 
+  // The server streams the reply into Convex, so any tab sees it live
+  const activeReply = messages.find(
+    (m) =>
+      m.role === "assistant" &&
+      (m.status === "pending" || m.status === "streaming"),
+  );
+  const isStreaming = isSending || !!activeReply;
+
   const handleStop = useCallback(() => {
-    abortControllerRef.current?.abort();
-    setIsStreaming(false);
-
-    if (pendingMessageId && streamingContent) {
-      updateMessage({
-        messageId: pendingMessageId,
-        content: streamingContent,
-        status: "sent",
-      });
+    // Finishing the row tells the server to abort generation
+    if (activeReply?._id) {
+      stopMessage({ messageId: activeReply._id });
     }
-
-    setPendingMessageId(null);
-    setStreamingContent("");
     textareaRef.current?.focus();
-  }, [pendingMessageId, streamingContent, updateMessage]);
+  }, [activeReply, stopMessage]);
 
   const sendMessage = useCallback(
-    async (content: string, skipUserMessage = false) => {
-      if (!content.trim()) return;
+    async (
+      content: string,
+      skipUserMessage = false,
+      attachments: Array<{
+        storageId: Id<"_storage">;
+        mimeType: string;
+        name?: string;
+      }> = [],
+      branchOf?: Id<"messages">,
+    ) => {
+      // Auto-trigger may resend a photo-only message with empty text
+      if (!content.trim() && !attachments.length && !skipUserMessage) return;
       if (!isValidConvexId(id)) {
         console.error("Invalid chatId provided to sendMessage:", id);
         setError("Invalid chat session. Please start a new chat.");
@@ -92,61 +133,58 @@ export default function ActiveChatInput({
       }
 
       setError(null);
-      setIsStreaming(true);
-      setStreamingContent("");
-
-      let assistantMessageId: Id<"messages"> | null = null;
-      let accumulatedContent = "";
+      setIsSending(true);
 
       try {
         // 1. Save user message to Convex (unless skipping for auto-trigger)
         if (!skipUserMessage) {
           await createMessage({
             chatId: id,
-            role: "user",
             content: content.trim(),
+            attachments: attachments.length ? attachments : undefined,
+            branchOf,
           });
         }
 
-        // 2. Create pending assistant message
-        assistantMessageId = await createMessage({
-          chatId: id,
-          role: "assistant",
-          content: "",
-        });
-        setPendingMessageId(assistantMessageId);
-
-        // 3. Update status to streaming
-        await updateMessage({
-          messageId: assistantMessageId,
-          status: "streaming",
-        });
-
-        // 4. Start API stream
-        abortControllerRef.current = new AbortController();
-
-        // Used for the chat context in API request.
-        // We pass the currently loaded messages + new user message.
-        // Reverse them because `messages` from paginatedQuery is newest-first,
-        // but the API/LLM likely expects oldest-first (history).
-        const historyForApi = [...messages].reverse().map((m) => ({
-          role: m.role,
-          content: m.content,
-        }));
-
-        const response = await fetch(`/api/chat/${id}`, {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            messages: [
-              ...historyForApi,
-              { role: "user", content: content.trim() },
-            ],
-          }),
-          signal: abortControllerRef.current.signal,
-        });
-
-        console.log("API Response status:", response.status);
+        // 2. Ask the server to generate. It creates the assistant message and
+        // assembles history from Convex, only the new turn is sent.
+        const requestReply = () =>
+          fetch(`/api/chat/${id}`, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            // A regenerated reply becomes a new version of the old one
+            body: JSON.stringify({
+              content: content.trim(),
+              branchOf: skipUserMessage ? branchOf : undefined,
+            }),
+          });
+
+        let response = await requestReply();
+        let retried = false;
+
+        while (response.status === 429) {
+          const json = await response.json().catch(() => null);
+          // Over the daily limit, the notice above the composer explains it
+          if (json?.code === "LIMIT_REACHED") return;
+
+          // The user turn is already saved, so wait out a short rate limit
+          // once instead of leaving it unanswered
+          const retryAfter = Number(response.headers.get("Retry-After"));
+          if (retried || !(retryAfter <= MAX_RETRY_AFTER_SECONDS)) {
+            throw new Error(
+              json?.message ?? "Too many requests, please wait a moment.",
+            );
+          }
+          retried = true;
+          setError(
+            `You're sending messages quickly, retrying in ${retryAfter} seconds...`,
+          );
+          await new Promise((resolve) =>
+            setTimeout(resolve, retryAfter * 1000),
+          );
+          setError(null);
+          response = await requestReply();
+        }
 
         if (!response.ok) {
           const errorText = await response.text();
@@ -155,68 +193,68 @@ export default function ActiveChatInput({
             `HTTP error! status: ${response.status}, message: ${errorText}`,
           );
         }
-
-        if (!response.body) {
-          throw new Error("No response body");
-        }
-
-        // 5. Stream chunks
-        const reader = response.body.getReader();
-        const decoder = new TextDecoder("utf-8");
-
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-
-          const chunk = decoder.decode(value, { stream: true });
-          accumulatedContent += chunk;
-          setStreamingContent(accumulatedContent);
-
-          // Real-time update to Convex
-          if (assistantMessageId) {
-            await updateMessage({
-              messageId: assistantMessageId,
-              content: accumulatedContent,
-              append: false,
-            });
-          }
-        }
-
-        // 6. Mark as complete
-        if (assistantMessageId) {
-          await updateMessage({
-            messageId: assistantMessageId,
-            content: accumulatedContent,
-            status: "sent",
-          });
-        }
-
-        setStreamingContent("");
-        setPendingMessageId(null);
       } catch (err) {
-        if (err instanceof DOMException && err.name === "AbortError") {
-          return;
-        }
-
         const errorMessage =
           err instanceof Error ? err.message : "Unknown error";
         setError(errorMessage);
-
-        if (assistantMessageId) {
-          await updateMessage({
-            messageId: assistantMessageId,
-            status: "error",
-            content: accumulatedContent || "Failed to generate response",
-          });
-        }
-
         console.error("Chat error:", err);
       } finally {
-        setIsStreaming(false);
+        setIsSending(false);
         textareaRef.current?.focus();
       }
     },
-    [id, messages, createMessage, updateMessage],
+    [id, createMessage],
+  );
+
+  // Hides the old turn and sends the same question again as a new version
+  const handleRegenerate = useCallback(
+    async (message: Message) => {
+      if (!message._id || isStreaming) return;
+      // Newest first, so the question is the next user message in the list
+      const index = messages.findIndex((m) => m._id === message._id);
+      const question = messages.slice(index + 1).find((m) => m.role === "user");
+
+      try {
+        const rootId = await branchFrom({ messageId: message._id });
+        sendMessage(question?.content ?? "", true, [], rootId);
+      } catch (err) {
+        console.error("Regenerate error:", err);
+        setError("Failed to regenerate the response");
+      }
+    },
+    [messages, isStreaming, branchFrom, sendMessage],
+  );
+
+  // Edits branch the conversation, the original turn stays reachable
+  const handleEdit = useCallback(
+    async (message: Message, content: string) => {
+      if (!message._id || isStreaming) return;
+      const attachments = (message.attachments ?? []).flatMap((a) =>
+        a.storageId && a.mimeType
+          ? [{ storageId: a.storageId, mimeType: a.mimeType, name: a.name }]
+          : [],
+      );
+
+      try {
+        const rootId = await branchFrom({ messageId: message._id });
+        sendMessage(content, false, attachments, rootId);
+      } catch (err) {
+        console.error("Edit error:", err);
+        setError("Failed to edit the message");
+      }
+    },
+    [isStreaming, branchFrom, sendMessage],
+  );
+
+  const handleSwitchVersion = useCallback(
+    (messageId: Id<"messages">) => {
+      if (isStreaming) return;
+      switchBranch({ messageId }).catch((err) => {
+        console.error("Switch branch error:", err);
+        setError("Failed to switch versions");
+      });
+    },
+    [isStreaming, switchBranch],
   );
 
   // Auto-trigger AI response
@@ -236,29 +274,37 @@ export default function ActiveChatInput({
     }
   }, [autoTrigger, messages, isStreaming, sendMessage]);
 
+  const canSend =
+    !isStreaming &&
+    !isUploading &&
+    !limitReached &&
+    (!!inputValue.trim() || readyAttachments.length > 0);
+
+  const submit = useCallback(() => {
+    if (!canSend) return;
+
+    const message = inputValue;
+    setInputValue("");
+    clearAttachments();
+    sendMessage(message, false, readyAttachments);
+  }, [canSend, inputValue, readyAttachments, clearAttachments, sendMessage]);
+
   const handleSubmit = useCallback(
     (e: FormEvent<HTMLFormElement>) => {
       e.preventDefault();
-      if (isStreaming || !inputValue.trim()) return;
-
-      const message = inputValue;
-      setInputValue("");
-      sendMessage(message, false);
+      submit();
     },
-    [inputValue, isStreaming, sendMessage],
+    [submit],
   );
 
   const handleKeyDown = useCallback(
     (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
       if (e.key === "Enter" && !e.shiftKey) {
         e.preventDefault();
-        if (!isStreaming && inputValue.trim()) {
-          sendMessage(inputValue, false);
-          setInputValue("");
-        }
+        submit();
       }
     },
-    [inputValue, isStreaming, sendMessage],
+    [submit],
   );
 
   const adjustTextareaHeight = useCallback(() => {
@@ -275,67 +321,103 @@ export default function ActiveChatInput({
 
   return (
     <div className="flex h-full flex-col bg-background">
+      {isValidConvexId(id) && <AttachedReports chatId={id} />}
+
       {/* Messages Area - Delegated to MessageList */}
       <MessageList
         messages={messages}
         isLoadingMore={paginationStatus === "LoadingMore"}
+        canLoadMore={paginationStatus === "CanLoadMore"}
+        highlightMessageId={highlightMessageId}
         loadMore={() => loadMore(20)}
-        streamingContent={streamingContent}
         isStreaming={isStreaming}
         error={error}
         onDismissError={() => setError(null)}
+        emergency={chat?.emergency}
+        onDismissEmergency={() => dismissEmergency({ chatId: id })}
+        onRegenerate={handleRegenerate}
+        onEdit={handleEdit}
+        onSwitchVersion={handleSwitchVersion}
       />
 
       {/* Input Area */}
       <div className="border-t bg-background/95 backdrop-blur-sm p-4">
         <form
           onSubmit={handleSubmit}
-          className="mx-auto flex max-w-3xl items-end gap-2"
+          {...dropHandlers(addFiles, setIsDragging)}
+          className={cn(
+            "mx-auto max-w-3xl space-y-2 rounded-xl",
+            isDragging && "outline-2 outline-dashed outline-primary",
+          )}
         >
-          <div className="relative flex-1">
-            <Textarea
-              ref={textareaRef}
-              value={inputValue}
-              onChange={(e) => setInputValue(e.target.value)}
-              onKeyDown={handleKeyDown}
-              placeholder={
-                isStreaming ? "AI is thinking..." : "Type a message..."
-              }
+          {limitReached && <UsageLimitNotice />}
+
+          <AttachmentTray
+            attachments={attachments}
+            onRemove={removeAttachment}
+          />
+
+          <div className="flex items-end gap-2">
+            <AttachButton
+              onFiles={addFiles}
               disabled={isStreaming}
-              rows={1}
-              className={cn(
-                "min-h-13 max-h-50 resize-none",
-                "rounded-xl border bg-background px-4 py-3.5 pr-12",
-                "focus-visible:ring-2 focus-visible:ring-primary focus-visible:ring-offset-2",
-                "disabled:cursor-not-allowed disabled:opacity-50",
-                "transition-all duration-200",
-              )}
+              className="h-13 w-13 rounded-xl"
             />
-            <div className="absolute right-3 bottom-3 text-[10px] text-muted-foreground pointer-events-none tabular-nums">
-              {inputValue.length > 0 && `${inputValue.length}`}
+
+            <div className="relative flex-1">
+              <Textarea
+                ref={textareaRef}
+                value={inputValue}
+                onChange={(e) => setInputValue(e.target.value)}
+                onKeyDown={handleKeyDown}
+                onPaste={(e) => {
+                  if (e.clipboardData.files.length) {
+                    addFiles(e.clipboardData.files);
+                  }
+                }}
+                placeholder={
+                  isStreaming
+                    ? "AI is thinking..."
+                    : limitReached
+                      ? "Daily limit reached"
+                      : "Type a message..."
+                }
+                disabled={isStreaming || limitReached}
+                rows={1}
+                className={cn(
+                  "min-h-13 max-h-50 resize-none",
+                  "rounded-xl border bg-background px-4 py-3.5 pr-12",
+                  "focus-visible:ring-2 focus-visible:ring-primary focus-visible:ring-offset-2",
+                  "disabled:cursor-not-allowed disabled:opacity-50",
+                  "transition-all duration-200",
+                )}
+              />
+              <div className="absolute right-3 bottom-3 text-[10px] text-muted-foreground pointer-events-none tabular-nums">
+                {inputValue.length > 0 && `${inputValue.length}`}
+              </div>
             </div>
-          </div>
 
-          {isStreaming ? (
-            <Button
-              type="button"
-              variant="destructive"
-              size="icon"
-              onClick={handleStop}
-              className="h-13 w-13 shrink-0 rounded-xl"
-            >
-              <StopCircleIcon className="h-5 w-5" />
-            </Button>
-          ) : (
-            <Button
-              type="submit"
-              size="icon"
-              disabled={!inputValue.trim()}
-              className="h-13 w-13 shrink-0 rounded-xl bg-primary hover:bg-primary/90"
-            >
-              <SendIcon className="h-5 w-5" />
-            </Button>
-          )}
+            {isStreaming ? (
+              <Button
+                type="button"
+                variant="destructive"
+                size="icon"
+                onClick={handleStop}
+                className="h-13 w-13 shrink-0 rounded-xl"
+              >
+                <StopCircleIcon className="h-5 w-5" />
+              </Button>
+            ) : (
+              <Button
+                type="submit"
+                size="icon"
+                disabled={!canSend}
+                className="h-13 w-13 shrink-0 rounded-xl bg-primary hover:bg-primary/90"
+              >
+                <SendIcon className="h-5 w-5" />
+              </Button>
+            )}
+          </div>
         </form>
 
         <p className="mt-2 text-center text-[11px] text-muted-foreground">
@@ -0,0 +1,318 @@
+"use client";
+
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Input } from "@/components/ui/input";
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+import { cn } from "@/lib/utils";
+import { useMutation, useQuery } from "convex/react";
+import {
+  ChevronDownIcon,
+  Loader2Icon,
+  PawPrintIcon,
+  PlusIcon,
+} from "lucide-react";
+import { FormEvent, useState } from "react";
+import { toast } from "sonner";
+
+const NONE = "none";
+
+type Sex = "male" | "female" | "unknown";
+
+interface AnimalPickerProps {
+  value?: Id<"animals">;
+  onChange: (animalId: Id<"animals"> | undefined) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+export default function AnimalPicker({
+  value,
+  onChange,
+  disabled,
+  className,
+}: AnimalPickerProps) {
+  const animals = useQuery(api.animals.getUserAnimals);
+  const [isCreating, setIsCreating] = useState(false);
+
+  const selected = animals?.find((a) => a._id === value);
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            disabled={disabled}
+            className={cn("h-8 gap-2 rounded-full px-3 text-xs", className)}
+          >
+            {selected ? (
+              <Avatar className="size-5">
+                <AvatarImage src={selected.photoUrl ?? undefined} />
+                <AvatarFallback className="text-[10px]">
+                  {selected.name.charAt(0)}
+                </AvatarFallback>
+              </Avatar>
+            ) : (
+              <PawPrintIcon className="h-3.5 w-3.5" />
+            )}
+            <span className="max-w-32 truncate">
+              {selected ? selected.name : "Select animal"}
+            </span>
+            <ChevronDownIcon className="h-3.5 w-3.5 opacity-70" />
+          </Button>
+        </DropdownMenuTrigger>
+
+        <DropdownMenuContent align="start" className="w-56">
+          <DropdownMenuLabel className="text-xs text-muted-foreground">
+            Who is this about?
+          </DropdownMenuLabel>
+
+          {animals === undefined ? (
+            <div className="flex justify-center py-2">
+              <Loader2Icon className="h-4 w-4 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <DropdownMenuRadioGroup
+              value={value ?? NONE}
+              onValueChange={(id) =>
+                onChange(id === NONE ? undefined : (id as Id<"animals">))
+              }
+            >
+              <DropdownMenuRadioItem value={NONE}>
+                No specific animal
+              </DropdownMenuRadioItem>
+              {animals.map((animal) => (
+                <DropdownMenuRadioItem key={animal._id} value={animal._id}>
+                  <span className="truncate">{animal.name}</span>
+                  <span className="ml-auto text-xs text-muted-foreground capitalize">
+                    {animal.species}
+                  </span>
+                </DropdownMenuRadioItem>
+              ))}
+            </DropdownMenuRadioGroup>
+          )}
+
+          <DropdownMenuSeparator />
+
+          <DropdownMenuItem onClick={() => setIsCreating(true)}>
+            <PlusIcon className="mr-2 h-4 w-4" />
+            Add animal
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <CreateAnimalDialog
+        open={isCreating}
+        onOpenChange={setIsCreating}
+        onCreated={onChange}
+      />
+    </>
+  );
+}
+
+function CreateAnimalDialog({
+  open,
+  onOpenChange,
+  onCreated,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCreated: (animalId: Id<"animals">) => void;
+}) {
+  const [name, setName] = useState("");
+  const [species, setSpecies] = useState("");
+  const [breed, setBreed] = useState("");
+  const [sex, setSex] = useState<Sex>("unknown");
+  const [dateOfBirth, setDateOfBirth] = useState("");
+  const [weightKg, setWeightKg] = useState("");
+  const [isNeutered, setIsNeutered] = useState(false);
+  const [photo, setPhoto] = useState<File | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const generateUploadUrl = useMutation(api.uploader.generateUploadUrl);
+  const registerUpload = useMutation(api.uploader.registerUpload);
+  const createAnimal = useMutation(api.animals.createAnimal);
+
+  const reset = () => {
+    setName("");
+    setSpecies("");
+    setBreed("");
+    setSex("unknown");
+    setDateOfBirth("");
+    setWeightKg("");
+    setIsNeutered(false);
+    setPhoto(null);
+  };
+
+  async function onSubmit(e: FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    if (!name.trim() || !species.trim()) return;
+
+    setIsSaving(true);
+    try {
+      let photoId: Id<"_storage"> | undefined;
+      if (photo) {
+        const postUrl = await generateUploadUrl();
+        const uploadRes = await fetch(postUrl, {
+          method: "POST",
+          headers: { "Content-Type": photo.type },
+          body: photo,
+        });
+        if (!uploadRes.ok) throw new Error("Photo upload failed");
+        const { storageId } = await uploadRes.json();
+        await registerUpload({ storageId });
+        photoId = storageId;
+      }
+
+      const animalId = await createAnimal({
+        name,
+        species,
+        breed: breed || undefined,
+        sex,
+        dateOfBirth: dateOfBirth ? new Date(dateOfBirth).getTime() : undefined,
+        weightKg: weightKg ? Number(weightKg) : undefined,
+        isNeutered,
+        photoId,
+      });
+
+      toast.success(`${name.trim()} added`);
+      onCreated(animalId);
+      reset();
+      onOpenChange(false);
+    } catch (error) {
+      toast.error("Failed to add animal");
+      console.error(error);
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={(o) => !isSaving && onOpenChange(o)}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Add animal</DialogTitle>
+          <DialogDescription>
+            Saved profiles are shared with PashuCare AI so you {"don't"} have to
+            repeat them.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={onSubmit} className="space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Name *"
+              required
+            />
+            <Input
+              value={species}
+              onChange={(e) => setSpecies(e.target.value)}
+              placeholder="Species * (dog, cat, cow...)"
+              required
+            />
+            <Input
+              value={breed}
+              onChange={(e) => setBreed(e.target.value)}
+              placeholder="Breed"
+            />
+            <Input
+              type="number"
+              min="0"
+              step="0.1"
+              value={weightKg}
+              onChange={(e) => setWeightKg(e.target.value)}
+              placeholder="Weight (kg)"
+            />
+          </div>
+
+          <div className="space-y-1">
+            <p className="text-xs text-muted-foreground">Date of birth</p>
+            <Input
+              type="date"
+              value={dateOfBirth}
+              onChange={(e) => setDateOfBirth(e.target.value)}
+            />
+          </div>
+
+          <div className="flex gap-2">
+            {(["male", "female", "unknown"] as const).map((option) => (
+              <Button
+                key={option}
+                type="button"
+                size="sm"
+                variant={sex === option ? "default" : "outline"}
+                className="flex-1 capitalize"
+                onClick={() => setSex(option)}
+              >
+                {option}
+              </Button>
+            ))}
+          </div>
+
+          <label className="flex items-center gap-2 text-sm">
+            <Checkbox
+              checked={isNeutered}
+              onCheckedChange={(checked) => setIsNeutered(checked === true)}
+            />
+            Neutered / spayed
+          </label>
+
+          <div className="space-y-1">
+            <p className="text-xs text-muted-foreground">Photo</p>
+            <Input
+              type="file"
+              accept="image/*"
+              onChange={(e) => setPhoto(e.target.files?.[0] ?? null)}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={isSaving}
+            >
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={isSaving || !name.trim() || !species.trim()}
+            >
+              {isSaving ? (
+                <Loader2Icon className="h-4 w-4 animate-spin" />
+              ) : (
+                "Save"
+              )}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,58 @@
+"use client";
+
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+import { useMutation, useQuery } from "convex/react";
+import { FileTextIcon, XIcon } from "lucide-react";
+import Link from "next/link";
+import { toast } from "sonner";
+
+/** Chips for the reports grounding this chat, labelled like the citations */
+export default function AttachedReports({ chatId }: { chatId: Id<"chats"> }) {
+  const reports = useQuery(api.uploader.getChatReports, { chatId });
+  const detachReport = useMutation(api.uploader.detachReport);
+
+  if (!reports || reports.length === 0) return null;
+
+  const handleDetach = async (reportId: Id<"reports">) => {
+    try {
+      await detachReport({ reportId });
+    } catch (error) {
+      toast.error("Failed to remove report");
+      console.error(error);
+    }
+  };
+
+  return (
+    <div className="border-b bg-muted/30 px-4 py-2">
+      <div className="mx-auto flex max-w-3xl flex-wrap items-center gap-2">
+        <span className="text-[11px] text-muted-foreground">Attached:</span>
+        {reports.map((report, i) => (
+          <span
+            key={report._id}
+            className="inline-flex max-w-64 items-center gap-1.5 rounded-full border bg-background py-1 pl-2.5 pr-1 text-xs"
+          >
+            <span className="font-mono text-[10px] text-muted-foreground">
+              R{i + 1}
+            </span>
+            <FileTextIcon className="h-3 w-3 shrink-0 text-primary" />
+            <Link
+              href={`/chat/reports/${report._id}`}
+              className="truncate hover:underline"
+            >
+              {report.fileName}
+            </Link>
+            <button
+              type="button"
+              onClick={() => handleDetach(report._id)}
+              className="rounded-full p-0.5 text-muted-foreground hover:bg-destructive/10 hover:text-destructive"
+              aria-label={`Remove ${report.fileName} from this chat`}
+            >
+              <XIcon className="h-3 w-3" />
+            </button>
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
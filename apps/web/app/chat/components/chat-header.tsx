@@ -7,12 +7,36 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
+import { Button } from "@/components/ui/button";
 import { SidebarTrigger } from "@/components/ui/sidebar";
+import { Id } from "@/convex/_generated/dataModel";
 import { useIsMobile } from "@/hooks/use-mobile";
-import { ChevronDownIcon, SparklesIcon } from "lucide-react";
+import { useUsage } from "@/hooks/use-usage";
+import { cn, isValidConvexId } from "@/lib/utils";
+import {
+  ChevronDownIcon,
+  Share2Icon,
+  SparklesIcon,
+  StethoscopeIcon,
+} from "lucide-react";
+import { useParams, usePathname } from "next/navigation";
+import { useState } from "react";
+import ShareDialog from "./share-dialog";
+import VetSummaryDialog from "./vet-summary-dialog";
 
 export default function ChatHeader() {
   const isMobile = useIsMobile();
+  const params = useParams();
+  const pathname = usePathname();
+  // Report pages have an id param too
+  const chatId =
+    pathname === `/chat/${params?.id}` ? (params.id as string) : undefined;
+  const [isSummaryOpen, setIsSummaryOpen] = useState(false);
+  const [isShareOpen, setIsShareOpen] = useState(false);
+  const { usage, limitReached } = useUsage();
+  const usedPercent = usage
+    ? Math.min(100, (usage.usedTokens / usage.limit) * 100)
+    : 0;
   return (
     <section className="flex items-center gap-2 md:gap-3">
       {isMobile && <SidebarTrigger />}
@@ -21,6 +45,11 @@ export default function ChatHeader() {
         <DropdownMenuTrigger asChild>
           <button className="flex items-center gap-2 rounded-full px-3 py-1.5 text-sm font-medium text-primary hover:bg-primary/10 transition">
             <span>Pashucare</span>
+            {limitReached && (
+              <span className="rounded-full bg-destructive/10 px-2 py-0.5 text-xs text-destructive">
+                Limit reached
+              </span>
+            )}
             <ChevronDownIcon className="h-4 w-4 opacity-70" />
           </button>
         </DropdownMenuTrigger>
@@ -42,6 +71,32 @@ export default function ChatHeader() {
             </span>
           </DropdownMenuItem>
 
+          {usage && (
+            <div className="space-y-1.5 px-3 py-2">
+              <div className="flex justify-between text-xs text-muted-foreground">
+                <span>Today&apos;s usage</span>
+                <span className="tabular-nums">
+                  {usage.usedTokens.toLocaleString()} /{" "}
+                  {usage.limit.toLocaleString()} tokens
+                </span>
+              </div>
+              <div className="h-1.5 overflow-hidden rounded-full bg-muted">
+                <div
+                  className={cn(
+                    "h-full rounded-full bg-primary",
+                    limitReached && "bg-destructive",
+                  )}
+                  style={{ width: `${usedPercent}%` }}
+                />
+              </div>
+              {limitReached && (
+                <p className="text-xs text-destructive">
+                  Daily limit reached, it resets at midnight your time
+                </p>
+              )}
+            </div>
+          )}
+
           <DropdownMenuSeparator />
 
           {/* Upgrade */}
@@ -60,6 +115,39 @@ export default function ChatHeader() {
           </DropdownMenuItem>
         </DropdownMenuContent>
       </DropdownMenu>
+
+      {chatId && isValidConvexId(chatId) && (
+        <>
+          <Button
+            variant="outline"
+            size="sm"
+            className="ml-auto rounded-full"
+            onClick={() => setIsSummaryOpen(true)}
+          >
+            <StethoscopeIcon className="h-4 w-4" />
+            <span className="hidden sm:inline">Generate vet summary</span>
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="rounded-full"
+            onClick={() => setIsShareOpen(true)}
+          >
+            <Share2Icon className="h-4 w-4" />
+            <span className="hidden sm:inline">Share</span>
+          </Button>
+          <VetSummaryDialog
+            chatId={chatId as Id<"chats">}
+            open={isSummaryOpen}
+            onOpenChange={setIsSummaryOpen}
+          />
+          <ShareDialog
+            target={{ chatId: chatId as Id<"chats"> }}
+            open={isShareOpen}
+            onOpenChange={setIsShareOpen}
+          />
+        </>
+      )}
     </section>
   );
 }
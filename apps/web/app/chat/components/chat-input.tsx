@@ -2,29 +2,60 @@
 
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
+import { Id } from "@/convex/_generated/dataModel";
 import { SendIcon } from "lucide-react";
 import { useRouter } from "next/navigation";
 import { FormEvent, useState } from "react";
 import { toast } from "sonner";
+import AnimalPicker from "./animal-picker";
+import {
+  AttachButton,
+  AttachmentTray,
+  dropHandlers,
+} from "./composer-attachments";
+import { useImageAttachments } from "@/hooks/use-image-attachments";
+import { useUsage } from "@/hooks/use-usage";
+import { cn } from "@/lib/utils";
+import UsageLimitNotice from "./usage-limit-notice";
 
 export default function ChatInput() {
   const router = useRouter();
   const [value, setValue] = useState("");
+  const [animalId, setAnimalId] = useState<Id<"animals">>();
+  const [isDragging, setIsDragging] = useState(false);
+  const { attachments, ready, isUploading, addFiles, remove, clear } =
+    useImageAttachments();
+
+  const { limitReached } = useUsage();
+
+  const canSend =
+    (!!value.trim() || ready.length > 0) && !isUploading && !limitReached;
 
   async function onSubmit(e: FormEvent<HTMLFormElement>) {
     e.preventDefault();
-    if (!value.trim()) return;
+    if (!canSend) return;
     try {
       const res = await fetch("/api/chat", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify({ text: value }),
+        body: JSON.stringify({ text: value, animalId, attachments: ready }),
       });
       const json = await res.json();
       console.log("API Response:", json);
 
+      // Rate limited, keep the draft so it can be sent again
+      if (res.status === 429) {
+        const retryAfter = res.headers.get("Retry-After");
+        toast.error(json?.message ?? "Too many requests", {
+          description: retryAfter
+            ? `Your message is kept, send it again in ${retryAfter} seconds.`
+            : undefined,
+        });
+        return;
+      }
+
       if (!json.success) {
         console.error("API Error:", json);
         toast.error(json?.error ?? json?.errors ?? json?.message ?? "Failed");
@@ -41,43 +72,62 @@ export default function ChatInput() {
         return;
       }
 
+      clear();
+      setValue("");
       router.replace(`/chat/${chatId}`);
     } catch (error) {
       console.error(error);
-    } finally {
-      setValue("");
     }
   }
 
   return (
     <section className="w-full bg-background">
+      <div className="mx-auto mb-2 flex max-w-3xl">
+        <AnimalPicker value={animalId} onChange={setAnimalId} />
+      </div>
+      {limitReached && <UsageLimitNotice className="mx-auto mb-2 max-w-3xl" />}
       <form
         onSubmit={onSubmit}
-        className="
-          mx-auto flex max-w-3xl items-end gap-2
-          rounded-xl border p-2
-          focus-within:ring-1 focus-within:ring-primary
-        "
+        {...dropHandlers(addFiles, setIsDragging)}
+        className={cn(
+          "mx-auto max-w-3xl space-y-2 rounded-xl border p-2",
+          "focus-within:ring-1 focus-within:ring-primary",
+          isDragging && "border-dashed border-primary bg-primary/5",
+        )}
       >
-        {/* Textarea */}
-        <Textarea
-          rows={1}
-          value={value}
-          onChange={(e) => setValue(e.currentTarget.value)}
-          placeholder="Ask anything"
-          className="min-h-10 resize-none border-0 p-2 leading-5 focus-visible:ring-0
+        <AttachmentTray attachments={attachments} onRemove={remove} />
+
+        <div className="flex items-end gap-2">
+          <AttachButton onFiles={addFiles} className="h-10 w-10" />
+
+          {/* Textarea */}
+          <Textarea
+            rows={1}
+            value={value}
+            onChange={(e) => setValue(e.currentTarget.value)}
+            onPaste={(e) => {
+              if (e.clipboardData.files.length) addFiles(e.clipboardData.files);
+            }}
+            placeholder={
+              limitReached
+                ? "Daily limit reached"
+                : "Ask anything, or drop a photo"
+            }
+            disabled={limitReached}
+            className="min-h-10 resize-none border-0 p-2 leading-5 focus-visible:ring-0
           "
-        />
+          />
 
-        {/* Send button */}
-        <Button
-          type="submit"
-          size="icon"
-          disabled={!value.trim()}
-          className="h-10 w-10 shrink-0 rounded-lg"
-        >
-          <SendIcon className="h-4 w-4" />
-        </Button>
+          {/* Send button */}
+          <Button
+            type="submit"
+            size="icon"
+            disabled={!canSend}
+            className="h-10 w-10 shrink-0 rounded-lg"
+          >
+            <SendIcon className="h-4 w-4" />
+          </Button>
+        </div>
       </form>
     </section>
   );
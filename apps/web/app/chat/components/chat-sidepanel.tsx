@@ -19,14 +19,22 @@ import {
 import SidePanelQuickActions from "./sp-quick-actions";
 import ChatsList from "./chats-list";
 
-import { ClipboardPlusIcon, LayoutDashboardIcon } from "lucide-react";
+import {
+  ClipboardPlusIcon,
+  LayoutDashboardIcon,
+  LifeBuoyIcon,
+  Trash2Icon,
+} from "lucide-react";
 import UserBtnClient from "./user-btn-client";
 import Link from "next/link";
 import { Suspense } from "react";
+import { useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api";
 
 export default function ChatSidePanel() {
   const { state } = useSidebar();
   const isCollapsed = state === "collapsed";
+  const isSupportStaff = useQuery(api.support.isSupportStaff);
   return (
     <Sidebar
       collapsible="icon"
@@ -77,6 +85,24 @@ export default function ChatSidePanel() {
                   </Link>
                 </SidebarMenuButton>
               </SidebarMenuItem>
+              <SidebarMenuItem>
+                <SidebarMenuButton asChild>
+                  <Link href="/chat/trash" prefetch>
+                    <Trash2Icon />
+                    Trash
+                  </Link>
+                </SidebarMenuButton>
+              </SidebarMenuItem>
+              {isSupportStaff && (
+                <SidebarMenuItem>
+                  <SidebarMenuButton asChild>
+                    <Link href="/chat/support" prefetch>
+                      <LifeBuoyIcon />
+                      Support
+                    </Link>
+                  </SidebarMenuButton>
+                </SidebarMenuItem>
+              )}
             </SidebarMenu>
           </SidebarGroupContent>
         </SidebarGroup>
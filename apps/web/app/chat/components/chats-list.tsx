@@ -29,6 +29,7 @@ import {
   Trash2Icon,
   Loader2Icon,
   MessageSquareIcon,
+  SirenIcon,
 } from "lucide-react";
 import Link from "next/link";
 import { toast } from "sonner";
@@ -63,6 +64,7 @@ export default function ChatsList() {
   } | null>(null);
   const [newName, setNewName] = useState("");
   const [isRenaming, setIsRenaming] = useState(false);
+  const [urgentOnly, setUrgentOnly] = useState(false);
   const observerRef = useRef<HTMLDivElement>(null);
 
   // Paginated Query for Chats
@@ -70,9 +72,11 @@ export default function ChatsList() {
     results: rawChats,
     status,
     loadMore,
-  } = usePaginatedQuery(api.chats.getUserChats, user?.id ? {} : "skip", {
-    initialNumItems: 20,
-  });
+  } = usePaginatedQuery(
+    api.chats.getUserChats,
+    user?.id ? { urgentOnly } : "skip",
+    { initialNumItems: 20 },
+  );
 
   const chats = (rawChats || []).filter((chat) => isValidConvexId(chat._id));
 
@@ -84,7 +88,7 @@ export default function ChatsList() {
 
     try {
       await deleteChat({ chatId: chatId as Id<"chats"> });
-      toast.success("Chat deleted");
+      toast.success("Chat moved to trash");
 
       // Redirect if we're on the deleted chat's page
       if (currentChatId === chatId) {
@@ -159,30 +163,63 @@ export default function ChatsList() {
     );
   }
 
+  const filterBar = (
+    <div className="flex gap-1 px-2 pb-2">
+      <Button
+        size="sm"
+        variant={urgentOnly ? "ghost" : "secondary"}
+        className="h-6 rounded-full px-2 text-xs"
+        onClick={() => setUrgentOnly(false)}
+      >
+        All
+      </Button>
+      <Button
+        size="sm"
+        variant={urgentOnly ? "secondary" : "ghost"}
+        className="h-6 gap-1 rounded-full px-2 text-xs"
+        onClick={() => setUrgentOnly(true)}
+      >
+        <SirenIcon className="h-3 w-3 text-red-500" />
+        Urgent
+      </Button>
+    </div>
+  );
+
   // Loading chats initial
   if (status === "LoadingFirstPage") {
     return (
-      <div className="flex items-center justify-center py-8">
-        <Loader2Icon className="h-5 w-5 animate-spin text-muted-foreground" />
-      </div>
+      <>
+        {filterBar}
+        <div className="flex items-center justify-center py-8">
+          <Loader2Icon className="h-5 w-5 animate-spin text-muted-foreground" />
+        </div>
+      </>
     );
   }
 
   // Empty state
   if (chats.length === 0) {
     return (
-      <div className="flex flex-col items-center justify-center py-8 px-4 text-center">
-        <MessageSquareIcon className="h-8 w-8 text-muted-foreground/50 mb-2" />
-        <p className="text-sm text-muted-foreground">No chats yet</p>
-        <p className="text-xs text-muted-foreground/70 mt-1">
-          Start a new conversation
-        </p>
-      </div>
+      <>
+        {filterBar}
+        <div className="flex flex-col items-center justify-center py-8 px-4 text-center">
+          <MessageSquareIcon className="h-8 w-8 text-muted-foreground/50 mb-2" />
+          <p className="text-sm text-muted-foreground">
+            {urgentOnly ? "No urgent chats" : "No chats yet"}
+          </p>
+          <p className="text-xs text-muted-foreground/70 mt-1">
+            {urgentOnly
+              ? "Chats triaged URGENT will show up here"
+              : "Start a new conversation"}
+          </p>
+        </div>
+      </>
     );
   }
 
   return (
     <>
+      {filterBar}
       <SidebarMenu className="px-2">
         {chats.map((chat) => {
           const isActive = currentChatId === chat._id;
@@ -197,6 +234,9 @@ export default function ChatsList() {
                 )}
               >
                 <Link href={`/chat/${chat._id}`} prefetch={false}>
+                  {chat.urgentAt && (
+                    <SirenIcon className="h-3.5 w-3.5 shrink-0 text-red-500" />
+                  )}
                   <span className="truncate">
                     {chat.name || "Untitled Chat"}
                   </span>
@@ -259,8 +299,8 @@ export default function ChatsList() {
           <AlertDialogHeader>
             <AlertDialogTitle>Delete Chat?</AlertDialogTitle>
             <AlertDialogDescription>
-              This will permanently delete this conversation. This action cannot
-              be undone.
+              This conversation will be moved to the trash. You can restore it
+              from there until it is permanently deleted.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
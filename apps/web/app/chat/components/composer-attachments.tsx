@@ -0,0 +1,122 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { PendingAttachment } from "@/hooks/use-image-attachments";
+import { cn } from "@/lib/utils";
+import {
+  AlertCircleIcon,
+  ImagePlusIcon,
+  Loader2Icon,
+  XIcon,
+} from "lucide-react";
+import { useRef } from "react";
+
+export function AttachButton({
+  onFiles,
+  disabled,
+  className,
+}: {
+  onFiles: (files: FileList) => void;
+  disabled?: boolean;
+  className?: string;
+}) {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <>
+      <input
+        ref={inputRef}
+        type="file"
+        accept="image/*"
+        multiple
+        className="hidden"
+        onChange={(e) => {
+          if (e.target.files) onFiles(e.target.files);
+          e.target.value = "";
+        }}
+      />
+      <Button
+        type="button"
+        variant="ghost"
+        size="icon"
+        disabled={disabled}
+        onClick={() => inputRef.current?.click()}
+        className={cn("shrink-0 text-muted-foreground", className)}
+        aria-label="Attach photos"
+      >
+        <ImagePlusIcon className="h-5 w-5" />
+      </Button>
+    </>
+  );
+}
+
+export function AttachmentTray({
+  attachments,
+  onRemove,
+}: {
+  attachments: PendingAttachment[];
+  onRemove: (id: string) => void;
+}) {
+  if (attachments.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {attachments.map((attachment) => (
+        <div
+          key={attachment.id}
+          className={cn(
+            "group relative h-16 w-16 overflow-hidden rounded-lg border",
+            attachment.status === "error" && "border-destructive",
+          )}
+        >
+          {/* eslint-disable-next-line @next/next/no-img-element */}
+          <img
+            src={attachment.previewUrl}
+            alt={attachment.name}
+            className={cn(
+              "h-full w-full object-cover",
+              attachment.status !== "ready" && "opacity-50",
+            )}
+          />
+          {attachment.status === "uploading" && (
+            <Loader2Icon className="absolute inset-0 m-auto h-5 w-5 animate-spin text-foreground" />
+          )}
+          {attachment.status === "error" && (
+            <AlertCircleIcon className="absolute inset-0 m-auto h-5 w-5 text-destructive" />
+          )}
+          <button
+            type="button"
+            onClick={() => onRemove(attachment.id)}
+            className="absolute right-0.5 top-0.5 rounded-full bg-background/80 p-0.5 text-muted-foreground hover:text-destructive"
+            aria-label={`Remove ${attachment.name}`}
+          >
+            <XIcon className="h-3 w-3" />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/** Drag-and-drop handlers for a composer container */
+export function dropHandlers(
+  onFiles: (files: FileList) => void,
+  setDragging: (dragging: boolean) => void,
+) {
+  return {
+    onDragOver: (e: React.DragEvent) => {
+      if (!e.dataTransfer.types.includes("Files")) return;
+      e.preventDefault();
+      setDragging(true);
+    },
+    onDragLeave: (e: React.DragEvent) => {
+      if (e.currentTarget.contains(e.relatedTarget as Node)) return;
+      setDragging(false);
+    },
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      setDragging(false);
+      if (e.dataTransfer.files.length) onFiles(e.dataTransfer.files);
+    },
+  };
+}
@@ -0,0 +1,82 @@
+"use client";
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Input } from "@/components/ui/input";
+import { api } from "@/convex/_generated/api";
+import { useMutation } from "convex/react";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import { toast } from "sonner";
+
+const CONFIRM_TEXT = "DELETE";
+
+export default function DeleteDataDialog({
+  open,
+  onOpenChange,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const router = useRouter();
+  const deleteAllMyData = useMutation(api.retention.deleteAllMyData);
+  const [confirmText, setConfirmText] = useState("");
+
+  const handleDelete = async () => {
+    try {
+      await deleteAllMyData();
+      toast.success("Your data is being deleted");
+      router.push("/chat");
+    } catch (error) {
+      toast.error("Failed to delete your data");
+      console.error(error);
+    } finally {
+      setConfirmText("");
+      onOpenChange(false);
+    }
+  };
+
+  return (
+    <AlertDialog
+      open={open}
+      onOpenChange={(next) => {
+        if (!next) setConfirmText("");
+        onOpenChange(next);
+      }}
+    >
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Delete all my data?</AlertDialogTitle>
+          <AlertDialogDescription>
+            Every chat, report, lab result, animal profile and uploaded file
+            will be permanently deleted, including chats in the trash. This
+            action cannot be undone.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <Input
+          value={confirmText}
+          onChange={(e) => setConfirmText(e.target.value)}
+          placeholder={`Type ${CONFIRM_TEXT} to confirm`}
+        />
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={handleDelete}
+            disabled={confirmText !== CONFIRM_TEXT}
+            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+          >
+            Delete everything
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,70 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { PhoneIcon, SirenIcon, XIcon } from "lucide-react";
+
+export interface Emergency {
+  ruleId: string;
+  title: string;
+  firstAid: string[];
+  poisonControl: boolean;
+  detectedAt: number;
+}
+
+interface EmergencyCardProps {
+  emergency: Emergency;
+  onDismiss?: () => void;
+}
+
+export default function EmergencyCard({
+  emergency,
+  onDismiss,
+}: EmergencyCardProps) {
+  return (
+    <div
+      role="alert"
+      className="rounded-lg border-2 border-red-500 bg-red-50 p-4 text-sm text-red-900 shadow-md dark:bg-red-950/80 dark:text-red-100"
+    >
+      <div className="flex items-start justify-between gap-2">
+        <p className="flex items-center gap-2 text-base font-bold">
+          <SirenIcon className="h-5 w-5 shrink-0" />
+          {emergency.title}: go to a vet now
+        </p>
+        {onDismiss && (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7 shrink-0 text-red-900 hover:bg-red-100 dark:text-red-100 dark:hover:bg-red-900"
+            onClick={onDismiss}
+            aria-label="Dismiss emergency guidance"
+          >
+            <XIcon className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+
+      <p className="mt-2">
+        This may be an emergency. Call your nearest veterinary clinic or 24-hour
+        emergency hospital and head there now. Don&apos;t wait for the AI reply.
+      </p>
+
+      <p className="mt-3 font-semibold">While you get help:</p>
+      <ol className="mt-1 list-decimal space-y-1 pl-5">
+        {emergency.firstAid.map((step, index) => (
+          <li key={index}>{step}</li>
+        ))}
+      </ol>
+
+      {emergency.poisonControl && (
+        <p className="mt-3 flex items-start gap-2 rounded-md bg-red-100 p-2 dark:bg-red-900/60">
+          <PhoneIcon className="mt-0.5 h-4 w-4 shrink-0" />
+          <span>
+            Call an animal poison control line or your vet with the product
+            name, amount and time of exposure. Have the packaging in hand and
+            follow their instructions before giving anything by mouth.
+          </span>
+        </p>
+      )}
+    </div>
+  );
+}
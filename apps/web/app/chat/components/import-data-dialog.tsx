@@ -0,0 +1,119 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { api } from "@/convex/_generated/api";
+import { useMutation } from "convex/react";
+import { Loader2Icon } from "lucide-react";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import { toast } from "sonner";
+
+// Matches the limit of /api/import
+const MAX_ARCHIVE_SIZE = 200 * 1024 * 1024;
+
+export default function ImportDataDialog({
+  open,
+  onOpenChange,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const router = useRouter();
+  const [file, setFile] = useState<File | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const generateUploadUrl = useMutation(api.uploader.generateUploadUrl);
+  const registerUpload = useMutation(api.uploader.registerUpload);
+
+  const handleImport = async () => {
+    if (!file) return;
+    if (file.size > MAX_ARCHIVE_SIZE) {
+      toast.error("Archive exceeds 200MB");
+      return;
+    }
+
+    setIsImporting(true);
+    try {
+      // Straight to storage, too large to pass through the app server
+      const postUrl = await generateUploadUrl();
+      const uploaded = await fetch(postUrl, {
+        method: "POST",
+        headers: { "Content-Type": file.type || "application/zip" },
+        body: file,
+      });
+      if (!uploaded.ok) throw new Error("Failed to upload archive");
+      const { storageId } = await uploaded.json();
+      await registerUpload({ storageId });
+
+      const response = await fetch("/api/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ storageId }),
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.message);
+
+      const { chats, reports, animals } = result.imported;
+      toast.success(
+        `Imported ${chats} chats, ${reports} reports and ${animals} animals`,
+      );
+      setFile(null);
+      onOpenChange(false);
+      router.push("/chat");
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to import data",
+      );
+      console.error(error);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => !isImporting && onOpenChange(next)}
+    >
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Import data</DialogTitle>
+          <DialogDescription>
+            Restore a PashuCare export (.zip). Imports only work on an account
+            that has no chats, reports or animals yet.
+          </DialogDescription>
+        </DialogHeader>
+        <Input
+          type="file"
+          accept=".zip,application/zip"
+          disabled={isImporting}
+          onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+        />
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={isImporting}
+          >
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={!file || isImporting}>
+            {isImporting ? (
+              <Loader2Icon className="h-4 w-4 animate-spin" />
+            ) : (
+              "Import"
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,102 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Id } from "@/convex/_generated/dataModel";
+import { cn } from "@/lib/utils";
+import {
+  ChevronLeftIcon,
+  ChevronRightIcon,
+  PencilIcon,
+  RefreshCwIcon,
+} from "lucide-react";
+
+interface MessageActionsProps {
+  messageId: Id<"messages">;
+  role: "user" | "assistant";
+  versions?: Id<"messages">[];
+  disabled?: boolean;
+  onRegenerate?: () => void;
+  onEdit?: () => void;
+  onSwitchVersion?: (messageId: Id<"messages">) => void;
+  className?: string;
+}
+
+/** Version switcher plus regenerate (assistant) or edit (user) */
+export default function MessageActions({
+  messageId,
+  role,
+  versions,
+  disabled,
+  onRegenerate,
+  onEdit,
+  onSwitchVersion,
+  className,
+}: MessageActionsProps) {
+  const index = versions?.indexOf(messageId) ?? -1;
+  const hasVersions = !!versions && versions.length > 1 && index >= 0;
+
+  return (
+    <div
+      className={cn(
+        "flex items-center gap-0.5 text-xs text-muted-foreground",
+        className,
+      )}
+    >
+      {hasVersions && onSwitchVersion && (
+        <>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            disabled={disabled || index === 0}
+            onClick={() => onSwitchVersion(versions[index - 1])}
+            aria-label="Previous version"
+          >
+            <ChevronLeftIcon className="h-3.5 w-3.5" />
+          </Button>
+          <span className="tabular-nums">
+            {index + 1}/{versions.length}
+          </span>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            disabled={disabled || index === versions.length - 1}
+            onClick={() => onSwitchVersion(versions[index + 1])}
+            aria-label="Next version"
+          >
+            <ChevronRightIcon className="h-3.5 w-3.5" />
+          </Button>
+        </>
+      )}
+
+      {role === "assistant" && onRegenerate && (
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7"
+          disabled={disabled}
+          onClick={onRegenerate}
+          aria-label="Regenerate response"
+          title="Regenerate"
+        >
+          <RefreshCwIcon className="h-3.5 w-3.5" />
+        </Button>
+      )}
+
+      {role === "user" && onEdit && (
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7"
+          disabled={disabled}
+          onClick={onEdit}
+          aria-label="Edit message"
+          title="Edit"
+        >
+          <PencilIcon className="h-3.5 w-3.5" />
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -4,25 +4,45 @@ import { cn } from "@/lib/utils";
 import { Id } from "@/convex/_generated/dataModel";
 import Markdown from "react-markdown";
 import remarkGfm from "remark-gfm";
-import { useEffect, useRef } from "react";
+import { useEffect, useRef, useState } from "react";
 import { Loader2Icon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import TriageBanner, { Triage } from "./triage-banner";
+import EmergencyCard, { Emergency } from "./emergency-card";
+import MessageActions from "./message-actions";
 
 export interface Message {
   _id?: Id<"messages">;
   role: "user" | "assistant" | "system";
   content: string;
   status?: "pending" | "streaming" | "sent" | "error";
+  triage?: Triage;
+  attachments?: Array<{
+    storageId?: Id<"_storage">;
+    mimeType?: string;
+    url: string | null;
+    name?: string;
+  }>;
+  // Ids of every version of this message, oldest first
+  versions?: Id<"messages">[];
   createdAt?: number;
 }
 
 interface MessageListProps {
   messages: Message[];
   isLoadingMore: boolean;
+  canLoadMore?: boolean;
   loadMore: () => void;
-  streamingContent?: string;
+  highlightMessageId?: Id<"messages"> | null;
   isStreaming?: boolean;
   error?: string | null;
   onDismissError?: () => void;
+  emergency?: Emergency;
+  onDismissEmergency?: () => void;
+  onRegenerate?: (message: Message) => void;
+  onEdit?: (message: Message, content: string) => void;
+  onSwitchVersion?: (messageId: Id<"messages">) => void;
 }
 
 // Aggressive spacing fixes for headings
@@ -48,12 +68,20 @@ export const assistantProseClasses = cn(
 export default function MessageList({
   messages,
   isLoadingMore,
+  canLoadMore,
   loadMore,
-  streamingContent,
+  highlightMessageId,
   isStreaming,
   error,
   onDismissError,
+  emergency,
+  onDismissEmergency,
+  onRegenerate,
+  onEdit,
+  onSwitchVersion,
 }: MessageListProps) {
+  const [editingId, setEditingId] = useState<Id<"messages"> | null>(null);
+  const [draft, setDraft] = useState("");
   const topRef = useRef<HTMLDivElement>(null);
   const bottomRef = useRef<HTMLDivElement>(null);
   const scrollContainerRef = useRef<HTMLDivElement>(null);
@@ -87,20 +115,34 @@ export default function MessageList({
     }
   }, [messages, isLoadingMore]);
 
+  // Jump to a search hit, paging back through history until it's loaded
+  const hasScrolledToHighlight = useRef(false);
   useEffect(() => {
+    if (!highlightMessageId || hasScrolledToHighlight.current) return;
+    if (messages.some((m) => m._id === highlightMessageId)) {
+      document
+        .getElementById(`message-${highlightMessageId}`)
+        ?.scrollIntoView({ behavior: "auto", block: "center" });
+      hasScrolledToHighlight.current = true;
+      isFirstLoad.current = false;
+    } else if (canLoadMore && !isLoadingMore) {
+      loadMore();
+    }
+  }, [highlightMessageId, messages, canLoadMore, isLoadingMore, loadMore]);
+
+  useEffect(() => {
+    if (highlightMessageId && !hasScrolledToHighlight.current) return;
     if (isFirstLoad.current && messages.length > 0) {
       bottomRef.current?.scrollIntoView({ behavior: "auto" });
       isFirstLoad.current = false;
       return;
     }
-    if (isStreaming || streamingContent) {
+    if (isStreaming) {
       bottomRef.current?.scrollIntoView({ behavior: "smooth" });
     }
-  }, [messages, isStreaming, streamingContent]);
+  }, [messages, isStreaming, highlightMessageId]);
 
-  const displayMessages = [...messages]
-    .filter((m) => m.status !== "streaming")
-    .reverse();
+  const displayMessages = [...messages].reverse();
 
   const userProseClasses = cn(
     "prose prose-sm prose-invert max-w-none",
@@ -113,6 +155,13 @@ export default function MessageList({
       ref={scrollContainerRef}
       className="flex-1 overflow-y-auto scroll-smooth"
     >
+      {/* Pinned above the conversation while it scrolls */}
+      {emergency && (
+        <div className="sticky top-0 z-10 mx-auto max-w-3xl px-4 pt-3 sm:px-6">
+          <EmergencyCard emergency={emergency} onDismiss={onDismissEmergency} />
+        </div>
+      )}
+
       <div ref={topRef} className="h-1 opacity-0" />
 
       {isLoadingMore && (
@@ -121,7 +170,7 @@ export default function MessageList({
         </div>
       )}
 
-      {displayMessages.length === 0 && !streamingContent && (
+      {displayMessages.length === 0 && (
         <div className="flex h-full items-center justify-center text-muted-foreground px-4">
           <div className="text-center space-y-2">
             <p className="text-lg font-medium">PashuCare AI</p>
@@ -133,8 +182,11 @@ export default function MessageList({
       {displayMessages.map((message, index) => (
         <div
           key={message._id || index}
+          id={message._id && `message-${message._id}`}
           className={cn(
             "flex w-full",
+            message._id === highlightMessageId &&
+              "ring-2 ring-inset ring-primary/40",
             message.role === "user"
               ? "bg-muted/30 dark:bg-muted/10"
               : "bg-background",
@@ -150,43 +202,134 @@ export default function MessageList({
           >
             {message.role === "user" ? (
               // User message - bubble style
-              <div className="bg-primary text-primary-foreground rounded-2xl rounded-br-sm px-5 py-3 max-w-[85%] shadow-sm">
-                <div className={userProseClasses}>
-                  <Markdown remarkPlugins={[remarkGfm]}>
-                    {message.content}
-                  </Markdown>
-                </div>
+              <div className="flex max-w-[85%] flex-col items-end gap-2">
+                {!!message.attachments?.length && (
+                  <div className="flex flex-wrap justify-end gap-2">
+                    {message.attachments.map(
+                      (attachment, i) =>
+                        attachment.url && (
+                          <a
+                            key={i}
+                            href={attachment.url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="block h-32 w-32 overflow-hidden rounded-xl border shadow-sm"
+                          >
+                            {/* eslint-disable-next-line @next/next/no-img-element */}
+                            <img
+                              src={attachment.url}
+                              alt={attachment.name ?? "Attached photo"}
+                              className="h-full w-full object-cover"
+                              loading="lazy"
+                            />
+                          </a>
+                        ),
+                    )}
+                  </div>
+                )}
+                {editingId && message._id === editingId ? (
+                  <form
+                    className="flex w-full min-w-72 flex-col gap-2"
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      if (!draft.trim() && !message.attachments?.length) return;
+                      setEditingId(null);
+                      onEdit?.(message, draft.trim());
+                    }}
+                  >
+                    <Textarea
+                      value={draft}
+                      onChange={(e) => setDraft(e.target.value)}
+                      className="min-h-20 resize-none bg-background"
+                      autoFocus
+                    />
+                    <div className="flex justify-end gap-2">
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setEditingId(null)}
+                      >
+                        Cancel
+                      </Button>
+                      <Button type="submit" size="sm" disabled={isStreaming}>
+                        Send
+                      </Button>
+                    </div>
+                  </form>
+                ) : (
+                  message.content && (
+                    <div className="bg-primary text-primary-foreground rounded-2xl rounded-br-sm px-5 py-3 shadow-sm">
+                      <div className={userProseClasses}>
+                        <Markdown remarkPlugins={[remarkGfm]}>
+                          {message.content}
+                        </Markdown>
+                      </div>
+                    </div>
+                  )
+                )}
+                {message._id && message._id !== editingId && (
+                  <MessageActions
+                    messageId={message._id}
+                    role="user"
+                    versions={message.versions}
+                    disabled={isStreaming}
+                    onEdit={
+                      onEdit &&
+                      (() => {
+                        setDraft(message.content);
+                        setEditingId(message._id!);
+                      })
+                    }
+                    onSwitchVersion={onSwitchVersion}
+                  />
+                )}
               </div>
             ) : (
               // Assistant message - NO background, NO border, NO shadow
               <div className="w-full py-1">
-                <div className={assistantProseClasses}>
-                  <Markdown remarkPlugins={[remarkGfm]}>
-                    {message.content}
-                  </Markdown>
-                </div>
+                {message.triage && <TriageBanner triage={message.triage} />}
+                {message.status === "pending" && !message.content ? (
+                  <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <Loader2Icon className="h-4 w-4 animate-spin" />
+                    Thinking...
+                  </div>
+                ) : (
+                  <div
+                    className={cn(
+                      assistantProseClasses,
+                      message.status === "error" && "text-destructive",
+                    )}
+                  >
+                    <Markdown remarkPlugins={[remarkGfm]}>
+                      {message.content}
+                    </Markdown>
+                    {message.status === "streaming" && (
+                      <span className="inline-block w-2 h-4 ml-1 bg-primary/50 animate-pulse" />
+                    )}
+                  </div>
+                )}
+                {message._id &&
+                  message.status !== "pending" &&
+                  message.status !== "streaming" && (
+                    <MessageActions
+                      messageId={message._id}
+                      role="assistant"
+                      versions={message.versions}
+                      disabled={isStreaming}
+                      onRegenerate={
+                        onRegenerate && (() => onRegenerate(message))
+                      }
+                      onSwitchVersion={onSwitchVersion}
+                      className="-ml-2 mt-1"
+                    />
+                  )}
               </div>
             )}
           </div>
         </div>
       ))}
 
-      {/* Streaming message */}
-      {isStreaming && streamingContent && (
-        <div className="flex w-full bg-background">
-          <div className="flex-1 max-w-3xl mx-auto px-4 sm:px-6 py-5">
-            <div className="w-full py-1">
-              <div className={assistantProseClasses}>
-                <Markdown remarkPlugins={[remarkGfm]}>
-                  {streamingContent}
-                </Markdown>
-                <span className="inline-block w-2 h-4 ml-1 bg-primary/50 animate-pulse" />
-              </div>
-            </div>
-          </div>
-        </div>
-      )}
-
       {error && onDismissError && (
         <div className="flex w-full bg-background">
           <div className="flex-1 max-w-3xl mx-auto px-4 sm:px-6 py-2">
@@ -0,0 +1,189 @@
+"use client";
+
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { api } from "@/convex/_generated/api";
+import { formatRelativeTime } from "@/lib/format-time";
+import { cn } from "@/lib/utils";
+import { useQuery } from "convex/react";
+import { Loader2Icon, MessageSquareIcon } from "lucide-react";
+import { useRouter } from "next/navigation";
+import { Fragment, KeyboardEvent, ReactNode, useEffect, useState } from "react";
+
+const DEBOUNCE_MS = 200;
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Wraps every occurrence of the search words in <mark>
+function highlight(text: string, term: string): ReactNode {
+  const words = term.split(/\s+/).filter(Boolean).map(escapeRegExp);
+  if (words.length === 0) return text;
+
+  const pattern = new RegExp(`(${words.join("|")})`, "gi");
+  return text.split(pattern).map((part, index) =>
+    index % 2 === 1 ? (
+      <mark key={index} className="rounded-sm bg-primary/20 text-foreground">
+        {part}
+      </mark>
+    ) : (
+      <Fragment key={index}>{part}</Fragment>
+    ),
+  );
+}
+
+interface SearchChatsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function SearchChatsDialog({
+  open,
+  onOpenChange,
+}: SearchChatsDialogProps) {
+  const router = useRouter();
+  const [term, setTerm] = useState("");
+  const [debouncedTerm, setDebouncedTerm] = useState("");
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setDebouncedTerm(term.trim());
+      setActiveIndex(0);
+    }, DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [term]);
+
+  const results = useQuery(
+    api.chats.searchChats,
+    open && debouncedTerm ? { term: debouncedTerm } : "skip",
+  );
+
+  const openResult = (index: number) => {
+    const result = results?.[index];
+    if (!result) return;
+
+    onOpenChange(false);
+    setTerm("");
+    router.push(
+      result.messageId
+        ? `/chat/${result.chatId}?m=${result.messageId}`
+        : `/chat/${result.chatId}`,
+    );
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (!results?.length) return;
+
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setActiveIndex((i) => (i + 1) % results.length);
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setActiveIndex((i) => (i - 1 + results.length) % results.length);
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      openResult(activeIndex);
+    }
+  };
+
+  const isSearching = !!term.trim() && results === undefined;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="text-muted-foreground">
+            Search chats
+          </DialogTitle>
+        </DialogHeader>
+
+        <form className="space-y-2" onSubmit={(e) => e.preventDefault()}>
+          <Input
+            type="search"
+            placeholder="Search here..."
+            value={term}
+            onChange={(e) => setTerm(e.target.value)}
+            onKeyDown={handleKeyDown}
+            autoFocus
+            role="combobox"
+            aria-expanded={!!results?.length}
+            aria-controls="search-chats-results"
+          />
+
+          <div
+            id="search-chats-results"
+            role="listbox"
+            className="max-h-80 overflow-y-auto"
+          >
+            {isSearching && (
+              <div className="flex justify-center py-4">
+                <Loader2Icon className="h-4 w-4 animate-spin text-muted-foreground" />
+              </div>
+            )}
+
+            {results?.length === 0 && (
+              <p className="py-4 text-center text-sm text-muted-foreground">
+                No chats match &quot;{debouncedTerm}&quot;
+              </p>
+            )}
+
+            {results?.map((result, index) => (
+              <button
+                key={result.chatId}
+                type="button"
+                role="option"
+                aria-selected={index === activeIndex}
+                onMouseEnter={() => setActiveIndex(index)}
+                onClick={() => openResult(index)}
+                className={cn(
+                  "flex w-full flex-col gap-1 rounded-md px-3 py-2 text-left text-sm",
+                  index === activeIndex && "bg-muted",
+                )}
+              >
+                <span className="flex w-full items-center gap-2">
+                  <MessageSquareIcon className="h-3.5 w-3.5 shrink-0 text-primary" />
+                  <span className="truncate font-medium">
+                    {highlight(
+                      result.chatName || "Untitled Chat",
+                      debouncedTerm,
+                    )}
+                  </span>
+                  <span className="ml-auto shrink-0 text-xs text-muted-foreground">
+                    {formatRelativeTime(result.updatedAt)}
+                  </span>
+                </span>
+                {result.snippet && (
+                  <span className="line-clamp-2 text-xs text-muted-foreground">
+                    {highlight(result.snippet, debouncedTerm)}
+                  </span>
+                )}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-[11px] text-muted-foreground">
+              <kbd className="rounded bg-muted px-1 py-0.5 font-mono">↑↓</kbd>{" "}
+              to navigate,{" "}
+              <kbd className="rounded bg-muted px-1 py-0.5 font-mono">
+                Enter
+              </kbd>{" "}
+              to open
+            </p>
+            <DialogClose className="cursor-pointer rounded-full border border-destructive bg-destructive px-4 py-2">
+              Close
+            </DialogClose>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,177 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Separator } from "@/components/ui/separator";
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+import { formatRelativeTime } from "@/lib/format-time";
+import { cn } from "@/lib/utils";
+import { useMutation, useQuery } from "convex/react";
+import { CopyIcon, Loader2Icon, Trash2Icon } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+
+const EXPIRY_OPTIONS = [
+  { label: "1 day", days: 1 },
+  { label: "7 days", days: 7 },
+  { label: "30 days", days: 30 },
+  { label: "Never", days: undefined },
+] as const;
+
+function shareUrl(token: string) {
+  return `${window.location.origin}/share/${token}`;
+}
+
+async function copyLink(token: string) {
+  try {
+    await navigator.clipboard.writeText(shareUrl(token));
+    toast.success("Link copied");
+  } catch {
+    toast.error("Couldn't copy the link");
+  }
+}
+
+type ShareTarget = { chatId: Id<"chats"> } | { reportId: Id<"reports"> };
+
+export default function ShareDialog({
+  target,
+  open,
+  onOpenChange,
+}: {
+  target: ShareTarget;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const shares = useQuery(api.shares.getShares, open ? target : "skip");
+  const createShare = useMutation(api.shares.createShare);
+  const revokeShare = useMutation(api.shares.revokeShare);
+  const [expiresInDays, setExpiresInDays] = useState<number | undefined>(7);
+  const [isCreating, setIsCreating] = useState(false);
+
+  const isChat = "chatId" in target;
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    try {
+      const token = await createShare({ ...target, expiresInDays });
+      await copyLink(token);
+    } catch (error) {
+      toast.error("Failed to create link");
+      console.error(error);
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRevoke = async (shareId: Id<"shares">) => {
+    try {
+      await revokeShare({ shareId });
+      toast.success("Link revoked");
+    } catch (error) {
+      toast.error("Failed to revoke link");
+      console.error(error);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>
+            Share {isChat ? "conversation" : "analysis"}
+          </DialogTitle>
+          <DialogDescription>
+            Anyone with the link can view a read-only copy without signing in,
+            until it expires or you revoke it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <p className="text-sm font-medium">Link expires after</p>
+          <div className="grid grid-cols-4 gap-2">
+            {EXPIRY_OPTIONS.map((option) => (
+              <Button
+                key={option.label}
+                type="button"
+                size="sm"
+                variant="outline"
+                className={cn(
+                  expiresInDays === option.days &&
+                    "border-primary bg-primary/10 text-primary",
+                )}
+                onClick={() => setExpiresInDays(option.days)}
+              >
+                {option.label}
+              </Button>
+            ))}
+          </div>
+          <Button
+            onClick={handleCreate}
+            disabled={isCreating}
+            className="w-full"
+          >
+            {isCreating ? (
+              <Loader2Icon className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <CopyIcon className="mr-2 h-4 w-4" />
+            )}
+            Create and copy link
+          </Button>
+        </div>
+
+        {!!shares?.length && (
+          <>
+            <Separator />
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Active links</p>
+              {shares.map((share) => (
+                <div key={share._id} className="flex items-center gap-2">
+                  <div className="min-w-0 flex-1">
+                    <Input
+                      readOnly
+                      value={shareUrl(share.token)}
+                      className="h-8 text-xs"
+                      onFocus={(e) => e.target.select()}
+                    />
+                    <p className="mt-1 text-xs text-muted-foreground">
+                      Created {formatRelativeTime(share.createdAt)} ·{" "}
+                      {share.expiresAt
+                        ? `expires ${new Date(share.expiresAt).toLocaleDateString()}`
+                        : "never expires"}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => copyLink(share.token)}
+                    aria-label="Copy link"
+                  >
+                    <CopyIcon className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 hover:text-destructive"
+                    onClick={() => handleRevoke(share._id)}
+                    aria-label="Revoke link"
+                  >
+                    <Trash2Icon className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -2,21 +2,14 @@
 
 import { SearchIcon, SquarePenIcon } from "lucide-react";
 import { Button } from "@/components/ui/button";
-import {
-  Dialog,
-  DialogClose,
-  DialogContent,
-  DialogHeader,
-  DialogTitle,
-  DialogTrigger,
-} from "@/components/ui/dialog";
-import { Input } from "@/components/ui/input";
 import {
   SidebarGroup,
   SidebarGroupContent,
   SidebarGroupLabel,
 } from "@/components/ui/sidebar";
 import { useRouter } from "next/navigation";
+import { useState } from "react";
+import SearchChatsDialog from "./search-chats-dialog";
 
 export default function SidePanelQuickActions({
   isCollapsed,
@@ -24,6 +17,7 @@ export default function SidePanelQuickActions({
   isCollapsed: boolean;
 }) {
   const router = useRouter();
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
   return (
     <SidebarGroup>
       {!isCollapsed && (
@@ -49,38 +43,17 @@ export default function SidePanelQuickActions({
           {!isCollapsed && <span className="ml-2">New Chat</span>}
         </Button>
 
-        <Dialog>
-          <DialogTrigger asChild>
-            <Button
-              size={isCollapsed ? "icon" : "default"}
-              className={
-                isCollapsed ? "size-7 rounded-full p-0" : "rounded-full"
-              }
-            >
-              <SearchIcon className="size-4" />
-              {!isCollapsed && <span className="ml-2">Search chats</span>}
-            </Button>
-          </DialogTrigger>
-          <DialogContent>
-            <DialogHeader>
-              <DialogTitle className="text-muted-foreground">
-                Search chats
-              </DialogTitle>
-            </DialogHeader>
+        <Button
+          type="button"
+          onClick={() => setIsSearchOpen(true)}
+          size={isCollapsed ? "icon" : "default"}
+          className={isCollapsed ? "size-7 rounded-full p-0" : "rounded-full"}
+        >
+          <SearchIcon className="size-4" />
+          {!isCollapsed && <span className="ml-2">Search chats</span>}
+        </Button>
 
-            <form className="space-y-2">
-              <Input type="search" placeholder="Search here..." />
-              <div className="flex items-center justify-end gap-2">
-                <Button type="submit" className="rounded-full">
-                  Search
-                </Button>
-                <DialogClose className="cursor-pointer rounded-full border border-destructive bg-destructive px-4 py-2">
-                  Close
-                </DialogClose>
-              </div>
-            </form>
-          </DialogContent>
-        </Dialog>
+        <SearchChatsDialog open={isSearchOpen} onOpenChange={setIsSearchOpen} />
       </SidebarGroupContent>
     </SidebarGroup>
   );
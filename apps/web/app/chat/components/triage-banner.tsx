@@ -0,0 +1,79 @@
+"use client";
+
+import { cn } from "@/lib/utils";
+import {
+  AlertTriangleIcon,
+  CheckCircle2Icon,
+  EyeIcon,
+  SirenIcon,
+} from "lucide-react";
+
+export type TriagePriority = "ROUTINE" | "MONITOR" | "URGENT";
+
+export interface Triage {
+  priority: TriagePriority;
+  condition?: string;
+  bodySystem?: string;
+  redFlags: string[];
+}
+
+const priorityStyles: Record<
+  TriagePriority,
+  { label: string; className: string; icon: typeof SirenIcon }
+> = {
+  ROUTINE: {
+    label: "Routine",
+    className:
+      "border-green-500/40 bg-green-50 text-green-800 dark:bg-green-950/30 dark:text-green-300",
+    icon: CheckCircle2Icon,
+  },
+  MONITOR: {
+    label: "Monitor closely",
+    className:
+      "border-amber-500/40 bg-amber-50 text-amber-800 dark:bg-amber-950/30 dark:text-amber-300",
+    icon: EyeIcon,
+  },
+  URGENT: {
+    label: "Urgent — see a vet",
+    className:
+      "border-red-500/50 bg-red-50 text-red-800 dark:bg-red-950/40 dark:text-red-300",
+    icon: SirenIcon,
+  },
+};
+
+export default function TriageBanner({ triage }: { triage: Triage }) {
+  const style = priorityStyles[triage.priority];
+
+  return (
+    <div
+      className={cn(
+        "mb-4 rounded-lg border px-4 py-3 text-sm",
+        style.className,
+      )}
+    >
+      <div className="flex flex-wrap items-center gap-x-3 gap-y-1">
+        <span className="flex items-center gap-1.5 font-semibold">
+          <style.icon className="h-4 w-4" />
+          {style.label}
+        </span>
+        {triage.condition && <span>{triage.condition}</span>}
+        {triage.bodySystem && (
+          <span className="rounded-full border border-current/30 px-2 py-0.5 text-xs opacity-80">
+            {triage.bodySystem}
+          </span>
+        )}
+      </div>
+
+      {triage.redFlags.length > 0 && (
+        <ul className="mt-2 space-y-1">
+          {triage.redFlags.map((flag, index) => (
+            <li key={index} className="flex items-start gap-1.5 text-xs">
+              <AlertTriangleIcon className="mt-0.5 h-3 w-3 shrink-0" />
+              {flag}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
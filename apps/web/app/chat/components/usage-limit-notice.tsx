@@ -0,0 +1,26 @@
+"use client";
+
+import { GaugeIcon } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+export default function UsageLimitNotice({
+  className,
+}: {
+  className?: string;
+}) {
+  return (
+    <div
+      role="status"
+      className={cn(
+        "flex items-start gap-2 rounded-lg border border-amber-300 bg-amber-50 px-3 py-2 text-sm text-amber-900 dark:border-amber-700 dark:bg-amber-950/40 dark:text-amber-200",
+        className,
+      )}
+    >
+      <GaugeIcon className="mt-0.5 h-4 w-4 shrink-0" />
+      <p>
+        You&apos;ve reached today&apos;s free usage limit. It resets at midnight
+        your time, your chats and reports are still here to read.
+      </p>
+    </div>
+  );
+}
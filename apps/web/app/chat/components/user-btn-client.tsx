@@ -3,6 +3,7 @@
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import {
   DropdownMenu,
+  DropdownMenuCheckboxItem,
   DropdownMenuContent,
   DropdownMenuItem,
   DropdownMenuLabel,
@@ -13,16 +14,57 @@ import {
   SidebarMenuButton,
   SidebarMenuItem,
 } from "@/components/ui/sidebar";
+import { api } from "@/convex/_generated/api";
 import { SignOutButton, useUser } from "@clerk/nextjs";
+import { useMutation, useQuery } from "convex/react";
 import {
   ChevronsUpDownIcon,
+  DownloadIcon,
   LogOutIcon,
+  MailIcon,
   SettingsIcon,
+  Trash2Icon,
+  UploadIcon,
   UsersIcon,
 } from "lucide-react";
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import DeleteDataDialog from "./delete-data-dialog";
+import ImportDataDialog from "./import-data-dialog";
+
+async function downloadExport() {
+  const response = await fetch("/api/export");
+  if (!response.ok) throw new Error("Export failed");
+
+  const fileName =
+    response.headers
+      .get("Content-Disposition")
+      ?.match(/filename="(.+)"/)?.[1] ?? "pashucare-export.zip";
+  const url = URL.createObjectURL(await response.blob());
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
 
 export default function UserBtnClient() {
   const { user } = useUser();
+  const [isDeleteOpen, setIsDeleteOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const settings = useQuery(api.settings.getMySettings);
+  const updateSettings = useMutation(api.settings.updateMySettings);
+
+  // Daily usage is bucketed by the user's local day, keep their zone current
+  const savedTimeZone = settings?.timeZone;
+  useEffect(() => {
+    if (savedTimeZone === undefined) return;
+    const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+    if (timeZone && timeZone !== savedTimeZone) {
+      updateSettings({ timeZone }).catch(console.error);
+    }
+  }, [savedTimeZone, updateSettings]);
+
   return (
     <SidebarMenu>
       <SidebarMenuItem>
@@ -58,12 +100,49 @@ export default function UserBtnClient() {
               <SettingsIcon />
               Settings
             </DropdownMenuItem>
+            <DropdownMenuCheckboxItem
+              checked={settings?.emailOnAnalysisReady ?? false}
+              disabled={!settings}
+              onCheckedChange={(checked) =>
+                updateSettings({ emailOnAnalysisReady: checked }).catch(() =>
+                  toast.error("Failed to update email settings"),
+                )
+              }
+            >
+              <MailIcon />
+              Email me finished analyses
+            </DropdownMenuCheckboxItem>
+            <DropdownMenuItem
+              onSelect={() =>
+                toast.promise(downloadExport(), {
+                  loading: "Preparing your export...",
+                  success: "Export downloaded",
+                  error: "Failed to export your data",
+                })
+              }
+            >
+              <DownloadIcon />
+              Export my data
+            </DropdownMenuItem>
+            <DropdownMenuItem onSelect={() => setIsImportOpen(true)}>
+              <UploadIcon />
+              Import data
+            </DropdownMenuItem>
+            <DropdownMenuItem
+              variant="destructive"
+              onSelect={() => setIsDeleteOpen(true)}
+            >
+              <Trash2Icon />
+              Delete all my data
+            </DropdownMenuItem>
             <DropdownMenuItem>
               <LogOutIcon />
               <SignOutButton />
             </DropdownMenuItem>
           </DropdownMenuContent>
         </DropdownMenu>
+        <ImportDataDialog open={isImportOpen} onOpenChange={setIsImportOpen} />
+        <DeleteDataDialog open={isDeleteOpen} onOpenChange={setIsDeleteOpen} />
       </SidebarMenuItem>
     </SidebarMenu>
   );
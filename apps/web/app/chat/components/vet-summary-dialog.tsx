@@ -0,0 +1,189 @@
+"use client";
+
+import { sendVetSummaryMail } from "@/actions/mail";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Separator } from "@/components/ui/separator";
+import { Textarea } from "@/components/ui/textarea";
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+import { formatRelativeTime } from "@/lib/format-time";
+import { useQuery } from "convex/react";
+import { DownloadIcon, Loader2Icon, RefreshCwIcon } from "lucide-react";
+import { useActionState, useState } from "react";
+import { toast } from "sonner";
+
+type VetSummaryMailState = {
+  success: boolean;
+  message: string;
+  errors?: {
+    email?: string[];
+    note?: string[];
+  };
+};
+
+function EmailSummaryForm({ summaryId }: { summaryId: Id<"vetSummaries"> }) {
+  const [state, action, isPending] = useActionState<
+    VetSummaryMailState,
+    FormData
+  >(sendVetSummaryMail, { success: false, message: "" });
+
+  return (
+    <form action={action} className="space-y-3">
+      <input type="hidden" name="summaryId" value={summaryId} />
+      <div>
+        <Input
+          name="email"
+          type="email"
+          placeholder="Your vet's email address"
+          disabled={isPending}
+        />
+        {state.errors?.email && (
+          <p className="text-sm text-red-500">{state.errors.email[0]}</p>
+        )}
+      </div>
+      <div>
+        <Textarea
+          name="note"
+          placeholder="Add a note (optional)"
+          rows={2}
+          disabled={isPending}
+        />
+        {state.errors?.note && (
+          <p className="text-sm text-red-500">{state.errors.note[0]}</p>
+        )}
+      </div>
+      {state.message && !state.errors && (
+        <p
+          className={
+            state.success ? "text-sm text-green-600" : "text-sm text-red-500"
+          }
+        >
+          {state.message}
+        </p>
+      )}
+      <Button type="submit" disabled={isPending} className="w-full">
+        {isPending ? "Sending..." : "Email to my vet"}
+      </Button>
+    </form>
+  );
+}
+
+export default function VetSummaryDialog({
+  chatId,
+  open,
+  onOpenChange,
+}: {
+  chatId: Id<"chats">;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const summary = useQuery(
+    api.vetSummaries.getLatestVetSummary,
+    open ? { chatId } : "skip",
+  );
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  const generate = async () => {
+    setIsGenerating(true);
+    try {
+      const response = await fetch(`/api/chat/${chatId}/summary`, {
+        method: "POST",
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.message);
+      toast.success("Vet summary ready");
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to generate summary",
+      );
+      console.error(error);
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Vet visit summary</DialogTitle>
+          <DialogDescription>
+            A one page clinical summary of this chat to hand to your vet:
+            signalment, complaint, timeline, advice given and triage level.
+          </DialogDescription>
+        </DialogHeader>
+
+        {summary === undefined ? (
+          <div className="flex justify-center py-6">
+            <Loader2Icon className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : !summary ? (
+          <Button onClick={generate} disabled={isGenerating}>
+            {isGenerating ? (
+              <>
+                <Loader2Icon className="mr-2 h-4 w-4 animate-spin" />
+                Generating...
+              </>
+            ) : (
+              "Generate vet summary"
+            )}
+          </Button>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2 rounded-lg border p-3">
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-xs text-muted-foreground">
+                  Generated {formatRelativeTime(summary.createdAt)}
+                </span>
+                {summary.summary.triageLevel && (
+                  <Badge variant="outline">{summary.summary.triageLevel}</Badge>
+                )}
+              </div>
+              <p className="line-clamp-3 text-sm">
+                {summary.summary.presentingComplaint}
+              </p>
+            </div>
+
+            <div className="flex gap-2">
+              <Button asChild className="flex-1" disabled={!summary.url}>
+                <a
+                  href={summary.url ?? undefined}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                >
+                  <DownloadIcon className="mr-2 h-4 w-4" />
+                  Download PDF
+                </a>
+              </Button>
+              <Button
+                variant="outline"
+                onClick={generate}
+                disabled={isGenerating}
+              >
+                {isGenerating ? (
+                  <Loader2Icon className="h-4 w-4 animate-spin" />
+                ) : (
+                  <RefreshCwIcon className="h-4 w-4" />
+                )}
+                <span className="ml-2">Regenerate</span>
+              </Button>
+            </div>
+
+            <Separator />
+
+            <EmailSummaryForm key={summary._id} summaryId={summary._id} />
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
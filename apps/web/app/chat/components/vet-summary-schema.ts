@@ -0,0 +1,9 @@
+import * as z from "zod";
+
+export const vetSummaryMailSchema = z.object({
+  summaryId: z.string().min(1, "Summary is required"),
+  email: z.email("Please enter a valid email"),
+  note: z.string().max(500, "Note limit is 500 characters only").optional(),
+});
+
+export type VetSummaryMailSchema = z.infer<typeof vetSummaryMailSchema>;
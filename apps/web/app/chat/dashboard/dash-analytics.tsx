@@ -2,6 +2,7 @@
 
 import { useQuery } from "convex/react";
 import { useUser } from "@clerk/nextjs";
+import { useState } from "react";
 import { Area, AreaChart, CartesianGrid, XAxis, YAxis } from "recharts";
 
 import {
@@ -19,6 +20,7 @@ import {
   ChartLegend,
   ChartLegendContent,
 } from "@/components/ui/chart";
+import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
 import { api } from "@/convex/_generated/api";
 
@@ -33,11 +35,25 @@ const chartConfig = {
   },
 } satisfies ChartConfig;
 
+const RANGES = [7, 30, 90] as const;
+
+type Range = (typeof RANGES)[number];
+
+// Day keys are calendar dates in the user's zone, format them as-is
+function formatDay(day: string, options: Intl.DateTimeFormatOptions) {
+  return new Date(`${day}T00:00:00Z`).toLocaleDateString("en-US", {
+    ...options,
+    timeZone: "UTC",
+  });
+}
+
 export function DashAnalytics() {
   const { user } = useUser();
+  const [days, setDays] = useState<Range>(7);
+  const [now] = useState(() => Date.now());
   const analyticsData = useQuery(
     api.analytics.getMessageActivityByDay,
-    user?.id ? { userId: user.id } : "skip",
+    user?.id ? { days, now } : "skip",
   );
 
   const isLoading = analyticsData === undefined;
@@ -47,13 +63,27 @@ export function DashAnalytics() {
 
   return (
     <Card className="w-full">
-      <CardHeader>
-        <CardTitle className="text-xl font-semibold">
-          Message Activity
-        </CardTitle>
-        <CardDescription>
-          Your conversation activity over the last 7 days
-        </CardDescription>
+      <CardHeader className="flex flex-wrap items-start justify-between gap-4">
+        <div className="space-y-1.5">
+          <CardTitle className="text-xl font-semibold">
+            Message Activity
+          </CardTitle>
+          <CardDescription>
+            Your conversation activity over the last {days} days
+          </CardDescription>
+        </div>
+        <div className="flex gap-2">
+          {RANGES.map((range) => (
+            <Button
+              key={range}
+              size="sm"
+              variant={range === days ? "default" : "outline"}
+              onClick={() => setDays(range)}
+            >
+              {range}d
+            </Button>
+          ))}
+        </div>
       </CardHeader>
 
       <CardContent>
@@ -115,7 +145,10 @@ export function DashAnalytics() {
                 tickLine={false}
                 axisLine={false}
                 tickMargin={8}
-                tickFormatter={(value) => value.slice(0, 6)}
+                minTickGap={24}
+                tickFormatter={(value) =>
+                  formatDay(value, { month: "short", day: "numeric" })
+                }
               />
 
               <YAxis
@@ -127,7 +160,18 @@ export function DashAnalytics() {
 
               <ChartTooltip
                 cursor={false}
-                content={<ChartTooltipContent indicator="dot" />}
+                content={
+                  <ChartTooltipContent
+                    indicator="dot"
+                    labelFormatter={(value) =>
+                      formatDay(value, {
+                        weekday: "short",
+                        month: "short",
+                        day: "numeric",
+                      })
+                    }
+                  />
+                }
               />
 
               <ChartLegend content={<ChartLegendContent />} />
@@ -1,7 +1,6 @@
 "use client";
 
-import { useQuery } from "convex/react";
-import { useUser } from "@clerk/nextjs";
+import { FunctionReturnType } from "convex/server";
 import {
   Card,
   CardContent,
@@ -10,33 +9,74 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
-import { MessageSquare, FileText } from "lucide-react";
+import {
+  MessageSquare,
+  FileText,
+  SirenIcon,
+  FileUpIcon,
+  HourglassIcon,
+  BellIcon,
+} from "lucide-react";
 import { api } from "@/convex/_generated/api";
 
-export default function DashCards() {
-  const { user } = useUser();
-  const stats = useQuery(
-    api.analytics.getDashboardStats,
-    user?.id ? { userId: user.id } : "skip",
-  );
+export type DashStats = FunctionReturnType<
+  typeof api.analytics.getDashboardOverview
+>["stats"];
 
+// Stats come from DashOverview, undefined while loading
+export default function DashCards({ stats }: { stats?: DashStats }) {
   const isLoading = stats === undefined;
 
+  // Counts stop at countLimit, anything at it may be more
+  const isCapped = (value: number) => !!stats && value >= stats.countLimit;
+  const formatCount = (value: number, capped = isCapped(value)) =>
+    `${value.toLocaleString()}${capped ? "+" : ""}`;
+
   const cardItems = [
     {
       title: "Total Chats",
-      value: stats?.totalChats ?? 0,
+      value: formatCount(stats?.totalChats ?? 0),
       icon: MessageSquare,
     },
     {
       title: "Total Messages",
-      value: stats?.totalMessages ?? 0,
+      // Summed over the counted chats only
+      value: formatCount(
+        stats?.totalMessages ?? 0,
+        isCapped(stats?.totalChats ?? 0),
+      ),
       icon: FileText,
     },
+    {
+      title: "Reports Uploaded",
+      value: formatCount(stats?.totalReports ?? 0),
+      icon: FileUpIcon,
+    },
+    {
+      title: "Analyses Pending",
+      value: formatCount(stats?.pendingAnalyses ?? 0),
+      icon: HourglassIcon,
+    },
+    {
+      title: "Urgent Triage (30 days)",
+      value: formatCount(stats?.urgentLast30Days ?? 0),
+      icon: SirenIcon,
+    },
+    {
+      title: "Upcoming Reminders",
+      value: formatCount(stats?.upcomingReminders ?? 0),
+      icon: BellIcon,
+      hint: stats?.nextReminderAt
+        ? `Next on ${new Date(stats.nextReminderAt).toLocaleDateString(
+            "en-US",
+            { month: "short", day: "numeric" },
+          )}`
+        : undefined,
+    },
   ];
 
   return (
-    <div className="grid md:grid-cols-2 gap-4 md:gap-8">
+    <div className="grid md:grid-cols-3 gap-4 md:gap-8">
       {cardItems.map((card, index) => (
         <Card key={index}>
           <CardHeader>
@@ -51,9 +91,16 @@ export default function DashCards() {
             {isLoading ? (
               <Skeleton className="h-10 w-24" />
             ) : (
-              <p className="text-2xl md:text-4xl md:font-bold text-balance tracking-tighter">
-                {card.value.toLocaleString()}
-              </p>
+              <>
+                <p className="text-2xl md:text-4xl md:font-bold text-balance tracking-tighter">
+                  {card.value}
+                </p>
+                {card.hint && (
+                  <p className="mt-1 text-sm text-muted-foreground">
+                    {card.hint}
+                  </p>
+                )}
+              </>
             )}
           </CardContent>
         </Card>
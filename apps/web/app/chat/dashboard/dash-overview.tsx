@@ -0,0 +1,35 @@
+"use client";
+
+import { useQuery } from "convex/react";
+import { useUser } from "@clerk/nextjs";
+import { useState } from "react";
+
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+import DashCards from "./dash-cards";
+import DashTimeline from "./dash-timeline";
+
+const URGENT_WINDOW_MS = 30 * 24 * 60 * 60 * 1000;
+
+// One query feeds the cards and the timeline of the picked animal
+export default function DashOverview() {
+  const { user } = useUser();
+  const [animalId, setAnimalId] = useState<Id<"animals">>();
+  // Fixed per visit so the query args, and its cached result, stay stable
+  const [urgentSince] = useState(() => Date.now() - URGENT_WINDOW_MS);
+  const overview = useQuery(
+    api.analytics.getDashboardOverview,
+    user?.id ? { animalId, urgentSince } : "skip",
+  );
+
+  return (
+    <>
+      <DashCards stats={overview?.stats} />
+      <DashTimeline
+        animalId={animalId}
+        onAnimalChange={setAnimalId}
+        timeline={overview?.timeline}
+      />
+    </>
+  );
+}
@@ -0,0 +1,271 @@
+"use client";
+
+import { useMutation } from "convex/react";
+import { FunctionReturnType } from "convex/server";
+import Link from "next/link";
+import { FormEvent, useState } from "react";
+import { toast } from "sonner";
+import {
+  BellIcon,
+  CheckIcon,
+  FileTextIcon,
+  HistoryIcon,
+  Loader2Icon,
+  MessageSquareIcon,
+  StickyNoteIcon,
+  Trash2Icon,
+} from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+import AnimalPicker from "../components/animal-picker";
+
+type Timeline = NonNullable<
+  FunctionReturnType<typeof api.analytics.getDashboardOverview>["timeline"]
+>;
+
+type TimelineEntry = Timeline[number];
+
+function formatDate(at: number) {
+  return new Date(at).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+function AddNoteForm({ animalId }: { animalId: Id<"animals"> }) {
+  const [body, setBody] = useState("");
+  const [remindOn, setRemindOn] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const addHealthNote = useMutation(api.notes.addHealthNote);
+
+  async function onSubmit(e: FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    if (!body.trim()) return;
+
+    setIsSaving(true);
+    try {
+      await addHealthNote({
+        animalId,
+        body,
+        // Local midnight of the picked day
+        remindAt: remindOn
+          ? new Date(`${remindOn}T00:00`).getTime()
+          : undefined,
+      });
+      setBody("");
+      setRemindOn("");
+    } catch (error) {
+      toast.error("Failed to save note");
+      console.error(error);
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  return (
+    <form onSubmit={onSubmit} className="space-y-3">
+      <Textarea
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        placeholder="Add a note, e.g. started deworming course"
+        rows={2}
+        disabled={isSaving}
+      />
+      <div className="flex flex-wrap items-center gap-2">
+        <label className="flex items-center gap-2 text-sm text-muted-foreground">
+          <BellIcon className="h-4 w-4" />
+          Remind me on
+          <Input
+            type="date"
+            value={remindOn}
+            onChange={(e) => setRemindOn(e.target.value)}
+            className="h-8 w-auto"
+            disabled={isSaving}
+          />
+        </label>
+        <Button
+          type="submit"
+          size="sm"
+          className="ml-auto"
+          disabled={isSaving || !body.trim()}
+        >
+          {isSaving ? (
+            <Loader2Icon className="h-4 w-4 animate-spin" />
+          ) : (
+            "Add note"
+          )}
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+function NoteActions({
+  entry,
+}: {
+  entry: Extract<TimelineEntry, { kind: "note" }>;
+}) {
+  const completeReminder = useMutation(api.notes.completeReminder);
+  const deleteHealthNote = useMutation(api.notes.deleteHealthNote);
+
+  return (
+    <div className="flex shrink-0 gap-1">
+      {entry.remindAt && !entry.done && (
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7"
+          title="Mark reminder done"
+          onClick={() =>
+            completeReminder({ noteId: entry.id }).catch(() =>
+              toast.error("Failed to update reminder"),
+            )
+          }
+        >
+          <CheckIcon className="h-4 w-4" />
+        </Button>
+      )}
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-7 w-7"
+        title="Delete note"
+        onClick={() =>
+          deleteHealthNote({ noteId: entry.id }).catch(() =>
+            toast.error("Failed to delete note"),
+          )
+        }
+      >
+        <Trash2Icon className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
+
+function TimelineItem({ entry }: { entry: TimelineEntry }) {
+  const Icon =
+    entry.kind === "chat"
+      ? MessageSquareIcon
+      : entry.kind === "report"
+        ? FileTextIcon
+        : StickyNoteIcon;
+
+  return (
+    <li className="relative pl-8">
+      <span className="absolute -left-3 top-0.5 flex size-6 items-center justify-center rounded-full border bg-background">
+        <Icon className="h-3.5 w-3.5 text-primary" />
+      </span>
+      <div className="flex items-start justify-between gap-3">
+        <div className="min-w-0 space-y-1">
+          <p className="text-xs text-muted-foreground">
+            {formatDate(entry.at)}
+          </p>
+          {entry.kind === "chat" && (
+            <Link
+              href={`/chat/${entry.id}`}
+              className="block truncate font-medium hover:text-primary"
+            >
+              {entry.title || "Untitled Chat"}
+            </Link>
+          )}
+          {entry.kind === "report" && (
+            <Link
+              href={`/chat/reports/${entry.id}`}
+              className="block truncate font-medium hover:text-primary"
+            >
+              {entry.title}
+            </Link>
+          )}
+          {entry.kind === "note" && (
+            <p className="whitespace-pre-wrap text-sm">{entry.title}</p>
+          )}
+          <div className="flex flex-wrap gap-1">
+            {entry.kind === "chat" && entry.urgent && (
+              <Badge variant="destructive">Urgent</Badge>
+            )}
+            {entry.kind === "report" && entry.pending && (
+              <Badge variant="secondary">Analysis pending</Badge>
+            )}
+            {entry.kind === "note" && entry.remindAt && (
+              <Badge variant={entry.done ? "secondary" : "outline"}>
+                <BellIcon />
+                {entry.done ? "Done" : `Reminder ${formatDate(entry.remindAt)}`}
+              </Badge>
+            )}
+          </div>
+        </div>
+        {entry.kind === "note" && <NoteActions entry={entry} />}
+      </div>
+    </li>
+  );
+}
+
+interface DashTimelineProps {
+  animalId?: Id<"animals">;
+  onAnimalChange: (animalId: Id<"animals"> | undefined) => void;
+  // undefined while loading, null when no animal is picked
+  timeline?: Timeline | null;
+}
+
+export default function DashTimeline({
+  animalId,
+  onAnimalChange,
+  timeline,
+}: DashTimelineProps) {
+  return (
+    <Card className="w-full">
+      <CardHeader className="flex flex-wrap items-start justify-between gap-4">
+        <div className="space-y-1.5">
+          <CardTitle className="text-xl font-semibold flex items-center gap-2">
+            <HistoryIcon className="h-5 w-5" />
+            Health Timeline
+          </CardTitle>
+          <CardDescription>
+            Chats, reports and notes about one animal, newest first
+          </CardDescription>
+        </div>
+        <AnimalPicker value={animalId} onChange={onAnimalChange} />
+      </CardHeader>
+
+      <CardContent className="space-y-6">
+        {!animalId ? (
+          <p className="text-sm text-muted-foreground">
+            Pick an animal to see its health history.
+          </p>
+        ) : timeline === undefined ? (
+          <Skeleton className="h-40 w-full rounded-lg" />
+        ) : (
+          <>
+            <AddNoteForm key={animalId} animalId={animalId} />
+            {timeline === null || timeline.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                Nothing recorded yet. Link chats and reports to this animal or
+                add a note.
+              </p>
+            ) : (
+              <ol className="ml-3 space-y-6 border-l pl-0">
+                {timeline.map((entry) => (
+                  <TimelineItem key={entry.id} entry={entry} />
+                ))}
+              </ol>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
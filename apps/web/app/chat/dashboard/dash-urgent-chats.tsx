@@ -0,0 +1,68 @@
+"use client";
+
+import { usePaginatedQuery } from "convex/react";
+import { useUser } from "@clerk/nextjs";
+import Link from "next/link";
+import { SirenIcon } from "lucide-react";
+
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { api } from "@/convex/_generated/api";
+import { formatRelativeTime } from "@/lib/format-time";
+
+export default function DashUrgentChats() {
+  const { user } = useUser();
+  const { results: chats, status } = usePaginatedQuery(
+    api.chats.getUserChats,
+    user?.id ? { urgentOnly: true } : "skip",
+    { initialNumItems: 5 },
+  );
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <CardTitle className="text-xl font-semibold flex items-center gap-2">
+          <SirenIcon className="h-5 w-5 text-red-500" />
+          Urgent Conversations
+        </CardTitle>
+        <CardDescription>
+          Chats where PashuCare AI recommended urgent veterinary care
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent>
+        {status === "LoadingFirstPage" ? (
+          <Skeleton className="h-24 w-full rounded-lg" />
+        ) : chats.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No urgent conversations. That&apos;s good news!
+          </p>
+        ) : (
+          <ul className="divide-y">
+            {chats.map((chat) => (
+              <li key={chat._id}>
+                <Link
+                  href={`/chat/${chat._id}`}
+                  className="flex items-center justify-between gap-4 py-3 hover:text-primary transition-colors"
+                >
+                  <span className="truncate font-medium">
+                    {chat.name || "Untitled Chat"}
+                  </span>
+                  <span className="shrink-0 text-xs text-muted-foreground">
+                    {chat.urgentAt && formatRelativeTime(chat.urgentAt)}
+                  </span>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
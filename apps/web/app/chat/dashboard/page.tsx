@@ -1,11 +1,14 @@
 import { DashAnalytics } from "./dash-analytics";
-import DashCards from "./dash-cards";
+import DashOverview from "./dash-overview";
+import DashUrgentChats from "./dash-urgent-chats";
 
 export default function DashboardPage() {
   return (
     <div className="mt-10 space-y-8 md:space-y-16">
-      {/* Cards section */}
-      <DashCards />
+      {/* Cards and per-animal timeline section */}
+      <DashOverview />
+      {/* urgent triage section */}
+      <DashUrgentChats />
       {/* analytics section */}
       <DashAnalytics />
     </div>
@@ -3,6 +3,7 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { SparklesIcon, Loader2Icon } from "lucide-react";
 import ReactMarkdown from "react-markdown";
+import remarkGfm from "remark-gfm";
 import { assistantProseClasses } from "../../components/message-list";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
@@ -10,7 +11,8 @@ import { Button } from "@/components/ui/button";
 interface AnalysisResultProps {
   analysis: string;
   isAnalyzing: boolean;
-  onClear: () => void;
+  // Omitted on read-only views such as shared links
+  onClear?: () => void;
 }
 
 export default function AnalysisResult({
@@ -27,7 +29,7 @@ export default function AnalysisResult({
           <SparklesIcon className="h-5 w-5 text-primary" />
           AI Analysis Results
         </CardTitle>
-        {analysis && !isAnalyzing && (
+        {analysis && !isAnalyzing && onClear && (
           <Button
             variant="ghost"
             size="sm"
@@ -46,7 +48,9 @@ export default function AnalysisResult({
           )}
         >
           {analysis ? (
-            <ReactMarkdown>{analysis}</ReactMarkdown>
+            <ReactMarkdown remarkPlugins={[remarkGfm]}>
+              {analysis}
+            </ReactMarkdown>
           ) : (
             <div className="flex flex-col items-center justify-center py-12 text-muted-foreground space-y-4">
               <Loader2Icon className="h-8 w-8 animate-spin text-primary/40" />
@@ -17,6 +17,8 @@ import {
   Loader2Icon,
 } from "lucide-react";
 import { ReportType } from "./details";
+import { describeReportType } from "@/lib/report-types";
+import LabResultsTable from "./lab-results-table";
 
 interface DetailsCardProps {
   report: ReportType;
@@ -97,9 +99,7 @@ export default function DetailsCard({
               <div>
                 <p className="text-sm font-medium">Format</p>
                 <p className="text-sm text-muted-foreground uppercase">
-                  {report?.mimeType === "application/pdf"
-                    ? "PDF Document"
-                    : report?.mimeType}
+                  {describeReportType(report?.mimeType ?? "")}
                 </p>
               </div>
             </div>
@@ -152,6 +152,8 @@ export default function DetailsCard({
             )}
           </div>
 
+          {report && <LabResultsTable reportId={report._id} />}
+
           {/* Download Option */}
           <div className="pt-2">
             <Button variant="outline" className="w-full" asChild>
@@ -5,6 +5,7 @@ import { FileTextIcon, EyeIcon, EyeOffIcon } from "lucide-react";
 import { ReportType } from "./details";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
+import { REPORT_MIME_TYPES } from "@/lib/report-types";
 
 export default function DetailsReportPreview({
   report,
@@ -12,6 +13,8 @@ export default function DetailsReportPreview({
   report: ReportType;
 }) {
   const [isVisible, setIsVisible] = useState(true);
+  const isImage = report?.mimeType.startsWith("image/");
+  const isPdf = report?.mimeType === REPORT_MIME_TYPES.pdf;
 
   return (
     <div className="lg:col-span-3 space-y-4">
@@ -22,7 +25,9 @@ export default function DetailsReportPreview({
             <span className="truncate max-w-75">{report?.fileName}</span>
           </div>
           <div className="flex items-center gap-2">
-            <span className="text-xs text-muted-foreground">PDF Preview</span>
+            <span className="text-xs text-muted-foreground">
+              {isImage ? "Image Preview" : "PDF Preview"}
+            </span>
             <Button
               variant="ghost"
               size="sm"
@@ -46,7 +51,14 @@ export default function DetailsReportPreview({
               : "h-0 min-h-0 opacity-0",
           )}
         >
-          {report?.url ? (
+          {report?.url && isImage ? (
+            // eslint-disable-next-line @next/next/no-img-element
+            <img
+              src={report.url}
+              alt={report.fileName}
+              className="w-full h-full object-contain absolute inset-0"
+            />
+          ) : report?.url && isPdf ? (
             <iframe
               src={report.url}
               className="w-full h-full border-0 absolute inset-0"
@@ -56,7 +68,11 @@ export default function DetailsReportPreview({
             <div className="flex items-center justify-center h-full text-muted-foreground bg-slate-50">
               <div className="text-center space-y-2">
                 <FileTextIcon className="h-8 w-8 mx-auto opacity-20" />
-                <p>Unable to load preview</p>
+                <p>
+                  {report?.url
+                    ? "Preview not available, download the original to view it"
+                    : "Unable to load preview"}
+                </p>
               </div>
             </div>
           )}
@@ -12,12 +12,19 @@ import DetailsReportPreview from "./details-report-preview";
 import AnalysisResult from "./analysis-result";
 import { useState, useEffect } from "react";
 import { useMutation } from "convex/react";
+import { useRouter } from "next/navigation";
 import { toast } from "sonner";
 import {
   CheckCircleIcon,
   AlertCircleIcon,
   ChevronLeftIcon,
+  Loader2Icon,
+  MailIcon,
+  MessageSquareTextIcon,
+  Share2Icon,
 } from "lucide-react";
+import ShareDialog from "../../components/share-dialog";
+import EmailReportDialog from "./email-report-dialog";
 
 export type ReportType =
   | {
@@ -33,6 +40,7 @@ export type ReportType =
       mimeType: string;
       sizeBytes: number;
       analysis?: string | undefined;
+      extractedText?: string | undefined;
     }
   | undefined;
 
@@ -41,6 +49,11 @@ export default function Details({ id }: { id: Id<"reports"> }) {
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [analysis, setAnalysis] = useState<string>("");
   const saveAnalysis = useMutation(api.uploader.saveAnalysis);
+  const askAboutReport = useMutation(api.uploader.askAboutReport);
+  const [isOpeningChat, setIsOpeningChat] = useState(false);
+  const [isShareOpen, setIsShareOpen] = useState(false);
+  const [isEmailOpen, setIsEmailOpen] = useState(false);
+  const router = useRouter();
 
   useEffect(() => {
     if (report?.analysis) {
@@ -49,10 +62,7 @@ export default function Details({ id }: { id: Id<"reports"> }) {
   }, [report?.analysis]);
 
   const handleAnalyze = async () => {
-    if (!report?.url) {
-      toast.error("Error", { description: "No report URL available" });
-      return;
-    }
+    if (!report) return;
 
     setIsAnalyzing(true);
     setAnalysis("");
@@ -61,7 +71,8 @@ export default function Details({ id }: { id: Id<"reports"> }) {
       const response = await fetch("/api/report/analyze", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ imageUrl: report.url }),
+        // Stored text is reused server-side, the file is only re-read for photos
+        body: JSON.stringify({ reportId: report._id }),
       });
 
       if (!response.ok) {
@@ -87,12 +98,10 @@ export default function Details({ id }: { id: Id<"reports"> }) {
       }
 
       // Save analysis to database upon completion
-      if (report?._id) {
-        await saveAnalysis({
-          reportId: report._id,
-          analysis: fullAnalysis,
-        });
-      }
+      await saveAnalysis({
+        reportId: report._id,
+        analysis: fullAnalysis,
+      });
 
       toast.success("Analysis Complete", {
         description: "AI report analysis has been generated successfully.",
@@ -110,6 +119,18 @@ export default function Details({ id }: { id: Id<"reports"> }) {
     }
   };
 
+  const handleAsk = async () => {
+    setIsOpeningChat(true);
+    try {
+      const chatId = await askAboutReport({ reportId: id });
+      router.push(`/chat/${chatId}`);
+    } catch (error) {
+      console.error("Ask about report error:", error);
+      toast.error("Failed to open chat");
+      setIsOpeningChat(false);
+    }
+  };
+
   const handleClearAnalysis = () => {
     setAnalysis("");
   };
@@ -154,6 +175,38 @@ export default function Details({ id }: { id: Id<"reports"> }) {
               Back to Reports
             </Link>
           </Button>
+          <div className="flex items-center gap-2">
+            {report.analysis && (
+              <>
+                <Button variant="outline" onClick={() => setIsEmailOpen(true)}>
+                  <MailIcon className="mr-2 h-4 w-4" />
+                  Email to vet
+                </Button>
+                <Button variant="outline" onClick={() => setIsShareOpen(true)}>
+                  <Share2Icon className="mr-2 h-4 w-4" />
+                  Share
+                </Button>
+              </>
+            )}
+            <Button onClick={handleAsk} disabled={isOpeningChat}>
+              {isOpeningChat ? (
+                <Loader2Icon className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <MessageSquareTextIcon className="mr-2 h-4 w-4" />
+              )}
+              Ask about this report
+            </Button>
+          </div>
+          <EmailReportDialog
+            reportId={report._id}
+            open={isEmailOpen}
+            onOpenChange={setIsEmailOpen}
+          />
+          <ShareDialog
+            target={{ reportId: report._id }}
+            open={isShareOpen}
+            onOpenChange={setIsShareOpen}
+          />
         </div>
 
         {/* Main Content - Row 1 */}
@@ -0,0 +1,98 @@
+"use client";
+
+import { sendReportAnalysisMail } from "@/actions/mail";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Id } from "@/convex/_generated/dataModel";
+import { useActionState } from "react";
+
+type ReportMailState = {
+  success: boolean;
+  message: string;
+  errors?: {
+    email?: string[];
+    note?: string[];
+  };
+};
+
+function EmailReportForm({ reportId }: { reportId: Id<"reports"> }) {
+  const [state, action, isPending] = useActionState<ReportMailState, FormData>(
+    sendReportAnalysisMail,
+    { success: false, message: "" },
+  );
+
+  return (
+    <form action={action} className="space-y-3">
+      <input type="hidden" name="reportId" value={reportId} />
+      <div>
+        <Input
+          name="email"
+          type="email"
+          placeholder="Your vet's email address"
+          disabled={isPending}
+        />
+        {state.errors?.email && (
+          <p className="text-sm text-red-500">{state.errors.email[0]}</p>
+        )}
+      </div>
+      <div>
+        <Textarea
+          name="note"
+          placeholder="Add a note (optional)"
+          rows={2}
+          disabled={isPending}
+        />
+        {state.errors?.note && (
+          <p className="text-sm text-red-500">{state.errors.note[0]}</p>
+        )}
+      </div>
+      {state.message && !state.errors && (
+        <p
+          className={
+            state.success ? "text-sm text-green-600" : "text-sm text-red-500"
+          }
+        >
+          {state.message}
+        </p>
+      )}
+      <Button type="submit" disabled={isPending} className="w-full">
+        {isPending ? "Sending..." : "Email to my vet"}
+      </Button>
+    </form>
+  );
+}
+
+export default function EmailReportDialog({
+  reportId,
+  open,
+  onOpenChange,
+}: {
+  reportId: Id<"reports">;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Email this to my vet</DialogTitle>
+          <DialogDescription>
+            Sends the AI analysis with the original report attached. Replies go
+            straight to your email address.
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Remounted on open so a previous send's message is cleared */}
+        {open && <EmailReportForm reportId={reportId} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,219 @@
+"use client";
+
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { api } from "@/convex/_generated/api";
+import { Doc, Id } from "@/convex/_generated/dataModel";
+import { cn } from "@/lib/utils";
+import { useQuery } from "convex/react";
+import {
+  ArrowDownIcon,
+  ArrowUpDownIcon,
+  ArrowUpIcon,
+  FlaskConicalIcon,
+} from "lucide-react";
+import { useMemo, useState } from "react";
+
+type SortKey = "analyte" | "value" | "flag";
+
+// Out-of-range values first when sorting by flag
+const FLAG_ORDER = { high: 0, low: 1, normal: 2 } as const;
+
+function flagRank(row: Doc<"labResults">) {
+  return row.flag ? FLAG_ORDER[row.flag] : 3;
+}
+
+function formatRange(row: Doc<"labResults">) {
+  const { referenceLow: low, referenceHigh: high } = row;
+  if (low !== undefined && high !== undefined) return `${low}–${high}`;
+  if (high !== undefined) return `< ${high}`;
+  if (low !== undefined) return `> ${low}`;
+  return "—";
+}
+
+function SortHeader({
+  label,
+  column,
+  sortKey,
+  ascending,
+  onSort,
+}: {
+  label: string;
+  column: SortKey;
+  sortKey: SortKey;
+  ascending: boolean;
+  onSort: (key: SortKey) => void;
+}) {
+  const Icon =
+    sortKey !== column
+      ? ArrowUpDownIcon
+      : ascending
+        ? ArrowUpIcon
+        : ArrowDownIcon;
+  return (
+    <button
+      type="button"
+      onClick={() => onSort(column)}
+      className="inline-flex items-center gap-1 hover:text-foreground"
+    >
+      {label}
+      <Icon className="h-3 w-3" />
+    </button>
+  );
+}
+
+export default function LabResultsTable({
+  reportId,
+}: {
+  reportId: Id<"reports">;
+}) {
+  const results = useQuery(api.labs.getReportLabResults, { reportId });
+  const [sortKey, setSortKey] = useState<SortKey>("flag");
+  const [ascending, setAscending] = useState(true);
+
+  const sorted = useMemo(() => {
+    if (!results) return [];
+    const direction = ascending ? 1 : -1;
+    return [...results].sort((a, b) => {
+      if (sortKey === "value") return (a.value - b.value) * direction;
+      if (sortKey === "flag") {
+        const byFlag = flagRank(a) - flagRank(b);
+        if (byFlag !== 0) return byFlag * direction;
+      }
+      return a.analyte.localeCompare(b.analyte) * direction;
+    });
+  }, [results, sortKey, ascending]);
+
+  if (!results || results.length === 0) return null;
+
+  const toggleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setAscending(!ascending);
+    } else {
+      setSortKey(key);
+      setAscending(true);
+    }
+  };
+
+  const outOfRange = results.filter(
+    (r) => r.flag === "high" || r.flag === "low",
+  ).length;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-semibold flex items-center gap-2">
+          <FlaskConicalIcon className="h-4 w-4 text-primary" />
+          Lab Values
+        </h4>
+        {outOfRange > 0 && (
+          <Badge variant="destructive" className="text-[10px]">
+            {outOfRange} out of range
+          </Badge>
+        )}
+      </div>
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow className="hover:bg-transparent">
+              <TableHead>
+                <SortHeader
+                  label="Analyte"
+                  column="analyte"
+                  sortKey={sortKey}
+                  ascending={ascending}
+                  onSort={toggleSort}
+                />
+              </TableHead>
+              <TableHead className="text-right">
+                <SortHeader
+                  label="Value"
+                  column="value"
+                  sortKey={sortKey}
+                  ascending={ascending}
+                  onSort={toggleSort}
+                />
+              </TableHead>
+              <TableHead>Range</TableHead>
+              <TableHead>
+                <SortHeader
+                  label="Flag"
+                  column="flag"
+                  sortKey={sortKey}
+                  ascending={ascending}
+                  onSort={toggleSort}
+                />
+              </TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {sorted.map((row) => {
+              const abnormal = row.flag === "high" || row.flag === "low";
+              return (
+                <TableRow
+                  key={row._id}
+                  className={cn(
+                    abnormal &&
+                      "bg-red-50 hover:bg-red-100/70 dark:bg-red-950/20 dark:hover:bg-red-950/30",
+                  )}
+                >
+                  <TableCell className="font-medium">{row.analyte}</TableCell>
+                  <TableCell
+                    className={cn(
+                      "text-right tabular-nums",
+                      abnormal &&
+                        "font-semibold text-red-600 dark:text-red-400",
+                    )}
+                  >
+                    {row.value}{" "}
+                    <span className="text-xs text-muted-foreground">
+                      {row.unit}
+                    </span>
+                  </TableCell>
+                  <TableCell
+                    className="text-xs text-muted-foreground tabular-nums"
+                    title={
+                      row.referenceSource === "species"
+                        ? "Typical range for the species, the report printed none"
+                        : undefined
+                    }
+                  >
+                    {formatRange(row)}
+                    {row.referenceSource === "species" && "*"}
+                  </TableCell>
+                  <TableCell>
+                    {row.flag === "high" && (
+                      <ArrowUpIcon className="h-4 w-4 text-red-600 dark:text-red-400" />
+                    )}
+                    {row.flag === "low" && (
+                      <ArrowDownIcon className="h-4 w-4 text-red-600 dark:text-red-400" />
+                    )}
+                    {row.flag === "normal" && (
+                      <span className="text-xs text-muted-foreground">
+                        Normal
+                      </span>
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </div>
+
+      {results.some((r) => r.referenceSource === "species") && (
+        <p className="text-[11px] text-muted-foreground">
+          * Typical species range, the report did not print one.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,9 @@
+import * as z from "zod";
+
+export const reportMailSchema = z.object({
+  reportId: z.string().min(1, "Report is required"),
+  email: z.email("Please enter a valid email"),
+  note: z.string().max(500, "Note limit is 500 characters only").optional(),
+});
+
+export type ReportMailSchema = z.infer<typeof reportMailSchema>;
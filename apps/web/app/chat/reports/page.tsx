@@ -1,4 +1,7 @@
 import { auth } from "@clerk/nextjs/server";
+import Link from "next/link";
+import { LineChartIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
 import UploadArea from "./upload-area";
 import ReportsTable from "./reports-table";
 
@@ -9,6 +12,14 @@ export default async function ReportsPage() {
       {/* Upload area */}
       <UploadArea userId={userId as string} />
       {/* Reports list in table  */}
+      <div className="flex justify-end">
+        <Button asChild variant="outline" size="sm">
+          <Link href="/chat/reports/trends">
+            <LineChartIcon className="mr-2 h-4 w-4" />
+            Lab trends
+          </Link>
+        </Button>
+      </div>
       <ReportsTable />
     </div>
   );
@@ -0,0 +1,218 @@
+"use client";
+
+import { useQuery } from "convex/react";
+import {
+  CartesianGrid,
+  Line,
+  LineChart,
+  ReferenceArea,
+  XAxis,
+  YAxis,
+} from "recharts";
+import Link from "next/link";
+import { useState } from "react";
+import { ChevronLeftIcon, LineChartIcon } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import { Skeleton } from "@/components/ui/skeleton";
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+import { cn } from "@/lib/utils";
+import AnimalPicker from "../../components/animal-picker";
+import ReportCompare from "./report-compare";
+
+const chartConfig = {
+  value: {
+    label: "Value",
+    color: "hsl(199, 89%, 60%)", // Sky blue
+  },
+} satisfies ChartConfig;
+
+export default function LabTrends() {
+  const [animalId, setAnimalId] = useState<Id<"animals">>();
+  const [selectedKey, setSelectedKey] = useState<string>();
+
+  const trends = useQuery(
+    api.labs.getAnimalLabTrends,
+    animalId ? { animalId } : "skip",
+  );
+
+  const series =
+    trends?.analytes.find((a) => a.key === selectedKey) ?? trends?.analytes[0];
+
+  const data = series?.points.map((point) => ({
+    date: new Date(point.measuredAt).toLocaleDateString("en-US", {
+      month: "short",
+      day: "numeric",
+      year: "2-digit",
+    }),
+    value: point.value,
+  }));
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <Button
+          asChild
+          variant="ghost"
+          className="pl-0 hover:pl-2 transition-all group"
+        >
+          <Link href="/chat/reports">
+            <ChevronLeftIcon className="mr-2 h-4 w-4 transition-transform group-hover:-translate-x-1" />
+            Back to Reports
+          </Link>
+        </Button>
+        <AnimalPicker
+          value={animalId}
+          onChange={(id) => {
+            setAnimalId(id);
+            setSelectedKey(undefined);
+          }}
+        />
+      </div>
+
+      <Card className="w-full">
+        <CardHeader>
+          <CardTitle className="text-xl font-semibold flex items-center gap-2">
+            <LineChartIcon className="h-5 w-5 text-primary" />
+            Lab Trends
+          </CardTitle>
+          <CardDescription>
+            Values extracted from analyzed reports, plotted by report date
+          </CardDescription>
+        </CardHeader>
+
+        <CardContent className="space-y-4">
+          {!animalId ? (
+            <EmptyState>
+              Select an animal to see how its lab values change over time.
+            </EmptyState>
+          ) : trends === undefined ? (
+            <Skeleton className="h-[340px] w-full rounded-lg" />
+          ) : !trends || !series ? (
+            <EmptyState>
+              No lab values yet.
+              <br />
+              Upload and analyze a report for this animal to start a trend.
+            </EmptyState>
+          ) : (
+            <>
+              <div className="flex flex-wrap gap-2">
+                {trends.analytes.map((analyte) => (
+                  <Button
+                    key={analyte.key}
+                    size="sm"
+                    variant={analyte.key === series.key ? "default" : "outline"}
+                    className={cn(
+                      "h-7 rounded-full text-xs",
+                      analyte.points.some(
+                        (p) => p.flag === "high" || p.flag === "low",
+                      ) &&
+                        analyte.key !== series.key &&
+                        "border-red-300 text-red-600 dark:border-red-900 dark:text-red-400",
+                    )}
+                    onClick={() => setSelectedKey(analyte.key)}
+                  >
+                    {analyte.analyte}
+                    {/* Same analyte reported in another unit elsewhere */}
+                    {trends.analytes.some(
+                      (other) =>
+                        other.analyteKey === analyte.analyteKey &&
+                        other.key !== analyte.key,
+                    ) && ` (${analyte.unit})`}
+                    <span className="ml-1 opacity-60">
+                      {analyte.points.length}
+                    </span>
+                  </Button>
+                ))}
+              </div>
+
+              <ChartContainer config={chartConfig} className="h-[340px] w-full">
+                <LineChart
+                  accessibilityLayer
+                  data={data}
+                  margin={{ left: 12, right: 12, top: 12, bottom: 12 }}
+                >
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} />
+
+                  {/* Shaded normal range */}
+                  {(series.referenceLow !== undefined ||
+                    series.referenceHigh !== undefined) && (
+                    <ReferenceArea
+                      y1={series.referenceLow}
+                      y2={series.referenceHigh}
+                      fill="hsl(142, 71%, 45%)"
+                      fillOpacity={0.08}
+                      ifOverflow="extendDomain"
+                    />
+                  )}
+
+                  <XAxis
+                    dataKey="date"
+                    tickLine={false}
+                    axisLine={false}
+                    tickMargin={8}
+                  />
+
+                  <YAxis
+                    tickLine={false}
+                    axisLine={false}
+                    tickMargin={8}
+                    unit={` ${series.unit}`}
+                    width={80}
+                  />
+
+                  <ChartTooltip
+                    cursor={false}
+                    content={<ChartTooltipContent indicator="dot" />}
+                  />
+
+                  <Line
+                    dataKey="value"
+                    name={series.analyte}
+                    type="monotone"
+                    stroke="var(--color-value)"
+                    strokeWidth={2}
+                    dot={{ r: 4 }}
+                  />
+                </LineChart>
+              </ChartContainer>
+
+              {series.points.length === 1 && (
+                <p className="text-xs text-muted-foreground text-center">
+                  Only one report has {series.analyte} so far. Add another to
+                  see a trend.
+                </p>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {trends && trends.reports.length >= 2 && (
+        <ReportCompare key={animalId} reports={trends.reports} />
+      )}
+    </div>
+  );
+}
+
+function EmptyState({ children }: { children: React.ReactNode }) {
+  return (
+    <div className="h-[340px] flex items-center justify-center">
+      <p className="text-muted-foreground text-center">{children}</p>
+    </div>
+  );
+}
@@ -0,0 +1,9 @@
+import LabTrends from "./lab-trends";
+
+export default function LabTrendsPage() {
+  return (
+    <div className="mt-10">
+      <LabTrends />
+    </div>
+  );
+}
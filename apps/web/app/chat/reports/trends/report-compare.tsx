@@ -0,0 +1,273 @@
+"use client";
+
+import { useQuery } from "convex/react";
+import { useState } from "react";
+import Markdown from "react-markdown";
+import remarkGfm from "remark-gfm";
+import { toast } from "sonner";
+import {
+  ArrowDownIcon,
+  ArrowUpIcon,
+  ChevronDownIcon,
+  GitCompareIcon,
+  Loader2Icon,
+  SparklesIcon,
+} from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+import { cn } from "@/lib/utils";
+import { assistantProseClasses } from "../../components/message-list";
+
+interface ReportOption {
+  _id: Id<"reports">;
+  fileName: string;
+  createdAt: number;
+}
+
+function formatDate(timestamp: number) {
+  return new Date(timestamp).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+function ReportSelect({
+  reports,
+  value,
+  onChange,
+}: {
+  reports: ReportOption[];
+  value: Id<"reports">;
+  onChange: (id: Id<"reports">) => void;
+}) {
+  const selected = reports.find((r) => r._id === value);
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" className="max-w-64 gap-2">
+          <span className="truncate">
+            {selected
+              ? `${formatDate(selected.createdAt)} · ${selected.fileName}`
+              : "Select report"}
+          </span>
+          <ChevronDownIcon className="h-3.5 w-3.5 opacity-70" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="w-72">
+        <DropdownMenuRadioGroup
+          value={value}
+          onValueChange={(id) => onChange(id as Id<"reports">)}
+        >
+          {reports.map((report) => (
+            <DropdownMenuRadioItem key={report._id} value={report._id}>
+              <span className="truncate">{report.fileName}</span>
+              <span className="ml-auto text-xs text-muted-foreground">
+                {formatDate(report.createdAt)}
+              </span>
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
+export default function ReportCompare({
+  reports,
+}: {
+  reports: ReportOption[];
+}) {
+  // Default to the two most recent reports
+  const [firstId, setFirstId] = useState(reports.at(-2)!._id);
+  const [secondId, setSecondId] = useState(reports.at(-1)!._id);
+  const [summary, setSummary] = useState("");
+  const [isSummarizing, setIsSummarizing] = useState(false);
+
+  const comparison = useQuery(
+    api.labs.compareReports,
+    firstId !== secondId ? { reportIds: [firstId, secondId] } : "skip",
+  );
+
+  const select = (setter: (id: Id<"reports">) => void) => {
+    return (id: Id<"reports">) => {
+      setter(id);
+      setSummary("");
+    };
+  };
+
+  async function handleSummarize() {
+    setIsSummarizing(true);
+    setSummary("");
+
+    try {
+      const response = await fetch("/api/report/compare", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ reportIds: [firstId, secondId] }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || "Failed to summarize changes");
+      }
+      if (!response.body) throw new Error("No response body");
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let fullSummary = "";
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        fullSummary += decoder.decode(value, { stream: true });
+        setSummary(fullSummary);
+      }
+    } catch (error) {
+      console.error("Compare error:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Something went wrong",
+      );
+    } finally {
+      setIsSummarizing(false);
+    }
+  }
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <CardTitle className="text-xl font-semibold flex items-center gap-2">
+          <GitCompareIcon className="h-5 w-5 text-primary" />
+          Compare Reports
+        </CardTitle>
+        <CardDescription>
+          Side-by-side lab values from two reports
+        </CardDescription>
+        <div className="flex flex-wrap items-center gap-2 pt-2">
+          <ReportSelect
+            reports={reports}
+            value={firstId}
+            onChange={select(setFirstId)}
+          />
+          <span className="text-xs text-muted-foreground">vs</span>
+          <ReportSelect
+            reports={reports}
+            value={secondId}
+            onChange={select(setSecondId)}
+          />
+        </div>
+      </CardHeader>
+
+      <CardContent className="space-y-6">
+        {firstId === secondId ? (
+          <p className="text-sm text-muted-foreground">
+            Pick two different reports to compare.
+          </p>
+        ) : comparison === undefined ? (
+          <div className="flex justify-center py-8">
+            <Loader2Icon className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : comparison === null ? null : (
+          <>
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow className="hover:bg-transparent">
+                    <TableHead>Analyte</TableHead>
+                    <TableHead className="text-right">
+                      {formatDate(comparison.before.createdAt)}
+                    </TableHead>
+                    <TableHead className="text-right">
+                      {formatDate(comparison.after.createdAt)}
+                    </TableHead>
+                    <TableHead className="text-right">Change</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {comparison.rows.map((row) => (
+                    <TableRow key={row.key}>
+                      <TableCell className="font-medium">
+                        {row.analyte}{" "}
+                        <span className="text-xs text-muted-foreground">
+                          {row.unit}
+                        </span>
+                      </TableCell>
+                      {[row.before, row.after].map((entry, i) => (
+                        <TableCell
+                          key={i}
+                          className={cn(
+                            "text-right tabular-nums",
+                            (entry?.flag === "high" || entry?.flag === "low") &&
+                              "font-semibold text-red-600 dark:text-red-400",
+                          )}
+                        >
+                          {entry ? entry.value : "—"}
+                        </TableCell>
+                      ))}
+                      <TableCell className="text-right tabular-nums">
+                        {row.changePercent === undefined ? (
+                          <span className="text-muted-foreground">—</span>
+                        ) : (
+                          <span className="inline-flex items-center gap-1">
+                            {row.changePercent > 0 ? (
+                              <ArrowUpIcon className="h-3 w-3" />
+                            ) : row.changePercent < 0 ? (
+                              <ArrowDownIcon className="h-3 w-3" />
+                            ) : null}
+                            {Math.abs(row.changePercent).toFixed(0)}%
+                          </span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <Button
+              onClick={handleSummarize}
+              disabled={isSummarizing || comparison.rows.length === 0}
+            >
+              {isSummarizing ? (
+                <Loader2Icon className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <SparklesIcon className="mr-2 h-4 w-4" />
+              )}
+              Summarize what changed
+            </Button>
+
+            {summary && (
+              <div className={assistantProseClasses}>
+                <Markdown remarkPlugins={[remarkGfm]}>{summary}</Markdown>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -23,6 +23,8 @@ import { cn } from "@/lib/utils";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { assistantProseClasses } from "../components/message-list";
 import { isValidConvexId } from "@/lib/utils";
+import AnimalPicker from "../components/animal-picker";
+import { isSupportedReportFile, REPORT_ACCEPT } from "@/lib/report-types";
 
 const MAX_SIZE = 5 * 1024 * 1024;
 
@@ -34,18 +36,19 @@ interface UploadAreaProps {
 export default function UploadArea({ chatId }: UploadAreaProps) {
   const inputRef = useRef<HTMLInputElement>(null);
   const [file, setFile] = useState<File | null>(null);
+  const [animalId, setAnimalId] = useState<Id<"animals">>();
   const [isUploading, setIsUploading] = useState(false);
 
   const [analysis, setAnalysis] = useState("");
   const [isAnalyzing, setIsAnalyzing] = useState(false);
 
   const generateUploadUrl = useMutation(api.uploader.generateUploadUrl);
-  const saveReport = useMutation(api.uploader.saveReport);
+  const registerUpload = useMutation(api.uploader.registerUpload);
   const saveAnalysis = useMutation(api.uploader.saveAnalysis);
 
   const validate = (f: File) => {
-    if (f.type !== "application/pdf") {
-      toast.error("Only PDF documents allowed");
+    if (!isSupportedReportFile(f)) {
+      toast.error("Only PDF, Word documents and photos are allowed");
       return false;
     }
     if (f.size > MAX_SIZE) {
@@ -70,13 +73,14 @@ export default function UploadArea({ chatId }: UploadAreaProps) {
       const postUrl = await generateUploadUrl();
       const uploadRes = await fetch(postUrl, {
         method: "POST",
-        headers: { "Content-Type": file.type },
+        headers: { "Content-Type": file.type || "application/octet-stream" },
         body: file,
       });
 
       if (!uploadRes.ok) throw new Error("Upload failed");
 
       const { storageId } = await uploadRes.json();
+      await registerUpload({ storageId });
 
       // Start analysis first. We will save the report ONLY if analysis starts successfully.
       const analysisResult = await handleAnalyze(storageId);
@@ -104,7 +108,10 @@ export default function UploadArea({ chatId }: UploadAreaProps) {
 
     try {
       const formData = new FormData();
-      formData.append("report-file", file);
+      if (storageId) formData.append("storageId", storageId);
+      formData.append("fileName", file.name);
+      if (isValidConvexId(chatId)) formData.append("chatId", chatId!);
+      if (animalId) formData.append("animalId", animalId);
 
       const response = await fetch("/api/report/analyze", {
         method: "POST",
@@ -112,11 +119,19 @@ export default function UploadArea({ chatId }: UploadAreaProps) {
       });
 
       if (response.status === 429) {
+        // Daily usage limit, or the engine is overloaded
+        const error = await response.json().catch(() => null);
         toast.error(
-          "The engine is currently overloaded, please try again later",
+          error?.message ??
+            "The engine is currently overloaded, please try again later",
         );
         return null;
       }
+      if (response.status === 415) {
+        const error = await response.json();
+        toast.error(error.message || "Unsupported file type");
+        return null;
+      }
       if (!response.ok) {
         const error = await response.json();
         throw new Error(error.message || "Failed to start analysis");
@@ -126,19 +141,10 @@ export default function UploadArea({ chatId }: UploadAreaProps) {
         throw new Error("No response body");
       }
 
-      // If we have a storageId, it means we're in the initial upload flow.
-      // Save the report record now that we know analysis has started.
-      let reportId: Id<"reports"> | undefined;
-      if (storageId) {
-        const validatedChatId = isValidConvexId(chatId) ? chatId : undefined;
-        reportId = await saveReport({
-          chatId: validatedChatId,
-          fileId: storageId,
-          fileName: file.name,
-          mimeType: file.type,
-          sizeBytes: file.size,
-        });
-      }
+      // The server saves the report once analysis has started
+      const reportId = response.headers.get(
+        "X-Report-Id",
+      ) as Id<"reports"> | null;
 
       const reader = response.body.getReader();
       const decoder = new TextDecoder();
@@ -197,6 +203,12 @@ export default function UploadArea({ chatId }: UploadAreaProps) {
             <Stethoscope className="w-5 h-5 text-primary" />
             Medical Report Upload
           </CardTitle>
+          <AnimalPicker
+            value={animalId}
+            onChange={setAnimalId}
+            disabled={isUploading}
+            className="w-fit"
+          />
         </CardHeader>
 
         <CardContent className="pt-0">
@@ -210,14 +222,14 @@ export default function UploadArea({ chatId }: UploadAreaProps) {
                   Upload your {"pet's"} medical report
                 </p>
                 <p className="text-xs text-muted-foreground">
-                  Select a PDF file to continue
+                  Select a PDF, Word document or photo to continue
                 </p>
               </div>
               <Input
                 type="file"
                 ref={inputRef}
                 onChange={handleChange}
-                accept="application/pdf"
+                accept={REPORT_ACCEPT}
                 className="hidden"
                 name="report-file"
               />
@@ -226,10 +238,10 @@ export default function UploadArea({ chatId }: UploadAreaProps) {
                 className="rounded-full px-6"
               >
                 <FileTextIcon className="w-4 h-4 mr-2" />
-                Select PDF
+                Select File
               </Button>
               <p className="text-xs text-muted-foreground">
-                PDF only • Max 5MB
+                PDF, DOCX, JPEG, PNG, HEIC, WebP • Max 5MB
               </p>
             </div>
           ) : (
@@ -0,0 +1,12 @@
+import { Suspense } from "react";
+import SupportTickets from "./support-tickets";
+
+export default function SupportPage() {
+  return (
+    <div className="mt-10">
+      <Suspense>
+        <SupportTickets />
+      </Suspense>
+    </div>
+  );
+}
@@ -0,0 +1,12 @@
+import * as z from "zod";
+
+export const supportReplySchema = z.object({
+  ticketId: z.string().min(1, "Ticket is required"),
+  reply: z
+    .string()
+    .trim()
+    .min(1, "Reply is required")
+    .max(5000, "Reply limit is 5000 characters only"),
+});
+
+export type SupportReplySchema = z.infer<typeof supportReplySchema>;
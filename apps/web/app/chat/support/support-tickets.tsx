@@ -0,0 +1,285 @@
+"use client";
+
+import { useMutation, usePaginatedQuery, useQuery } from "convex/react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { useActionState, useState } from "react";
+import { toast } from "sonner";
+import { LifeBuoyIcon, Loader2Icon } from "lucide-react";
+
+import { replyToSupportTicket } from "@/actions/mail";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+import { formatRelativeTime } from "@/lib/format-time";
+import { cn, isValidConvexId } from "@/lib/utils";
+
+type TicketStatus = "open" | "replied" | "closed";
+
+const STATUSES: TicketStatus[] = ["open", "replied", "closed"];
+
+type ReplyState = {
+  success: boolean;
+  message: string;
+  errors?: {
+    reply?: string[];
+  };
+};
+
+function ReplyForm({ ticketId }: { ticketId: Id<"supportTickets"> }) {
+  const [state, action, isPending] = useActionState<ReplyState, FormData>(
+    replyToSupportTicket,
+    { success: false, message: "" },
+  );
+
+  return (
+    <form action={action} className="space-y-3">
+      <input type="hidden" name="ticketId" value={ticketId} />
+      <Textarea
+        name="reply"
+        placeholder="Write a reply, it is emailed to the sender"
+        rows={5}
+        disabled={isPending}
+      />
+      {state.errors?.reply && (
+        <p className="text-sm text-red-500">{state.errors.reply[0]}</p>
+      )}
+      {state.message && !state.errors && (
+        <p
+          className={
+            state.success ? "text-sm text-green-600" : "text-sm text-red-500"
+          }
+        >
+          {state.message}
+        </p>
+      )}
+      <Button type="submit" disabled={isPending}>
+        {isPending ? "Sending..." : "Send reply"}
+      </Button>
+    </form>
+  );
+}
+
+function TicketDetail({ ticketId }: { ticketId: Id<"supportTickets"> }) {
+  const ticket = useQuery(api.support.getTicket, { ticketId });
+  const setTicketStatus = useMutation(api.support.setTicketStatus);
+
+  const handleStatus = async (status: TicketStatus) => {
+    try {
+      await setTicketStatus({ ticketId, status });
+      toast.success(status === "closed" ? "Ticket closed" : "Ticket reopened");
+    } catch (error) {
+      toast.error("Failed to update ticket");
+      console.error(error);
+    }
+  };
+
+  if (ticket === undefined) {
+    return <Skeleton className="h-64 w-full rounded-lg" />;
+  }
+  if (ticket === null) {
+    return <p className="text-sm text-muted-foreground">Ticket not found</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div className="min-w-0">
+          <p className="font-medium">{ticket.name}</p>
+          <a
+            href={`mailto:${ticket.email}`}
+            className="text-sm text-muted-foreground hover:underline"
+          >
+            {ticket.email}
+          </a>
+          <p className="text-xs text-muted-foreground">
+            Received {formatRelativeTime(ticket.createdAt)}
+          </p>
+        </div>
+        {ticket.status === "closed" ? (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => handleStatus("open")}
+          >
+            Reopen
+          </Button>
+        ) : (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => handleStatus("closed")}
+          >
+            Close
+          </Button>
+        )}
+      </div>
+
+      <p className="whitespace-pre-wrap rounded-lg bg-muted/40 p-4 text-sm">
+        {ticket.message}
+      </p>
+
+      {ticket.replies.map((reply, index) => (
+        <div key={index} className="ml-6 space-y-1 border-l-2 pl-4">
+          <p className="text-xs text-muted-foreground">
+            Replied {formatRelativeTime(reply.sentAt)}
+          </p>
+          <p className="whitespace-pre-wrap text-sm">{reply.body}</p>
+        </div>
+      ))}
+
+      {ticket.status !== "closed" && (
+        <ReplyForm key={ticket._id} ticketId={ticket._id} />
+      )}
+    </div>
+  );
+}
+
+function TicketList({
+  status,
+  selectedId,
+  onSelect,
+}: {
+  status: TicketStatus;
+  selectedId: string | null;
+  onSelect: (ticketId: Id<"supportTickets">) => void;
+}) {
+  const {
+    results: tickets,
+    status: pageStatus,
+    loadMore,
+  } = usePaginatedQuery(
+    api.support.getTickets,
+    { status },
+    { initialNumItems: 20 },
+  );
+
+  if (pageStatus === "LoadingFirstPage") {
+    return <Skeleton className="h-24 w-full rounded-lg" />;
+  }
+  if (tickets.length === 0) {
+    return <p className="text-sm text-muted-foreground">No {status} tickets</p>;
+  }
+
+  return (
+    <ul className="divide-y">
+      {tickets.map((ticket) => (
+        <li key={ticket._id}>
+          <button
+            type="button"
+            onClick={() => onSelect(ticket._id)}
+            className={cn(
+              "w-full rounded-md px-2 py-3 text-left hover:bg-muted/50",
+              selectedId === ticket._id && "bg-muted",
+            )}
+          >
+            <div className="flex items-center justify-between gap-2">
+              <span className="truncate font-medium">{ticket.name}</span>
+              <span className="shrink-0 text-xs text-muted-foreground">
+                {formatRelativeTime(ticket.updatedAt)}
+              </span>
+            </div>
+            <p className="truncate text-sm text-muted-foreground">
+              {ticket.message}
+            </p>
+          </button>
+        </li>
+      ))}
+      {pageStatus === "CanLoadMore" && (
+        <li className="pt-3">
+          <Button variant="ghost" size="sm" onClick={() => loadMore(20)}>
+            Load more
+          </Button>
+        </li>
+      )}
+      {pageStatus === "LoadingMore" && (
+        <li className="flex justify-center pt-3">
+          <Loader2Icon className="h-4 w-4 animate-spin text-muted-foreground" />
+        </li>
+      )}
+    </ul>
+  );
+}
+
+export default function SupportTickets() {
+  const isStaff = useQuery(api.support.isSupportStaff);
+  const [status, setStatus] = useState<TicketStatus>("open");
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  // Forwarded emails link straight to their ticket
+  const ticketParam = searchParams.get("ticket");
+  const selectedId = isValidConvexId(ticketParam)
+    ? (ticketParam as Id<"supportTickets">)
+    : null;
+
+  if (isStaff === undefined) {
+    return <Skeleton className="h-64 w-full rounded-lg" />;
+  }
+  if (!isStaff) {
+    return (
+      <p className="text-center text-muted-foreground">
+        Only the support team can view tickets.
+      </p>
+    );
+  }
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <CardTitle className="text-xl font-semibold flex items-center gap-2">
+          <LifeBuoyIcon className="h-5 w-5" />
+          Support tickets
+        </CardTitle>
+        <CardDescription>
+          Messages sent through the contact form, replies are emailed to the
+          sender
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent className="grid gap-6 md:grid-cols-5">
+        <div className="space-y-3 md:col-span-2">
+          <div className="flex gap-2">
+            {STATUSES.map((s) => (
+              <Button
+                key={s}
+                size="sm"
+                variant={s === status ? "default" : "outline"}
+                className="capitalize"
+                onClick={() => setStatus(s)}
+              >
+                {s}
+              </Button>
+            ))}
+          </div>
+          <TicketList
+            status={status}
+            selectedId={selectedId}
+            onSelect={(ticketId) =>
+              router.replace(`/chat/support?ticket=${ticketId}`)
+            }
+          />
+        </div>
+
+        <div className="md:col-span-3">
+          {selectedId ? (
+            <TicketDetail key={selectedId} ticketId={selectedId} />
+          ) : (
+            <div className="flex h-full items-center justify-center rounded-lg border border-dashed p-8">
+              <p className="text-sm text-muted-foreground">
+                Select a ticket to read and reply
+              </p>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,9 @@
+import TrashList from "./trash-list";
+
+export default function TrashPage() {
+  return (
+    <div className="mt-10">
+      <TrashList />
+    </div>
+  );
+}
@@ -0,0 +1,193 @@
+"use client";
+
+import { useMutation, usePaginatedQuery } from "convex/react";
+import { useUser } from "@clerk/nextjs";
+import { useState } from "react";
+import { toast } from "sonner";
+import { Loader2Icon, RotateCcwIcon, Trash2Icon } from "lucide-react";
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardAction,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+import { formatRelativeTime } from "@/lib/format-time";
+
+function daysLeft(purgeAt: number) {
+  const days = Math.ceil((purgeAt - Date.now()) / (24 * 60 * 60 * 1000));
+  return days <= 1 ? "Deleted within a day" : `Deleted in ${days} days`;
+}
+
+export default function TrashList() {
+  const { user } = useUser();
+  const {
+    results: chats,
+    status,
+    loadMore,
+  } = usePaginatedQuery(api.chats.getDeletedChats, user?.id ? {} : "skip", {
+    initialNumItems: 20,
+  });
+
+  const restoreChat = useMutation(api.chats.restoreChat);
+  const deleteChatForever = useMutation(api.chats.deleteChatForever);
+  const emptyTrash = useMutation(api.chats.emptyTrash);
+
+  // "all" empties the trash, otherwise a single chat
+  const [toDelete, setToDelete] = useState<Id<"chats"> | "all" | null>(null);
+
+  const handleRestore = async (chatId: Id<"chats">) => {
+    try {
+      await restoreChat({ chatId });
+      toast.success("Chat restored");
+    } catch (error) {
+      toast.error("Failed to restore chat");
+      console.error(error);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!toDelete) return;
+    try {
+      if (toDelete === "all") {
+        await emptyTrash();
+        toast.success("Emptying trash");
+      } else {
+        await deleteChatForever({ chatId: toDelete });
+        toast.success("Chat permanently deleted");
+      }
+    } catch (error) {
+      toast.error("Failed to delete");
+      console.error(error);
+    } finally {
+      setToDelete(null);
+    }
+  };
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <CardTitle className="text-xl font-semibold flex items-center gap-2">
+          <Trash2Icon className="h-5 w-5" />
+          Trash
+        </CardTitle>
+        <CardDescription>
+          Deleted chats are kept here for a while, then removed for good along
+          with their messages and reports
+        </CardDescription>
+        {chats.length > 0 && (
+          <CardAction>
+            <Button
+              variant="destructive"
+              size="sm"
+              onClick={() => setToDelete("all")}
+            >
+              Empty trash
+            </Button>
+          </CardAction>
+        )}
+      </CardHeader>
+
+      <CardContent>
+        {status === "LoadingFirstPage" ? (
+          <Skeleton className="h-24 w-full rounded-lg" />
+        ) : chats.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Trash is empty</p>
+        ) : (
+          <ul className="divide-y">
+            {chats.map((chat) => (
+              <li
+                key={chat._id}
+                className="flex items-center justify-between gap-4 py-3"
+              >
+                <div className="min-w-0">
+                  <p className="truncate font-medium">
+                    {chat.name || "Untitled Chat"}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    Deleted {formatRelativeTime(chat.deletedAt)} ·{" "}
+                    {daysLeft(chat.purgeAt)}
+                  </p>
+                </div>
+                <div className="flex shrink-0 gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleRestore(chat._id)}
+                  >
+                    <RotateCcwIcon className="mr-2 h-4 w-4" />
+                    Restore
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setToDelete(chat._id)}
+                    aria-label="Delete forever"
+                  >
+                    <Trash2Icon className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {status === "CanLoadMore" && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="mt-2 w-full"
+            onClick={() => loadMore(20)}
+          >
+            Load more
+          </Button>
+        )}
+        {status === "LoadingMore" && (
+          <div className="flex justify-center py-2">
+            <Loader2Icon className="h-4 w-4 animate-spin text-muted-foreground" />
+          </div>
+        )}
+      </CardContent>
+
+      <AlertDialog open={!!toDelete} onOpenChange={() => setToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {toDelete === "all" ? "Empty trash?" : "Delete forever?"}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              Messages, photos and reports attached to{" "}
+              {toDelete === "all" ? "these chats" : "this chat"} will be
+              permanently deleted. This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -1,3 +1,6 @@
+import Markdown from "react-markdown";
+import remarkGfm from "remark-gfm";
+
 interface ContactEmailTemplateProps {
   firstName: string;
 }
@@ -77,3 +80,365 @@ export function ContactEmailTemplate({ firstName }: ContactEmailTemplateProps) {
     </div>
   );
 }
+
+interface VetSummaryEmailTemplateProps {
+  ownerName: string;
+  patientName?: string;
+  note?: string;
+}
+
+export function VetSummaryEmailTemplate({
+  ownerName,
+  patientName,
+  note,
+}: VetSummaryEmailTemplateProps) {
+  return (
+    <div
+      style={{
+        fontFamily:
+          "-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Arial, sans-serif",
+        backgroundColor: "#ffffff",
+        color: "#111827",
+        lineHeight: "1.6",
+        padding: "24px",
+      }}
+    >
+      <div style={{ maxWidth: "560px", margin: "0 auto" }}>
+        <h1
+          style={{
+            fontSize: "20px",
+            fontWeight: 600,
+            marginBottom: "16px",
+          }}
+        >
+          Visit summary{patientName ? ` for ${patientName}` : ""}
+        </h1>
+
+        <p style={{ marginBottom: "16px" }}>
+          {ownerName} shared a visit summary with you from{" "}
+          <strong>PashuCare</strong>. It is attached to this email as a PDF and
+          covers signalment, the presenting complaint, the history so far, the
+          advice given and the triage level.
+        </p>
+
+        {note && (
+          <p
+            style={{
+              marginBottom: "16px",
+              padding: "12px 16px",
+              backgroundColor: "#f9fafb",
+              borderLeft: "3px solid #c59a2e",
+              whiteSpace: "pre-wrap",
+            }}
+          >
+            {note}
+          </p>
+        )}
+
+        <hr
+          style={{
+            border: "none",
+            borderTop: "1px solid #e5e7eb",
+            margin: "24px 0",
+          }}
+        />
+
+        <p
+          style={{
+            fontSize: "12px",
+            color: "#6b7280",
+            marginTop: "32px",
+          }}
+        >
+          The summary was generated by PashuCare AI from the owner&apos;s
+          conversation. It is not a diagnosis and does not replace your
+          examination.
+        </p>
+      </div>
+    </div>
+  );
+}
+
+interface AnalysisReadyEmailTemplateProps {
+  firstName: string;
+  fileName: string;
+  reportUrl: string;
+}
+
+export function AnalysisReadyEmailTemplate({
+  firstName,
+  fileName,
+  reportUrl,
+}: AnalysisReadyEmailTemplateProps) {
+  return (
+    <div
+      style={{
+        fontFamily:
+          "-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Arial, sans-serif",
+        backgroundColor: "#ffffff",
+        color: "#111827",
+        lineHeight: "1.6",
+        padding: "24px",
+      }}
+    >
+      <div style={{ maxWidth: "560px", margin: "0 auto" }}>
+        <h1
+          style={{
+            fontSize: "20px",
+            fontWeight: 600,
+            marginBottom: "16px",
+          }}
+        >
+          Hello {firstName},
+        </h1>
+
+        <p style={{ marginBottom: "16px" }}>
+          The analysis of <strong>{fileName}</strong> is ready. You can read it,
+          ask follow-up questions or share it with your vet from PashuCare.
+        </p>
+
+        <p style={{ marginBottom: "24px" }}>
+          <a
+            href={reportUrl}
+            style={{
+              display: "inline-block",
+              backgroundColor: "#c59a2e",
+              color: "#ffffff",
+              padding: "10px 20px",
+              borderRadius: "8px",
+              textDecoration: "none",
+              fontWeight: 600,
+            }}
+          >
+            View the analysis
+          </a>
+        </p>
+
+        <hr
+          style={{
+            border: "none",
+            borderTop: "1px solid #e5e7eb",
+            margin: "24px 0",
+          }}
+        />
+
+        <p
+          style={{
+            fontSize: "12px",
+            color: "#6b7280",
+            marginTop: "32px",
+          }}
+        >
+          You are receiving this because you turned on analysis emails in
+          PashuCare. You can turn them off from the account menu.
+        </p>
+      </div>
+    </div>
+  );
+}
+
+interface ReportAnalysisEmailTemplateProps {
+  ownerName: string;
+  fileName: string;
+  analysis: string;
+  note?: string;
+}
+
+export function ReportAnalysisEmailTemplate({
+  ownerName,
+  fileName,
+  analysis,
+  note,
+}: ReportAnalysisEmailTemplateProps) {
+  return (
+    <div
+      style={{
+        fontFamily:
+          "-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Arial, sans-serif",
+        backgroundColor: "#ffffff",
+        color: "#111827",
+        lineHeight: "1.6",
+        padding: "24px",
+      }}
+    >
+      <div style={{ maxWidth: "560px", margin: "0 auto" }}>
+        <h1
+          style={{
+            fontSize: "20px",
+            fontWeight: 600,
+            marginBottom: "16px",
+          }}
+        >
+          Report analysis: {fileName}
+        </h1>
+
+        <p style={{ marginBottom: "16px" }}>
+          {ownerName} shared the analysis of a medical report from{" "}
+          <strong>PashuCare</strong>. The original report is attached.
+        </p>
+
+        {note && (
+          <p
+            style={{
+              marginBottom: "16px",
+              padding: "12px 16px",
+              backgroundColor: "#f9fafb",
+              borderLeft: "3px solid #c59a2e",
+              whiteSpace: "pre-wrap",
+            }}
+          >
+            {note}
+          </p>
+        )}
+
+        <div style={{ fontSize: "14px" }}>
+          <Markdown remarkPlugins={[remarkGfm]}>{analysis}</Markdown>
+        </div>
+
+        <hr
+          style={{
+            border: "none",
+            borderTop: "1px solid #e5e7eb",
+            margin: "24px 0",
+          }}
+        />
+
+        <p
+          style={{
+            fontSize: "12px",
+            color: "#6b7280",
+            marginTop: "32px",
+          }}
+        >
+          The analysis was generated by PashuCare AI from the uploaded report.
+          It is not a diagnosis and does not replace your examination.
+        </p>
+      </div>
+    </div>
+  );
+}
+
+interface SupportForwardEmailTemplateProps {
+  name: string;
+  email: string;
+  message: string;
+  ticketUrl: string;
+}
+
+export function SupportForwardEmailTemplate({
+  name,
+  email,
+  message,
+  ticketUrl,
+}: SupportForwardEmailTemplateProps) {
+  return (
+    <div
+      style={{
+        fontFamily:
+          "-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Arial, sans-serif",
+        backgroundColor: "#ffffff",
+        color: "#111827",
+        lineHeight: "1.6",
+        padding: "24px",
+      }}
+    >
+      <div style={{ maxWidth: "560px", margin: "0 auto" }}>
+        <h1
+          style={{
+            fontSize: "20px",
+            fontWeight: 600,
+            marginBottom: "16px",
+          }}
+        >
+          New contact form message
+        </h1>
+
+        <p style={{ marginBottom: "16px" }}>
+          From <strong>{name}</strong> ({email})
+        </p>
+
+        <p
+          style={{
+            marginBottom: "16px",
+            padding: "12px 16px",
+            backgroundColor: "#f9fafb",
+            borderLeft: "3px solid #c59a2e",
+            whiteSpace: "pre-wrap",
+          }}
+        >
+          {message}
+        </p>
+
+        <p style={{ marginBottom: "16px" }}>
+          <a href={ticketUrl}>Open the ticket</a> to reply and track its status.
+        </p>
+      </div>
+    </div>
+  );
+}
+
+interface SupportReplyEmailTemplateProps {
+  firstName: string;
+  reply: string;
+  originalMessage: string;
+}
+
+export function SupportReplyEmailTemplate({
+  firstName,
+  reply,
+  originalMessage,
+}: SupportReplyEmailTemplateProps) {
+  return (
+    <div
+      style={{
+        fontFamily:
+          "-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Arial, sans-serif",
+        backgroundColor: "#ffffff",
+        color: "#111827",
+        lineHeight: "1.6",
+        padding: "24px",
+      }}
+    >
+      <div style={{ maxWidth: "560px", margin: "0 auto" }}>
+        <h1
+          style={{
+            fontSize: "20px",
+            fontWeight: 600,
+            marginBottom: "16px",
+          }}
+        >
+          Hello {firstName},
+        </h1>
+
+        <p style={{ marginBottom: "16px", whiteSpace: "pre-wrap" }}>{reply}</p>
+
+        <p style={{ marginTop: "24px" }}>
+          With care,
+          <br />
+          <strong>The PashuCare Team</strong>
+        </p>
+
+        <hr
+          style={{
+            border: "none",
+            borderTop: "1px solid #e5e7eb",
+            margin: "24px 0",
+          }}
+        />
+
+        <p style={{ fontSize: "12px", color: "#6b7280", marginBottom: "8px" }}>
+          Your original message:
+        </p>
+        <p
+          style={{
+            fontSize: "12px",
+            color: "#6b7280",
+            whiteSpace: "pre-wrap",
+          }}
+        >
+          {originalMessage}
+        </p>
+      </div>
+    </div>
+  );
+}
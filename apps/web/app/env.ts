@@ -6,12 +6,33 @@ export const env = createEnv({
     CLERK_JWT_ISSUER_DOMAIN: z
       .string()
       .min(1, "CLERK_JWT_ISSUER_DOMAIN is required"),
-    RESEND_API_KEY: z.string().min(1, "RESEND_API_KEY is required"),
+    // Required unless EMAIL_TRANSPORT is "local", see lib/mailer
+    RESEND_API_KEY: z.string().min(1).optional(),
+    // "local" captures emails in memory instead of sending them
+    EMAIL_TRANSPORT: z.enum(["resend", "local"]).default("resend"),
+    // Contact form submissions are forwarded here
+    SUPPORT_INBOX: z.email().default("support@pashucare.com"),
     CONVEX_DEPLOYMENT: z
       .string()
       .min(1, "CONVEX_DEPLOYMENT, is requried")
       .optional(),
-    MOONSHOTAI_API_KEY: z.string().min(1, "MOONSHOTAI_API_KEY is required"),
+    MOONSHOTAI_API_KEY: z
+      .string()
+      .min(1, "MOONSHOTAI_API_KEY is required")
+      .optional(),
+    // LLM provider, see lib/llm. "mock" runs fully offline.
+    LLM_PROVIDER: z
+      .enum(["openai", "anthropic", "ollama", "mock"])
+      .default("openai"),
+    LLM_BASE_URL: z.url().optional(),
+    LLM_API_KEY: z.string().min(1).optional(),
+    LLM_CHAT_MODEL: z.string().min(1).optional(),
+    LLM_REPORT_MODEL: z.string().min(1).optional(),
+    LLM_VISION_MODEL: z.string().min(1).optional(),
+    // Must match CONVEX_SERVER_SECRET in the Convex dashboard
+    CONVEX_SERVER_SECRET: z
+      .string()
+      .min(32, "CONVEX_SERVER_SECRET must be at least 32 characters"),
   },
   client: {
     NEXT_PUBLIC_CONVEX_URL: z
@@ -21,16 +42,30 @@ export const env = createEnv({
       .string()
       .min(1, "NEXT_PUBLIC_CONVEX_SITE_URL is required")
       .optional(),
+    // Public address of the app, used for links in emails
+    NEXT_PUBLIC_APP_URL: z.url("NEXT_PUBLIC_APP_URL must be a URL"),
   },
   // If you're using Next.js < 13.4.4, you'll need to specify the runtimeEnv manually
   runtimeEnv: {
     RESEND_API_KEY: process.env.RESEND_API_KEY,
+    EMAIL_TRANSPORT: process.env.EMAIL_TRANSPORT,
+    SUPPORT_INBOX: process.env.SUPPORT_INBOX,
     MOONSHOTAI_API_KEY: process.env.MOONSHOTAI_API_KEY,
+    LLM_PROVIDER: process.env.LLM_PROVIDER,
+    LLM_BASE_URL: process.env.LLM_BASE_URL,
+    LLM_API_KEY: process.env.LLM_API_KEY,
+    LLM_CHAT_MODEL: process.env.LLM_CHAT_MODEL,
+    LLM_REPORT_MODEL: process.env.LLM_REPORT_MODEL,
+    LLM_VISION_MODEL: process.env.LLM_VISION_MODEL,
+    CONVEX_SERVER_SECRET: process.env.CONVEX_SERVER_SECRET,
     CONVEX_DEPLOYMENT: process.env.CONVEX_DEPLOYMENT,
     NEXT_PUBLIC_CONVEX_URL: process.env.NEXT_PUBLIC_CONVEX_URL,
     NEXT_PUBLIC_CONVEX_SITE_URL: process.env.NEXT_PUBLIC_CONVEX_SITE_URL,
+    NEXT_PUBLIC_APP_URL: process.env.NEXT_PUBLIC_APP_URL,
     CLERK_JWT_ISSUER_DOMAIN: process.env.CLERK_JWT_ISSUER_DOMAIN,
   },
+  // Blank entries copied from env.local.example count as unset
+  emptyStringAsUndefined: true,
   onValidationError: (issues) => {
     console.error("❌ Invalid environment variables:", issues);
     throw new Error("Invalid environment variables");
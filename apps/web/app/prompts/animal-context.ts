@@ -0,0 +1,37 @@
+import { Doc } from "@/convex/_generated/dataModel";
+
+function formatAge(dateOfBirth: number): string {
+  const months = Math.floor(
+    (Date.now() - dateOfBirth) / (1000 * 60 * 60 * 24 * 30.44),
+  );
+  if (months < 1) return "under 1 month";
+  if (months < 24) return `${months} months`;
+  return `${Math.floor(months / 12)} years`;
+}
+
+/**
+ * Builds the patient profile block that is sent to the model as an extra
+ * system message, so the owner doesn't have to repeat signalment every chat.
+ */
+export function buildAnimalContext(animal: Doc<"animals">): string {
+  const latestWeight = animal.weightHistory.at(-1);
+
+  const lines = [
+    `- Name: ${animal.name}`,
+    `- Species: ${animal.species}`,
+    animal.breed && `- Breed: ${animal.breed}`,
+    `- Sex: ${animal.sex}`,
+    animal.isNeutered !== undefined &&
+      `- Neutered/Spayed: ${animal.isNeutered ? "yes" : "no"}`,
+    animal.dateOfBirth && `- Age: ${formatAge(animal.dateOfBirth)}`,
+    latestWeight &&
+      `- Weight: ${latestWeight.weightKg} kg (recorded ${new Date(latestWeight.recordedAt).toISOString().slice(0, 10)})`,
+    animal.weightHistory.length > 1 &&
+      `- Weight history (kg): ${animal.weightHistory.map((w) => w.weightKg).join(" → ")}`,
+  ].filter(Boolean);
+
+  return `## PATIENT PROFILE
+The owner is asking about this animal. Use the profile for dosing, breed and age specific risks. Do not ask for details already listed here.
+
+${lines.join("\n")}`;
+}
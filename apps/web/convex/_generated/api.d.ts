@@ -9,8 +9,26 @@
  */
 
 import type * as analytics from "../analytics.js";
+import type * as animals from "../animals.js";
+import type * as archive from "../archive.js";
+import type * as attachments from "../attachments.js";
+import type * as auth from "../auth.js";
 import type * as chats from "../chats.js";
+import type * as crons from "../crons.js";
+import type * as emails from "../emails.js";
+import type * as emergency from "../emergency.js";
+import type * as labs from "../labs.js";
+import type * as migrations from "../migrations.js";
+import type * as notes from "../notes.js";
+import type * as rateLimits from "../rateLimits.js";
+import type * as retention from "../retention.js";
+import type * as settings from "../settings.js";
+import type * as shares from "../shares.js";
+import type * as support from "../support.js";
+import type * as triage from "../triage.js";
 import type * as uploader from "../uploader.js";
+import type * as usage from "../usage.js";
+import type * as vetSummaries from "../vetSummaries.js";
 
 import type {
   ApiFromModules,
@@ -20,8 +38,26 @@ import type {
 
 declare const fullApi: ApiFromModules<{
   analytics: typeof analytics;
+  animals: typeof animals;
+  archive: typeof archive;
+  attachments: typeof attachments;
+  auth: typeof auth;
   chats: typeof chats;
+  crons: typeof crons;
+  emails: typeof emails;
+  emergency: typeof emergency;
+  labs: typeof labs;
+  migrations: typeof migrations;
+  notes: typeof notes;
+  rateLimits: typeof rateLimits;
+  retention: typeof retention;
+  settings: typeof settings;
+  shares: typeof shares;
+  support: typeof support;
+  triage: typeof triage;
   uploader: typeof uploader;
+  usage: typeof usage;
+  vetSummaries: typeof vetSummaries;
 }>;
 
 /**
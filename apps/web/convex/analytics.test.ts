@@ -0,0 +1,101 @@
+import { describe, expect, test } from "vitest";
+import { api } from "./_generated/api";
+import { seedAnimal, seedChat, seedReport, setup } from "./test.setup";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe("analytics: other users' data", () => {
+  test("getDashboardOverview counts only the caller's data", async () => {
+    const { t, alice, bob } = setup();
+    const { chatId } = await seedChat(t, "user_alice");
+    await t.run((ctx) => ctx.db.patch(chatId, { urgentAt: Date.now() }));
+    await seedReport(t, "user_alice");
+
+    const urgentSince = Date.now() - 30 * DAY_MS;
+    const aliceStats = (
+      await alice.query(api.analytics.getDashboardOverview, { urgentSince })
+    ).stats;
+    expect(aliceStats).toMatchObject({
+      totalChats: 1,
+      totalMessages: 1,
+      totalReports: 1,
+      pendingAnalyses: 1,
+      urgentLast30Days: 1,
+    });
+
+    const bobStats = (
+      await bob.query(api.analytics.getDashboardOverview, { urgentSince })
+    ).stats;
+    expect(bobStats).toMatchObject({
+      totalChats: 0,
+      totalMessages: 0,
+      totalReports: 0,
+      pendingAnalyses: 0,
+      urgentLast30Days: 0,
+    });
+  });
+
+  test("getDashboardOverview has no timeline for another user's animal", async () => {
+    const { t, alice, bob } = setup();
+    const animalId = await seedAnimal(t, "user_alice");
+    const urgentSince = Date.now() - 30 * DAY_MS;
+
+    const own = await alice.query(api.analytics.getDashboardOverview, {
+      animalId,
+      urgentSince,
+    });
+    expect(own.timeline).toEqual([]);
+
+    const other = await bob.query(api.analytics.getDashboardOverview, {
+      animalId,
+      urgentSince,
+    });
+    expect(other.timeline).toBeNull();
+  });
+
+  test("getMessageActivityByDay counts only the caller's messages", async () => {
+    const { t, alice, bob } = setup();
+    const { chatId } = await seedChat(t, "user_alice");
+    await alice.mutation(api.chats.createMessage, { chatId, content: "Hi" });
+
+    const total = (days: { userMessages: number }[]) =>
+      days.reduce((sum, day) => sum + day.userMessages, 0);
+
+    expect(
+      total(
+        await alice.query(api.analytics.getMessageActivityByDay, {
+          days: 7,
+          now: Date.now(),
+        }),
+      ),
+    ).toBe(1);
+    expect(
+      total(
+        await bob.query(api.analytics.getMessageActivityByDay, {
+          days: 7,
+          now: Date.now(),
+        }),
+      ),
+    ).toBe(0);
+  });
+
+  test("getMessageActivityByDay ends the range on the given day", async () => {
+    const { t, alice } = setup();
+    const { chatId } = await seedChat(t, "user_alice");
+    await alice.mutation(api.chats.createMessage, { chatId, content: "Hi" });
+
+    const later = await alice.query(api.analytics.getMessageActivityByDay, {
+      days: 7,
+      now: Date.now() + 10 * 24 * 60 * 60 * 1000,
+    });
+    expect(later.every((day) => day.userMessages === 0)).toBe(true);
+  });
+
+  test("signed-out callers are rejected", async () => {
+    const { t } = setup();
+
+    await expect(
+      t.query(api.analytics.getDashboardOverview, { urgentSince: 0 }),
+    ).rejects.toThrow("UNAUTHENTICATED");
+  });
+});
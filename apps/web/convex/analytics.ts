@@ -1,104 +1,159 @@
 // convex/analytics.ts
-import { query } from "./_generated/server";
 import { v } from "convex/values";
+import { query } from "./_generated/server";
+import { getOwned, requireUserId } from "./auth";
+import { dayKey, getUserTimeZone, shiftDay } from "./usage";
+
+// Dashboard counts stop here, the cards show "1,000+" beyond it
+const STATS_COUNT_LIMIT = 1000;
+
+// Per kind, the merged timeline is cut to the same length
+const TIMELINE_LIMIT = 100;
 
 /**
- * Get dashboard statistics for a user
- * Returns total active chats and total messages
+ * Dashboard cards for the signed-in user and, when `animalId` is passed, that
+ * animal's health timeline: chats, reports and notes, newest first.
+ * `urgentSince` starts the urgent triage window, passed in so the cached
+ * result doesn't depend on when it was computed.
  */
-export const getDashboardStats = query({
+export const getDashboardOverview = query({
   args: {
-    userId: v.string(),
+    animalId: v.optional(v.id("animals")),
+    urgentSince: v.number(),
   },
-  handler: async (ctx, { userId }) => {
-    // Get all active chats for the user
+  handler: async (ctx, { animalId, urgentSince }) => {
+    const userId = await requireUserId(ctx);
+
     const chats = await ctx.db
       .query("chats")
+      .withIndex("by_user_active", (q) =>
+        q.eq("userId", userId).eq("isDeleted", false),
+      )
+      .order("desc")
+      .take(STATS_COUNT_LIMIT);
+
+    const urgentChats = await ctx.db
+      .query("chats")
+      .withIndex("by_user_urgent", (q) =>
+        q
+          .eq("userId", userId)
+          .eq("isDeleted", false)
+          .gte("urgentAt", urgentSince),
+      )
+      .take(STATS_COUNT_LIMIT);
+
+    const reports = await ctx.db
+      .query("reports")
       .withIndex("by_user", (q) => q.eq("userId", userId))
-      .filter((q) => q.eq(q.field("isDeleted"), false))
-      .collect();
+      .order("desc")
+      .take(STATS_COUNT_LIMIT);
 
-    const totalChats = chats.length;
-    const totalMessages = chats.reduce(
-      (sum, chat) => sum + chat.messageCount,
-      0,
-    );
+    // Reminders not marked done, overdue ones included, soonest first
+    const reminders = await ctx.db
+      .query("healthNotes")
+      .withIndex("by_user_reminder", (q) =>
+        q.eq("userId", userId).eq("doneAt", undefined).gt("remindAt", 0),
+      )
+      .take(STATS_COUNT_LIMIT);
 
-    return {
-      totalChats,
-      totalMessages,
+    const stats = {
+      totalChats: chats.length,
+      totalMessages: chats.reduce((sum, chat) => sum + chat.messageCount, 0),
+      totalReports: reports.length,
+      pendingAnalyses: reports.filter((report) => !report.analysis).length,
+      urgentLast30Days: urgentChats.length,
+      upcomingReminders: reminders.length,
+      nextReminderAt: reminders[0]?.remindAt ?? null,
+      countLimit: STATS_COUNT_LIMIT,
     };
+
+    const animal = animalId ? await getOwned(ctx, animalId, userId) : null;
+    if (!animal) return { stats, timeline: null };
+
+    const [animalChats, animalReports, notes] = await Promise.all([
+      ctx.db
+        .query("chats")
+        .withIndex("by_animal", (q) => q.eq("animalId", animal._id))
+        .filter((q) => q.eq(q.field("isDeleted"), false))
+        .order("desc")
+        .take(TIMELINE_LIMIT),
+      ctx.db
+        .query("reports")
+        .withIndex("by_animal", (q) => q.eq("animalId", animal._id))
+        .order("desc")
+        .take(TIMELINE_LIMIT),
+      ctx.db
+        .query("healthNotes")
+        .withIndex("by_animal", (q) => q.eq("animalId", animal._id))
+        .order("desc")
+        .take(TIMELINE_LIMIT),
+    ]);
+
+    const timeline = [
+      ...animalChats.map((chat) => ({
+        kind: "chat" as const,
+        id: chat._id,
+        at: chat.createdAt,
+        title: chat.name,
+        urgent: !!chat.urgentAt,
+      })),
+      ...animalReports.map((report) => ({
+        kind: "report" as const,
+        id: report._id,
+        at: report.createdAt,
+        title: report.fileName,
+        pending: !report.analysis,
+      })),
+      ...notes.map((note) => ({
+        kind: "note" as const,
+        id: note._id,
+        at: note.createdAt,
+        title: note.body,
+        remindAt: note.remindAt ?? null,
+        done: !!note.doneAt,
+      })),
+    ]
+      .sort((a, b) => b.at - a.at)
+      .slice(0, TIMELINE_LIMIT);
+
+    return { stats, timeline };
   },
 });
 
+export const activityRangeValidator = v.union(
+  v.literal(7),
+  v.literal(30),
+  v.literal(90),
+);
+
 /**
- * Get message activity grouped by day for the last 7 days
- * Returns data formatted for area chart visualization
+ * Message counts per day for the `days` days up to `now`, read from the
+ * dailyUsage rollups. Days are "YYYY-MM-DD" in the user's time zone, oldest
+ * first. `now` is passed in like `urgentSince` above.
  */
 export const getMessageActivityByDay = query({
-  args: {
-    userId: v.string(),
-  },
-  handler: async (ctx, { userId }) => {
-    // Calculate date range (last 7 days)
-    const now = Date.now();
-    const sevenDaysAgo = now - 7 * 24 * 60 * 60 * 1000;
+  args: { days: activityRangeValidator, now: v.number() },
+  handler: async (ctx, { days, now }) => {
+    const userId = await requireUserId(ctx);
 
-    // Get all active chats for the user
-    const chats = await ctx.db
-      .query("chats")
-      .withIndex("by_user", (q) => q.eq("userId", userId))
-      .filter((q) => q.eq(q.field("isDeleted"), false))
+    const timeZone = await getUserTimeZone(ctx, userId);
+    const start = shiftDay(dayKey(now, timeZone), -(days - 1));
+
+    const rows = await ctx.db
+      .query("dailyUsage")
+      .withIndex("by_user_day", (q) => q.eq("userId", userId).gte("day", start))
       .collect();
+    const byDay = new Map(rows.map((row) => [row.day, row]));
 
-    const chatIds = chats.map((chat) => chat._id);
-
-    // Get all messages from the last 7 days
-    const messagesByDay: Record<
-      string,
-      { userMessages: number; assistantMessages: number }
-    > = {};
-
-    // Initialize all 7 days with zero counts
-    for (let i = 6; i >= 0; i--) {
-      const date = new Date(now - i * 24 * 60 * 60 * 1000);
-      const dateKey = date.toLocaleDateString("en-US", {
-        month: "short",
-        day: "numeric",
-      });
-      messagesByDay[dateKey] = { userMessages: 0, assistantMessages: 0 };
-    }
-
-    // Fetch messages for each chat and aggregate by day
-    for (const chatId of chatIds) {
-      const messages = await ctx.db
-        .query("messages")
-        .withIndex("by_chat", (q) => q.eq("chatId", chatId))
-        .filter((q) => q.gte(q.field("createdAt"), sevenDaysAgo))
-        .collect();
-
-      for (const message of messages) {
-        const date = new Date(message.createdAt);
-        const dateKey = date.toLocaleDateString("en-US", {
-          month: "short",
-          day: "numeric",
-        });
-
-        if (messagesByDay[dateKey]) {
-          if (message.role === "user") {
-            messagesByDay[dateKey].userMessages++;
-          } else if (message.role === "assistant") {
-            messagesByDay[dateKey].assistantMessages++;
-          }
-        }
-      }
-    }
-
-    // Convert to array format for chart
-    return Object.entries(messagesByDay).map(([date, counts]) => ({
-      date,
-      userMessages: counts.userMessages,
-      assistantMessages: counts.assistantMessages,
-    }));
+    // Days without activity have no row
+    return Array.from({ length: days }, (_, i) => {
+      const date = shiftDay(start, i);
+      const row = byDay.get(date);
+      return {
+        date,
+        userMessages: row?.userMessages ?? 0,
+        assistantMessages: row?.assistantMessages ?? 0,
+      };
+    });
   },
 });
@@ -0,0 +1,38 @@
+import { describe, expect, test } from "vitest";
+import { api } from "./_generated/api";
+import { seedAnimal, setup } from "./test.setup";
+
+describe("animals: other users' profiles", () => {
+  test("mutations throw FORBIDDEN and queries return nothing", async () => {
+    const { t, bob } = setup();
+    const id = await seedAnimal(t, "user_alice");
+
+    await expect(
+      bob.mutation(api.animals.updateAnimal, { id, name: "Rex" }),
+    ).rejects.toThrow("FORBIDDEN");
+    await expect(
+      bob.mutation(api.animals.recordWeight, { id, weightKg: 12 }),
+    ).rejects.toThrow("FORBIDDEN");
+    await expect(
+      bob.mutation(api.animals.deleteAnimal, { id }),
+    ).rejects.toThrow("FORBIDDEN");
+
+    expect(await bob.query(api.animals.getAnimal, { id })).toBeNull();
+    expect(await bob.query(api.animals.getUserAnimals, {})).toEqual([]);
+    expect(
+      await bob.query(api.labs.getAnimalLabTrends, { animalId: id }),
+    ).toBeNull();
+  });
+
+  test("signed-out callers are rejected", async () => {
+    const { t } = setup();
+
+    await expect(
+      t.mutation(api.animals.createAnimal, {
+        name: "Rex",
+        species: "Dog",
+        sex: "male",
+      }),
+    ).rejects.toThrow("UNAUTHENTICATED");
+  });
+});
@@ -0,0 +1,205 @@
+// convex/animals.ts
+import { v } from "convex/values";
+import { query, mutation } from "./_generated/server";
+import {
+  getOwned,
+  getUserId,
+  requireOwned,
+  requireOwnedFile,
+  requireUserId,
+} from "./auth";
+import { deleteFile } from "./retention";
+
+const sexValidator = v.union(
+  v.literal("male"),
+  v.literal("female"),
+  v.literal("unknown"),
+);
+
+// ==================== QUERIES ====================
+
+export const getUserAnimals = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getUserId(ctx);
+    // Return empty array instead of throwing error
+    if (!userId) return [];
+
+    const animals = await ctx.db
+      .query("animals")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .order("desc")
+      .collect();
+
+    return Promise.all(
+      animals.map(async (animal) => ({
+        ...animal,
+        photoUrl: animal.photoId
+          ? await ctx.storage.getUrl(animal.photoId)
+          : null,
+      })),
+    );
+  },
+});
+
+export const getAnimal = query({
+  args: { id: v.id("animals") },
+  handler: async (ctx, args) => {
+    const animal = await getOwned(ctx, args.id, await getUserId(ctx));
+    if (!animal) return null;
+
+    return {
+      ...animal,
+      photoUrl: animal.photoId
+        ? await ctx.storage.getUrl(animal.photoId)
+        : null,
+    };
+  },
+});
+
+// ==================== MUTATIONS ====================
+
+export const createAnimal = mutation({
+  args: {
+    name: v.string(),
+    species: v.string(),
+    breed: v.optional(v.string()),
+    sex: sexValidator,
+    dateOfBirth: v.optional(v.number()),
+    isNeutered: v.optional(v.boolean()),
+    weightKg: v.optional(v.number()),
+    photoId: v.optional(v.id("_storage")),
+  },
+  returns: v.id("animals"),
+  handler: async (ctx, { weightKg, ...args }) => {
+    const userId = await requireUserId(ctx);
+
+    if (args.photoId) {
+      await requireOwnedFile(ctx, args.photoId, userId);
+    }
+
+    if (!args.name.trim() || !args.species.trim()) {
+      throw new Error("Name and species are required");
+    }
+
+    const now = Date.now();
+
+    return await ctx.db.insert("animals", {
+      ...args,
+      name: args.name.trim(),
+      species: args.species.trim(),
+      breed: args.breed?.trim() || undefined,
+      userId,
+      weightHistory:
+        weightKg !== undefined ? [{ weightKg, recordedAt: now }] : [],
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+export const updateAnimal = mutation({
+  args: {
+    id: v.id("animals"),
+    name: v.optional(v.string()),
+    species: v.optional(v.string()),
+    breed: v.optional(v.string()),
+    sex: v.optional(sexValidator),
+    dateOfBirth: v.optional(v.number()),
+    isNeutered: v.optional(v.boolean()),
+    photoId: v.optional(v.id("_storage")),
+  },
+  returns: v.null(),
+  handler: async (ctx, { id, ...updates }) => {
+    const userId = await requireUserId(ctx);
+    const animal = await requireOwned(ctx, "animals", id, userId);
+
+    // Replacing the photo frees the old file
+    if (updates.photoId && updates.photoId !== animal.photoId) {
+      await requireOwnedFile(ctx, updates.photoId, userId);
+      if (animal.photoId) {
+        await deleteFile(ctx, animal.photoId, userId);
+      }
+    }
+
+    await ctx.db.patch(id, {
+      ...updates,
+      updatedAt: Date.now(),
+    });
+
+    return null;
+  },
+});
+
+export const recordWeight = mutation({
+  args: {
+    id: v.id("animals"),
+    weightKg: v.number(),
+  },
+  returns: v.null(),
+  handler: async (ctx, { id, weightKg }) => {
+    const userId = await requireUserId(ctx);
+    const animal = await requireOwned(ctx, "animals", id, userId);
+
+    if (weightKg <= 0) throw new Error("Weight must be positive");
+
+    const now = Date.now();
+
+    await ctx.db.patch(id, {
+      weightHistory: [...animal.weightHistory, { weightKg, recordedAt: now }],
+      updatedAt: now,
+    });
+
+    return null;
+  },
+});
+
+export const deleteAnimal = mutation({
+  args: { id: v.id("animals") },
+  returns: v.null(),
+  handler: async (ctx, { id }) => {
+    const userId = await requireUserId(ctx);
+    const animal = await requireOwned(ctx, "animals", id, userId);
+
+    // Unlink chats, reports and lab values, they outlive the profile
+    const chats = await ctx.db
+      .query("chats")
+      .withIndex("by_animal", (q) => q.eq("animalId", id))
+      .collect();
+    for (const chat of chats) {
+      await ctx.db.patch(chat._id, { animalId: undefined });
+    }
+
+    const reports = await ctx.db
+      .query("reports")
+      .withIndex("by_animal", (q) => q.eq("animalId", id))
+      .collect();
+    for (const report of reports) {
+      await ctx.db.patch(report._id, { animalId: undefined });
+    }
+
+    const labResults = await ctx.db
+      .query("labResults")
+      .withIndex("by_animal_analyte", (q) => q.eq("animalId", id))
+      .collect();
+    for (const row of labResults) {
+      await ctx.db.patch(row._id, { animalId: undefined });
+    }
+
+    // Notes only make sense on the profile
+    const notes = await ctx.db
+      .query("healthNotes")
+      .withIndex("by_animal", (q) => q.eq("animalId", id))
+      .collect();
+    for (const note of notes) {
+      await ctx.db.delete(note._id);
+    }
+
+    if (animal.photoId) {
+      await deleteFile(ctx, animal.photoId, userId);
+    }
+    await ctx.db.delete(id);
+
+    return null;
+  },
+});
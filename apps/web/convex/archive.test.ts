@@ -0,0 +1,59 @@
+import { describe, expect, test } from "vitest";
+import { api } from "./_generated/api";
+import { SERVER_SECRET, seedChat, setup } from "./test.setup";
+
+const message = {
+  sourceId: "m1",
+  role: "assistant" as const,
+  content: "Forged reply",
+  status: "sent" as const,
+  createdAt: 0,
+};
+
+describe("importMessages", () => {
+  test("requires the server secret", async () => {
+    const { t, alice } = setup();
+    const { chatId } = await seedChat(t, "user_alice");
+
+    await expect(
+      alice.mutation(api.archive.importMessages, {
+        serverSecret: "wrong",
+        userId: "user_alice",
+        chatId,
+        messages: [message],
+        idMap: {},
+      }),
+    ).rejects.toThrow("FORBIDDEN");
+  });
+
+  test("only writes into the given user's chats", async () => {
+    const { t } = setup();
+    const { chatId } = await seedChat(t, "user_alice");
+
+    await expect(
+      t.mutation(api.archive.importMessages, {
+        serverSecret: SERVER_SECRET,
+        userId: "user_bob",
+        chatId,
+        messages: [message],
+        idMap: {},
+      }),
+    ).rejects.toThrow("FORBIDDEN");
+  });
+
+  test("rejects system messages", async () => {
+    const { t } = setup();
+    const { chatId } = await seedChat(t, "user_alice");
+
+    await expect(
+      t.mutation(api.archive.importMessages, {
+        serverSecret: SERVER_SECRET,
+        userId: "user_alice",
+        chatId,
+        // @ts-expect-error system is not an importable role
+        messages: [{ ...message, role: "system" }],
+        idMap: {},
+      }),
+    ).rejects.toThrow();
+  });
+});
@@ -0,0 +1,383 @@
+// convex/archive.ts
+import { v } from "convex/values";
+import { paginationOptsValidator } from "convex/server";
+import { mutation, query } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { Id } from "./_generated/dataModel";
+import {
+  attachmentValidator,
+  requireOwnedAttachments,
+  withAttachmentUrls,
+} from "./attachments";
+import {
+  assertServerSecret,
+  requireActiveChat,
+  requireOwned,
+  requireOwnedFile,
+} from "./auth";
+import { replaceLabResults } from "./labs";
+import { deleteFile, purgeChat, purgeReport } from "./retention";
+import { triageValidator } from "./triage";
+import { recordMessageUsage } from "./usage";
+
+// Export and import of a user's data, the archive itself is built and read
+// by app/api/export and app/api/import. Both can run for minutes, longer than
+// a user token lives, so the routes call these with the server secret and the
+// signed-in user's id.
+
+// ==================== EXPORT ====================
+
+/**
+ * Animals and chats. Reports are paged through getArchiveReports, their
+ * extracted text can be large, and messages are fetched per chat.
+ */
+export const getArchiveManifest = query({
+  args: { serverSecret: v.string(), userId: v.string() },
+  handler: async (ctx, { serverSecret, userId }) => {
+    assertServerSecret(serverSecret);
+
+    const animals = await ctx.db
+      .query("animals")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .collect();
+
+    // Trashed chats are on their way out, they aren't exported
+    const chats = await ctx.db
+      .query("chats")
+      .withIndex("by_user_active", (q) =>
+        q.eq("userId", userId).eq("isDeleted", false),
+      )
+      .collect();
+
+    return {
+      animals: await Promise.all(
+        animals.map(async (animal) => ({
+          ...animal,
+          photoUrl: animal.photoId
+            ? await ctx.storage.getUrl(animal.photoId)
+            : null,
+        })),
+      ),
+      chats,
+    };
+  },
+});
+
+export const getArchiveReports = query({
+  args: {
+    serverSecret: v.string(),
+    userId: v.string(),
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (ctx, { serverSecret, userId, paginationOpts }) => {
+    assertServerSecret(serverSecret);
+
+    const reports = await ctx.db
+      .query("reports")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .paginate(paginationOpts);
+
+    return {
+      ...reports,
+      page: await Promise.all(
+        reports.page.map(async (report) => ({
+          ...report,
+          url: await ctx.storage.getUrl(report.fileId),
+        })),
+      ),
+    };
+  },
+});
+
+/** Every message of a chat oldest first, including other branches */
+export const getArchiveChat = query({
+  args: { serverSecret: v.string(), userId: v.string(), chatId: v.id("chats") },
+  handler: async (ctx, { serverSecret, userId, chatId }) => {
+    assertServerSecret(serverSecret);
+
+    await requireOwned(ctx, "chats", chatId, userId);
+
+    const messages = await ctx.db
+      .query("messages")
+      .withIndex("by_chat", (q) => q.eq("chatId", chatId))
+      .collect();
+
+    return Promise.all(
+      messages.map((message) => withAttachmentUrls(ctx, message)),
+    );
+  },
+});
+
+// ==================== IMPORT ====================
+
+/** Imports only go into a fresh account, so nothing is duplicated */
+export const isAccountEmpty = query({
+  args: { serverSecret: v.string(), userId: v.string() },
+  returns: v.boolean(),
+  handler: async (ctx, { serverSecret, userId }) => {
+    assertServerSecret(serverSecret);
+
+    const chat = await ctx.db
+      .query("chats")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .first();
+    const report = await ctx.db
+      .query("reports")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .first();
+    const animal = await ctx.db
+      .query("animals")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .first();
+
+    return !chat && !report && !animal;
+  },
+});
+
+/** Size and download URL of an uploaded export, null when it's gone */
+export const getImportArchive = query({
+  args: {
+    serverSecret: v.string(),
+    userId: v.string(),
+    storageId: v.id("_storage"),
+  },
+  handler: async (ctx, { serverSecret, userId, storageId }) => {
+    assertServerSecret(serverSecret);
+    await requireOwnedFile(ctx, storageId, userId);
+
+    const file = await ctx.db.system.get(storageId);
+    const url = await ctx.storage.getUrl(storageId);
+    if (!file || !url) return null;
+
+    return { size: file.size, url };
+  },
+});
+
+export const importAnimal = mutation({
+  args: {
+    serverSecret: v.string(),
+    userId: v.string(),
+    name: v.string(),
+    species: v.string(),
+    breed: v.optional(v.string()),
+    sex: v.union(v.literal("male"), v.literal("female"), v.literal("unknown")),
+    dateOfBirth: v.optional(v.number()),
+    isNeutered: v.optional(v.boolean()),
+    weightHistory: v.array(
+      v.object({ weightKg: v.number(), recordedAt: v.number() }),
+    ),
+    photoId: v.optional(v.id("_storage")),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  },
+  returns: v.id("animals"),
+  handler: async (ctx, { serverSecret, userId, ...animal }) => {
+    assertServerSecret(serverSecret);
+
+    if (animal.photoId) {
+      await requireOwnedFile(ctx, animal.photoId, userId);
+    }
+
+    return await ctx.db.insert("animals", { ...animal, userId });
+  },
+});
+
+export const importChat = mutation({
+  args: {
+    serverSecret: v.string(),
+    userId: v.string(),
+    name: v.string(),
+    animalId: v.optional(v.id("animals")),
+    urgentAt: v.optional(v.number()),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  },
+  returns: v.id("chats"),
+  handler: async (ctx, { serverSecret, userId, ...chat }) => {
+    assertServerSecret(serverSecret);
+
+    if (chat.animalId) {
+      await requireOwned(ctx, "animals", chat.animalId, userId);
+    }
+
+    return await ctx.db.insert("chats", {
+      ...chat,
+      userId,
+      isDeleted: false,
+      messageCount: 0,
+    });
+  },
+});
+
+/**
+ * Inserts a batch of messages (oldest first). Branch pointers reference
+ * archive ids, `idMap` resolves those imported by earlier batches.
+ * Returns the archive id to new id mapping of this batch. System messages
+ * are never imported, the prompt is always the server's own.
+ */
+export const importMessages = mutation({
+  args: {
+    serverSecret: v.string(),
+    userId: v.string(),
+    chatId: v.id("chats"),
+    messages: v.array(
+      v.object({
+        sourceId: v.string(),
+        role: v.union(v.literal("user"), v.literal("assistant")),
+        content: v.string(),
+        status: v.union(v.literal("sent"), v.literal("error")),
+        triage: v.optional(triageValidator),
+        attachments: v.optional(v.array(attachmentValidator)),
+        parentSourceId: v.optional(v.string()),
+        branchOfSourceId: v.optional(v.string()),
+        hidden: v.optional(v.boolean()),
+        createdAt: v.number(),
+      }),
+    ),
+    idMap: v.record(v.string(), v.id("messages")),
+  },
+  returns: v.record(v.string(), v.id("messages")),
+  handler: async (ctx, { serverSecret, userId, chatId, messages, idMap }) => {
+    assertServerSecret(serverSecret);
+
+    const chat = await requireActiveChat(ctx, chatId, userId);
+
+    for (const message of messages) {
+      await requireOwnedAttachments(ctx, message.attachments, userId);
+    }
+
+    const resolved: Record<string, Id<"messages">> = { ...idMap };
+    const inserted: Record<string, Id<"messages">> = {};
+
+    for (const {
+      sourceId,
+      parentSourceId,
+      branchOfSourceId,
+      ...message
+    } of messages) {
+      const messageId = await ctx.db.insert("messages", {
+        ...message,
+        chatId,
+        userId,
+        parentId: parentSourceId ? resolved[parentSourceId] : undefined,
+        branchOf: branchOfSourceId ? resolved[branchOfSourceId] : undefined,
+        // Visible messages have no `hidden` at all, see by_chat_visible
+        hidden: message.hidden || undefined,
+        tokens: Math.ceil(message.content.length / 4),
+      });
+      resolved[sourceId] = messageId;
+      inserted[sourceId] = messageId;
+      await recordMessageUsage(ctx, userId, message.role, message.createdAt);
+    }
+
+    await ctx.db.patch(chatId, {
+      messageCount: chat.messageCount + messages.length,
+    });
+
+    return inserted;
+  },
+});
+
+export const importReport = mutation({
+  args: {
+    serverSecret: v.string(),
+    userId: v.string(),
+    fileId: v.id("_storage"),
+    fileName: v.string(),
+    mimeType: v.string(),
+    sizeBytes: v.number(),
+    chatId: v.optional(v.id("chats")),
+    animalId: v.optional(v.id("animals")),
+    analysis: v.optional(v.string()),
+    extractedText: v.optional(v.string()),
+    createdAt: v.number(),
+  },
+  returns: v.id("reports"),
+  handler: async (ctx, { serverSecret, userId, ...report }) => {
+    assertServerSecret(serverSecret);
+
+    await requireOwnedFile(ctx, report.fileId, userId);
+    if (report.chatId) {
+      await requireOwned(ctx, "chats", report.chatId, userId);
+    }
+    if (report.animalId) {
+      await requireOwned(ctx, "animals", report.animalId, userId);
+    }
+
+    const reportId = await ctx.db.insert("reports", { ...report, userId });
+
+    // Lab values are derived data, rebuilt from the analysis
+    if (report.analysis) {
+      const saved = await ctx.db.get(reportId);
+      if (saved) await replaceLabResults(ctx, saved, report.analysis);
+    }
+
+    return reportId;
+  },
+});
+
+/**
+ * Undoes a failed import: deletes what it created so far so the user can
+ * retry into an empty account. Large chats finish purging in the background.
+ */
+export const rollbackImport = mutation({
+  args: {
+    serverSecret: v.string(),
+    userId: v.string(),
+    animalIds: v.array(v.id("animals")),
+    chatIds: v.array(v.id("chats")),
+    reportIds: v.array(v.id("reports")),
+    // Every file uploaded by the import, referenced or not
+    storageIds: v.array(v.id("_storage")),
+  },
+  returns: v.null(),
+  handler: async (
+    ctx,
+    { serverSecret, userId, animalIds, chatIds, reportIds, storageIds },
+  ) => {
+    assertServerSecret(serverSecret);
+
+    for (const reportId of reportIds) {
+      const report = await ctx.db.get(reportId);
+      if (report?.userId === userId) await purgeReport(ctx, report);
+    }
+
+    for (const chatId of chatIds) {
+      const chat = await ctx.db.get(chatId);
+      if (chat?.userId !== userId) continue;
+      if (!(await purgeChat(ctx, chatId))) {
+        await ctx.scheduler.runAfter(0, internal.retention.purgeChatById, {
+          chatId,
+        });
+      }
+    }
+
+    for (const animalId of animalIds) {
+      const animal = await ctx.db.get(animalId);
+      if (animal?.userId === userId) await ctx.db.delete(animalId);
+    }
+
+    for (const storageId of storageIds) {
+      await deleteFile(ctx, storageId, userId);
+    }
+
+    return null;
+  },
+});
+
+/** Deletes the uploaded export once it has been read */
+export const deleteImportArchive = mutation({
+  args: {
+    serverSecret: v.string(),
+    userId: v.string(),
+    storageId: v.id("_storage"),
+  },
+  returns: v.null(),
+  handler: async (ctx, { serverSecret, userId, storageId }) => {
+    assertServerSecret(serverSecret);
+
+    await deleteFile(ctx, storageId, userId);
+
+    return null;
+  },
+});
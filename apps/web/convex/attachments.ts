@@ -0,0 +1,53 @@
+// convex/attachments.ts
+import { Infer, v } from "convex/values";
+import { QueryCtx } from "./_generated/server";
+import { Doc } from "./_generated/dataModel";
+import { requireOwnedFile } from "./auth";
+
+export const attachmentValidator = v.object({
+  storageId: v.id("_storage"),
+  mimeType: v.string(),
+  name: v.optional(v.string()),
+});
+
+export type Attachment = Infer<typeof attachmentValidator>;
+
+export const MAX_ATTACHMENTS = 4;
+
+export function assertImageAttachments(attachments: Attachment[] | undefined) {
+  if (!attachments) return;
+  if (attachments.length > MAX_ATTACHMENTS) {
+    throw new Error(`At most ${MAX_ATTACHMENTS} images per message`);
+  }
+  if (attachments.some((a) => !a.mimeType.startsWith("image/"))) {
+    throw new Error("Only images can be attached to messages");
+  }
+}
+
+/** Throws unless `userId` uploaded every attached file */
+export async function requireOwnedAttachments(
+  ctx: QueryCtx,
+  attachments: Attachment[] | undefined,
+  userId: string,
+) {
+  for (const attachment of attachments ?? []) {
+    await requireOwnedFile(ctx, attachment.storageId, userId);
+  }
+}
+
+/** Resolves signed URLs so clients and the chat route can load the images */
+export async function withAttachmentUrls(
+  ctx: QueryCtx,
+  message: Doc<"messages">,
+) {
+  if (!message.attachments?.length) return { ...message, attachments: [] };
+
+  const attachments = await Promise.all(
+    message.attachments.map(async (attachment) => ({
+      ...attachment,
+      url: await ctx.storage.getUrl(attachment.storageId),
+    })),
+  );
+
+  return { ...message, attachments };
+}
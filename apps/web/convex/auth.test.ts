@@ -0,0 +1,103 @@
+import { describe, expect, test } from "vitest";
+import {
+  getOwned,
+  requireActiveChat,
+  requireOwned,
+  requireOwnedMessage,
+} from "./auth";
+import { seedChat, setup } from "./test.setup";
+
+describe("requireOwned", () => {
+  test("returns the owner's document", async () => {
+    const { t } = setup();
+    const { chatId } = await seedChat(t, "user_alice");
+
+    const chat = await t.run((ctx) =>
+      requireOwned(ctx, "chats", chatId, "user_alice"),
+    );
+    expect(chat._id).toBe(chatId);
+  });
+
+  test("throws FORBIDDEN for another user's document", async () => {
+    const { t } = setup();
+    const { chatId } = await seedChat(t, "user_alice");
+
+    await expect(
+      t.run((ctx) => requireOwned(ctx, "chats", chatId, "user_bob")),
+    ).rejects.toThrow("FORBIDDEN");
+  });
+
+  test("throws NOT_FOUND for a deleted document", async () => {
+    const { t } = setup();
+    const { chatId } = await seedChat(t, "user_alice");
+    await t.run((ctx) => ctx.db.delete(chatId));
+
+    await expect(
+      t.run((ctx) => requireOwned(ctx, "chats", chatId, "user_alice")),
+    ).rejects.toThrow("NOT_FOUND");
+  });
+});
+
+describe("getOwned", () => {
+  test("returns null unless the caller owns the document", async () => {
+    const { t } = setup();
+    const { chatId } = await seedChat(t, "user_alice");
+
+    await t.run(async (ctx) => {
+      expect((await getOwned(ctx, chatId, "user_alice"))?._id).toBe(chatId);
+      expect(await getOwned(ctx, chatId, "user_bob")).toBeNull();
+      expect(await getOwned(ctx, chatId, null)).toBeNull();
+    });
+  });
+});
+
+describe("requireActiveChat", () => {
+  test("throws NOT_FOUND for a chat in the trash", async () => {
+    const { t } = setup();
+    const { chatId } = await seedChat(t, "user_alice", { isDeleted: true });
+
+    await expect(
+      t.run((ctx) => requireActiveChat(ctx, chatId, "user_alice")),
+    ).rejects.toThrow("NOT_FOUND");
+  });
+
+  test("throws FORBIDDEN for another user's chat", async () => {
+    const { t } = setup();
+    const { chatId } = await seedChat(t, "user_alice");
+
+    await expect(
+      t.run((ctx) => requireActiveChat(ctx, chatId, "user_bob")),
+    ).rejects.toThrow("FORBIDDEN");
+  });
+});
+
+describe("requireOwnedMessage", () => {
+  test("returns a message of the caller's chat", async () => {
+    const { t } = setup();
+    const { messageId } = await seedChat(t, "user_alice");
+
+    const message = await t.run((ctx) =>
+      requireOwnedMessage(ctx, messageId, "user_alice"),
+    );
+    expect(message._id).toBe(messageId);
+  });
+
+  test("throws FORBIDDEN for a message in another user's chat", async () => {
+    const { t } = setup();
+    const { messageId } = await seedChat(t, "user_alice");
+
+    await expect(
+      t.run((ctx) => requireOwnedMessage(ctx, messageId, "user_bob")),
+    ).rejects.toThrow("FORBIDDEN");
+  });
+
+  test("throws NOT_FOUND once the chat is in the trash", async () => {
+    const { t } = setup();
+    const { chatId, messageId } = await seedChat(t, "user_alice");
+    await t.run((ctx) => ctx.db.patch(chatId, { isDeleted: true }));
+
+    await expect(
+      t.run((ctx) => requireOwnedMessage(ctx, messageId, "user_alice")),
+    ).rejects.toThrow("NOT_FOUND");
+  });
+});
@@ -0,0 +1,130 @@
+// convex/auth.ts
+import { ConvexError } from "convex/values";
+import { QueryCtx } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+
+export type AuthErrorCode = "UNAUTHENTICATED" | "FORBIDDEN" | "NOT_FOUND";
+
+/**
+ * Thrown by the helpers below. Clients can read `error.data.code` to tell a
+ * missing session from a document that is gone or belongs to someone else.
+ */
+export class AuthError extends ConvexError<{
+  code: AuthErrorCode;
+  message: string;
+}> {
+  constructor(code: AuthErrorCode, message: string) {
+    super({ code, message });
+    this.name = "AuthError";
+  }
+}
+
+export const unauthenticated = () =>
+  new AuthError("UNAUTHENTICATED", "Unauthenticated");
+
+export const forbidden = () => new AuthError("FORBIDDEN", "Forbidden");
+
+export const notFound = (what: string) =>
+  new AuthError("NOT_FOUND", `${what} not found`);
+
+// Tables whose documents carry the owner's Clerk id
+type OwnedTable = "chats" | "reports" | "animals" | "shares" | "vetSummaries";
+
+const LABELS: Record<OwnedTable, string> = {
+  chats: "Chat",
+  reports: "Report",
+  animals: "Animal",
+  shares: "Share link",
+  vetSummaries: "Vet summary",
+};
+
+/** Clerk user id of the caller, or null when signed out */
+export async function getUserId(ctx: QueryCtx) {
+  const identity = await ctx.auth.getUserIdentity();
+  return identity?.subject ?? null;
+}
+
+export async function requireUserId(ctx: QueryCtx) {
+  const userId = await getUserId(ctx);
+  if (!userId) throw unauthenticated();
+  return userId;
+}
+
+/**
+ * Loads a document owned by `userId`. Throws NOT_FOUND when it doesn't exist
+ * and FORBIDDEN when it belongs to another user.
+ */
+export async function requireOwned<T extends OwnedTable>(
+  ctx: QueryCtx,
+  table: T,
+  id: Id<T>,
+  userId: string,
+): Promise<Doc<T>> {
+  const doc = await ctx.db.get(id);
+  if (!doc) throw notFound(LABELS[table]);
+  if (doc.userId !== userId) throw forbidden();
+  return doc;
+}
+
+/** Like requireOwned, for queries whose UI shows both cases as "not found" */
+export async function getOwned<T extends OwnedTable>(
+  ctx: QueryCtx,
+  id: Id<T>,
+  userId: string | null,
+): Promise<Doc<T> | null> {
+  if (!userId) return null;
+  const doc = await ctx.db.get(id);
+  return doc?.userId === userId ? doc : null;
+}
+
+/** A chat of the caller that isn't in the trash */
+export async function requireActiveChat(
+  ctx: QueryCtx,
+  chatId: Id<"chats">,
+  userId: string,
+) {
+  const chat = await requireOwned(ctx, "chats", chatId, userId);
+  if (chat.isDeleted) throw notFound("Chat");
+  return chat;
+}
+
+/** A message in one of the caller's chats that isn't in the trash */
+export async function requireOwnedMessage(
+  ctx: QueryCtx,
+  messageId: Id<"messages">,
+  userId: string,
+) {
+  const message = await ctx.db.get(messageId);
+  if (!message) throw notFound("Message");
+
+  await requireActiveChat(ctx, message.chatId, userId);
+  return message;
+}
+
+/** Who uploaded a storage file, see uploader.registerUpload */
+export function getUpload(ctx: QueryCtx, storageId: Id<"_storage">) {
+  return ctx.db
+    .query("uploads")
+    .withIndex("by_storage", (q) => q.eq("storageId", storageId))
+    .unique();
+}
+
+/** Throws unless `userId` uploaded the file, before anything references it */
+export async function requireOwnedFile(
+  ctx: QueryCtx,
+  storageId: Id<"_storage">,
+  userId: string,
+) {
+  const upload = await getUpload(ctx, storageId);
+  if (!upload) throw notFound("File");
+  if (upload.userId !== userId) throw forbidden();
+}
+
+// Shared with the Next.js server so it can write generated replies and send
+// emails without holding a short-lived user token.
+export function assertServerSecret(serverSecret: string) {
+  const expected = process.env.CONVEX_SERVER_SECRET;
+  if (!expected || serverSecret !== expected) {
+    throw forbidden();
+  }
+}
@@ -0,0 +1,208 @@
+import { describe, expect, test } from "vitest";
+import { api } from "./_generated/api";
+import {
+  SERVER_SECRET,
+  seedAnimal,
+  seedChat,
+  seedFile,
+  setup,
+} from "./test.setup";
+
+type Fixture = Awaited<ReturnType<typeof seedChat>> & ReturnType<typeof setup>;
+
+describe("chats: other users' chats", () => {
+  // Alice owns the chat, Bob calls
+  const rejected: [string, (f: Fixture) => Promise<unknown>][] = [
+    [
+      "getChatMessages",
+      ({ bob, chatId }) =>
+        bob.query(api.chats.getChatMessages, {
+          chatId,
+          paginationOpts: { numItems: 10, cursor: null },
+        }),
+    ],
+    [
+      "getChatHistory",
+      ({ bob, chatId }) => bob.query(api.chats.getChatHistory, { chatId }),
+    ],
+    [
+      "createMessage",
+      ({ bob, chatId }) =>
+        bob.mutation(api.chats.createMessage, { chatId, content: "Hi" }),
+    ],
+    [
+      "branchFrom",
+      ({ bob, messageId }) => bob.mutation(api.chats.branchFrom, { messageId }),
+    ],
+    [
+      "switchBranch",
+      ({ bob, messageId }) =>
+        bob.mutation(api.chats.switchBranch, { messageId }),
+    ],
+    [
+      "stopMessage",
+      ({ bob, messageId }) =>
+        bob.mutation(api.chats.stopMessage, { messageId }),
+    ],
+    [
+      "flagEmergency",
+      ({ bob, chatId }) =>
+        bob.mutation(api.chats.flagEmergency, {
+          chatId,
+          emergency: {
+            ruleId: "seizure",
+            title: "Seizure",
+            firstAid: [],
+            poisonControl: false,
+          },
+        }),
+    ],
+    [
+      "dismissEmergency",
+      ({ bob, chatId }) => bob.mutation(api.chats.dismissEmergency, { chatId }),
+    ],
+    [
+      "softDeleteChat",
+      ({ bob, chatId }) => bob.mutation(api.chats.softDeleteChat, { chatId }),
+    ],
+    [
+      "renameChat",
+      ({ bob, chatId }) =>
+        bob.mutation(api.chats.renameChat, { chatId, name: "Mine now" }),
+    ],
+    [
+      "restoreChat",
+      ({ bob, chatId }) => bob.mutation(api.chats.restoreChat, { chatId }),
+    ],
+    [
+      "deleteChatForever",
+      ({ bob, chatId }) =>
+        bob.mutation(api.chats.deleteChatForever, { chatId }),
+    ],
+  ];
+
+  test.each(rejected)("%s throws FORBIDDEN", async (_, call) => {
+    const users = setup();
+    const chat = await seedChat(users.t, "user_alice");
+
+    await expect(call({ ...users, ...chat })).rejects.toThrow("FORBIDDEN");
+
+    const after = await users.t.run((ctx) => ctx.db.get(chat.chatId));
+    expect(after).toMatchObject({ name: "Limping dog", isDeleted: false });
+  });
+
+  test("getChatById returns null", async () => {
+    const { t, bob } = setup();
+    const { chatId } = await seedChat(t, "user_alice");
+
+    expect(await bob.query(api.chats.getChatById, { chatId })).toBeNull();
+  });
+
+  test("lists and search only return the caller's chats", async () => {
+    const { t, alice, bob } = setup();
+    await seedChat(t, "user_alice", { name: "Limping dog" });
+    await seedChat(t, "user_alice", { isDeleted: true });
+
+    const paginationOpts = { numItems: 10, cursor: null };
+    expect(
+      (await bob.query(api.chats.getUserChats, { paginationOpts })).page,
+    ).toEqual([]);
+    expect(
+      (await bob.query(api.chats.getDeletedChats, { paginationOpts })).page,
+    ).toEqual([]);
+    expect(await bob.query(api.chats.searchChats, { term: "limping" })).toEqual(
+      [],
+    );
+    expect(
+      await alice.query(api.chats.searchChats, { term: "limping" }),
+    ).toHaveLength(1);
+  });
+
+  test("createChat rejects another user's animal and photos", async () => {
+    const { t, bob } = setup();
+    const animalId = await seedAnimal(t, "user_alice");
+    const storageId = await seedFile(t, "user_alice");
+
+    await expect(
+      bob.mutation(api.chats.createChat, { name: "New", animalId }),
+    ).rejects.toThrow("FORBIDDEN");
+    await expect(
+      bob.mutation(api.chats.createChat, {
+        name: "New",
+        initialMessage: "Look at this",
+        initialAttachments: [{ storageId, mimeType: "image/jpeg" }],
+      }),
+    ).rejects.toThrow("FORBIDDEN");
+  });
+
+  test("createMessage rejects another user's photos", async () => {
+    const { t, bob } = setup();
+    const { chatId } = await seedChat(t, "user_bob");
+    const storageId = await seedFile(t, "user_alice");
+
+    await expect(
+      bob.mutation(api.chats.createMessage, {
+        chatId,
+        content: "Look at this",
+        attachments: [{ storageId, mimeType: "image/jpeg" }],
+      }),
+    ).rejects.toThrow("FORBIDDEN");
+  });
+
+  test("createAssistantMessage checks the secret and the chat owner", async () => {
+    const { t } = setup();
+    const { chatId } = await seedChat(t, "user_alice");
+
+    await expect(
+      t.mutation(api.chats.createAssistantMessage, {
+        serverSecret: "wrong",
+        chatId,
+        userId: "user_alice",
+      }),
+    ).rejects.toThrow("FORBIDDEN");
+    await expect(
+      t.mutation(api.chats.createAssistantMessage, {
+        serverSecret: SERVER_SECRET,
+        chatId,
+        userId: "user_bob",
+      }),
+    ).rejects.toThrow("FORBIDDEN");
+  });
+
+  test("streaming a reply requires the server secret", async () => {
+    const { t } = setup();
+    const { chatId } = await seedChat(t, "user_alice");
+    const messageId = await t.mutation(api.chats.createAssistantMessage, {
+      serverSecret: SERVER_SECRET,
+      chatId,
+      userId: "user_alice",
+    });
+
+    await expect(
+      t.mutation(api.chats.appendMessageDelta, {
+        serverSecret: "wrong",
+        messageId,
+        delta: "Forged advice",
+      }),
+    ).rejects.toThrow("FORBIDDEN");
+    await expect(
+      t.mutation(api.chats.completeMessage, {
+        serverSecret: "wrong",
+        messageId,
+        status: "sent",
+      }),
+    ).rejects.toThrow("FORBIDDEN");
+
+    const message = await t.run((ctx) => ctx.db.get(messageId));
+    expect(message).toMatchObject({ content: "", status: "pending" });
+  });
+
+  test("signed-out callers are rejected", async () => {
+    const { t } = setup();
+    const { chatId } = await seedChat(t, "user_alice");
+
+    await expect(
+      t.mutation(api.chats.createMessage, { chatId, content: "Hi" }),
+    ).rejects.toThrow("UNAUTHENTICATED");
+  });
+});
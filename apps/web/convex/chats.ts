@@ -1,20 +1,123 @@
 // convex/chats.ts
-import { mutation, query } from "./_generated/server";
+import { mutation, MutationCtx, query, QueryCtx } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
 import { v } from "convex/values";
 import { paginationOptsValidator } from "convex/server";
+import { parseTriage } from "./triage";
+import { emergencyValidator } from "./emergency";
+import {
+  assertImageAttachments,
+  attachmentValidator,
+  requireOwnedAttachments,
+  withAttachmentUrls,
+} from "./attachments";
+import { CHAT_RETENTION_MS, purgeChat } from "./retention";
+import { internal } from "./_generated/api";
+import {
+  assertServerSecret,
+  getOwned,
+  getUserId,
+  notFound,
+  requireActiveChat,
+  requireOwned,
+  requireOwnedMessage,
+  requireUserId,
+} from "./auth";
+import {
+  recordMessageUsage,
+  recordTokenUsage,
+  tokenUsageValidator,
+} from "./usage";
+
+// Parses the triage block of a finished assistant reply and flags the chat
+// when it reached URGENT, so lists can filter on it.
+async function applyTriage(
+  ctx: MutationCtx,
+  message: Doc<"messages">,
+  content: string,
+) {
+  if (message.role !== "assistant") return;
+
+  const triage = parseTriage(content);
+  if (!triage) return;
+
+  await ctx.db.patch(message._id, { triage });
+  if (triage.priority === "URGENT") {
+    await ctx.db.patch(message.chatId, { urgentAt: Date.now() });
+  }
+}
+
+// ==================== BRANCHES ====================
+// Regenerating or editing a message hides it and everything after it, and
+// the replacement records the first version in `branchOf`. Each message
+// points at its predecessor via `parentId`, so a branch can be restored.
+
+// Messages on the selected branch
+function visibleMessages(ctx: QueryCtx, chatId: Id<"chats">) {
+  return ctx.db
+    .query("messages")
+    .withIndex("by_chat_visible", (q) =>
+      q.eq("chatId", chatId).eq("hidden", undefined),
+    );
+}
+
+// The first version of a message plus every regeneration or edit of it
+async function getBranchVersions(ctx: QueryCtx, message: Doc<"messages">) {
+  const rootId = message.branchOf ?? message._id;
+  const root = message.branchOf ? await ctx.db.get(rootId) : message;
+  const versions = await ctx.db
+    .query("messages")
+    .withIndex("by_branch", (q) => q.eq("branchOf", rootId))
+    .collect();
+  return root ? [root, ...versions] : versions;
+}
+
+// Chats from before branching have no parent links, fill them in
+async function linkParents(ctx: MutationCtx, chatId: Id<"chats">) {
+  const messages = await visibleMessages(ctx, chatId).collect();
+  for (let i = 1; i < messages.length; i++) {
+    if (!messages[i].parentId) {
+      await ctx.db.patch(messages[i]._id, { parentId: messages[i - 1]._id });
+    }
+  }
+}
+
+// Hides the message and every later one on the selected branch
+async function hideFrom(ctx: MutationCtx, message: Doc<"messages">) {
+  const later = await ctx.db
+    .query("messages")
+    .withIndex("by_chat_visible", (q) =>
+      q
+        .eq("chatId", message.chatId)
+        .eq("hidden", undefined)
+        .gte("createdAt", message.createdAt),
+    )
+    .collect();
+  for (const m of later) {
+    await ctx.db.patch(m._id, { hidden: true });
+  }
+}
 
 // ==================== QUERIES ====================
 
 export const getUserChats = query({
   args: {
     paginationOpts: paginationOptsValidator,
+    urgentOnly: v.optional(v.boolean()),
   },
-  handler: async (ctx, { paginationOpts }) => {
-    const identity = await ctx.auth.getUserIdentity();
-    if (!identity) {
-      throw new Error("Unauthenticated");
+  handler: async (ctx, { paginationOpts, urgentOnly }) => {
+    const userId = await requireUserId(ctx);
+
+    if (urgentOnly) {
+      // Most recently urgent first
+      return ctx.db
+        .query("chats")
+        .withIndex("by_user_urgent", (q) =>
+          q.eq("userId", userId).eq("isDeleted", false).gt("urgentAt", 0),
+        )
+        .order("desc")
+        .paginate(paginationOpts);
     }
-    const userId = identity.subject;
 
     return ctx.db
       .query("chats")
@@ -31,17 +134,9 @@ export const getChatById = query({
     chatId: v.id("chats"),
   },
   handler: async (ctx, { chatId }) => {
-    const identity = await ctx.auth.getUserIdentity();
-    if (!identity) {
-      return null;
-    }
-    const userId = identity.subject;
-
-    const chat = await ctx.db.get(chatId);
+    const chat = await getOwned(ctx, chatId, await getUserId(ctx));
+    if (!chat || chat.isDeleted) return null;
 
-    if (!chat || chat.userId !== userId || chat.isDeleted) {
-      return null;
-    }
     return chat;
   },
 });
@@ -56,26 +151,165 @@ export const getChatMessages = query({
     paginationOpts: paginationOptsValidator,
   },
   handler: async (ctx, { chatId, paginationOpts }) => {
-    const identity = await ctx.auth.getUserIdentity();
-    if (!identity) {
-      throw new Error("Unauthenticated");
-    }
-    const userId = identity.subject;
+    const userId = await requireUserId(ctx);
+
+    await requireActiveChat(ctx, chatId, userId);
+
+    const result = await visibleMessages(ctx, chatId)
+      .order("desc")
+      .paginate(paginationOpts);
 
-    // Verify ownership
-    const chat = await ctx.db.get(chatId);
+    return {
+      ...result,
+      page: await Promise.all(
+        result.page.map(async (message) => {
+          // Alternative versions, so the UI can flip between them
+          const hasVersions =
+            message.branchOf ||
+            (await ctx.db
+              .query("messages")
+              .withIndex("by_branch", (q) => q.eq("branchOf", message._id))
+              .first());
+          const versions = hasVersions
+            ? (await getBranchVersions(ctx, message)).map((m) => m._id)
+            : [message._id];
+
+          return {
+            ...(await withAttachmentUrls(ctx, message)),
+            versions,
+          };
+        }),
+      ),
+    };
+  },
+});
+
+/**
+ * Completed user/assistant turns for building the model context, oldest first.
+ * Stored system messages are never returned so they can't override the prompt.
+ */
+export const getChatHistory = query({
+  args: {
+    chatId: v.id("chats"),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, { chatId, limit }) => {
+    const userId = await requireUserId(ctx);
+
+    await requireActiveChat(ctx, chatId, userId);
+
+    const messages = await visibleMessages(ctx, chatId)
+      .order("desc")
+      .filter((q) => q.eq(q.field("status"), "sent"))
+      .take(limit ?? 100);
 
-    if (!chat || chat.userId !== userId || chat.isDeleted) {
-      throw new Error(
-        `Chat not found or unauthorized (Requested: ${userId}, Found: ${chat?.userId})`,
+    const turns = messages
+      .reverse()
+      .filter(
+        (m) => m.role !== "system" && (m.content.trim() || m.attachments),
       );
+
+    return await Promise.all(
+      turns.map(async (m) => ({
+        role: m.role as "user" | "assistant",
+        content: m.content,
+        tokens: m.tokens,
+        attachments: (await withAttachmentUrls(ctx, m)).attachments,
+      })),
+    );
+  },
+});
+
+const SNIPPET_RADIUS = 60;
+
+// A short excerpt around the first matched term, for search results
+function buildSnippet(content: string, term: string) {
+  const lower = content.toLowerCase();
+  const words = term.toLowerCase().split(/\s+/).filter(Boolean);
+  const hit = words
+    .map((word) => lower.indexOf(word))
+    .filter((index) => index >= 0)
+    .sort((a, b) => a - b)[0];
+
+  const center = hit ?? 0;
+  const start = Math.max(0, center - SNIPPET_RADIUS);
+  const end = Math.min(content.length, center + SNIPPET_RADIUS * 2);
+
+  return (
+    (start > 0 ? "…" : "") +
+    content.slice(start, end).replace(/\s+/g, " ").trim() +
+    (end < content.length ? "…" : "")
+  );
+}
+
+/**
+ * Full-text search over the user's chat names and message contents.
+ * Name matches come first, then chats with matching messages.
+ */
+export const searchChats = query({
+  args: {
+    term: v.string(),
+  },
+  handler: async (ctx, { term }) => {
+    const userId = await requireUserId(ctx);
+
+    const trimmed = term.trim();
+    if (!trimmed) return [];
+
+    const results: Array<{
+      chatId: Id<"chats">;
+      chatName: string;
+      updatedAt: number;
+      messageId?: Id<"messages">;
+      snippet?: string;
+    }> = [];
+    const seen = new Set<Id<"chats">>();
+
+    const nameMatches = await ctx.db
+      .query("chats")
+      .withSearchIndex("search_name", (q) =>
+        q.search("name", trimmed).eq("userId", userId).eq("isDeleted", false),
+      )
+      .take(10);
+
+    for (const chat of nameMatches) {
+      seen.add(chat._id);
+      results.push({
+        chatId: chat._id,
+        chatName: chat.name,
+        updatedAt: chat.updatedAt,
+      });
     }
 
-    return ctx.db
+    // Messages on unselected branches aren't shown in the chat
+    const messageMatches = await ctx.db
       .query("messages")
-      .withIndex("by_chat", (q) => q.eq("chatId", chatId))
-      .order("desc")
-      .paginate(paginationOpts);
+      .withSearchIndex("search_content", (q) =>
+        q
+          .search("content", trimmed)
+          .eq("userId", userId)
+          .eq("hidden", undefined),
+      )
+      .take(50);
+
+    for (const message of messageMatches) {
+      if (results.length >= 20) break;
+      if (seen.has(message.chatId)) continue;
+
+      const chat = await ctx.db.get(message.chatId);
+      if (!chat || chat.userId !== userId || chat.isDeleted) continue;
+
+      seen.add(chat._id);
+      results.push({
+        chatId: chat._id,
+        chatName: chat.name,
+        updatedAt: chat.updatedAt,
+        messageId: message._id,
+        snippet: buildSnippet(message.content, trimmed),
+      });
+    }
+
+    return results;
   },
 });
 
@@ -85,14 +319,22 @@ export const createChat = mutation({
   args: {
     name: v.string(),
     initialMessage: v.optional(v.string()),
+    initialAttachments: v.optional(v.array(attachmentValidator)),
+    animalId: v.optional(v.id("animals")),
   },
   returns: v.id("chats"),
-  handler: async (ctx, { name, initialMessage }) => {
-    const identity = await ctx.auth.getUserIdentity();
-    if (!identity) {
-      throw new Error("Unauthenticated");
+  handler: async (
+    ctx,
+    { name, initialMessage, initialAttachments, animalId },
+  ) => {
+    const userId = await requireUserId(ctx);
+
+    if (animalId) {
+      await requireOwned(ctx, "animals", animalId, userId);
     }
-    const userId = identity.subject;
+
+    assertImageAttachments(initialAttachments);
+    await requireOwnedAttachments(ctx, initialAttachments, userId);
 
     const now = Date.now();
 
@@ -102,120 +344,345 @@ export const createChat = mutation({
       createdAt: now,
       updatedAt: now,
       isDeleted: false,
-      messageCount: initialMessage ? 1 : 0,
+      messageCount: initialMessage !== undefined ? 1 : 0,
+      animalId,
     });
 
-    if (initialMessage) {
+    if (initialMessage !== undefined) {
       await ctx.db.insert("messages", {
         chatId,
+        userId,
         role: "user",
         content: initialMessage,
+        attachments: initialAttachments,
         status: "sent",
         createdAt: now,
         tokens: Math.ceil(initialMessage.length / 4),
       });
+      await recordMessageUsage(ctx, userId, "user", now);
     }
 
     return chatId;
   },
 });
 
+// Appends a message to the end of the selected branch
+async function insertMessage(
+  ctx: MutationCtx,
+  chat: Doc<"chats">,
+  message: {
+    role: "user" | "assistant";
+    content: string;
+    attachments?: Doc<"messages">["attachments"];
+    branchOf?: Id<"messages">;
+  },
+) {
+  const { role, content, attachments, branchOf } = message;
+
+  if (branchOf) {
+    const original = await ctx.db.get(branchOf);
+    if (!original || original.chatId !== chat._id || original.branchOf) {
+      throw new Error("Invalid branch");
+    }
+  }
+
+  const parent = await visibleMessages(ctx, chat._id).order("desc").first();
+
+  const now = Date.now();
+
+  // Insert message
+  const messageId = await ctx.db.insert("messages", {
+    chatId: chat._id,
+    userId: chat.userId,
+    role,
+    content,
+    attachments,
+    parentId: parent?._id,
+    branchOf,
+    status: role === "user" ? "sent" : "pending",
+    createdAt: now,
+    tokens: Math.ceil(content.length / 4),
+  });
+
+  // Update chat metadata
+  await ctx.db.patch(chat._id, {
+    updatedAt: now,
+    messageCount: chat.messageCount + 1,
+  });
+  await recordMessageUsage(ctx, chat.userId, role, now);
+
+  return messageId;
+}
+
+/**
+ * Adds the user's turn. Assistant replies are written by the server only,
+ * see createAssistantMessage.
+ */
 export const createMessage = mutation({
   args: {
     chatId: v.id("chats"),
-    role: v.union(
-      v.literal("user"),
-      v.literal("assistant"),
-      v.literal("system"),
-    ),
     content: v.string(),
+    attachments: v.optional(v.array(attachmentValidator)),
+    // First version of the message this one replaces, see branchFrom
+    branchOf: v.optional(v.id("messages")),
+  },
+  returns: v.id("messages"),
+  handler: async (ctx, { chatId, content, attachments, branchOf }) => {
+    const userId = await requireUserId(ctx);
+
+    const chat = await requireActiveChat(ctx, chatId, userId);
+    assertImageAttachments(attachments);
+    await requireOwnedAttachments(ctx, attachments, userId);
+
+    return await insertMessage(ctx, chat, {
+      role: "user",
+      content,
+      attachments,
+      branchOf,
+    });
   },
+});
+
+/**
+ * Starts a new version of a message (regenerate or edit): hides it and
+ * everything after it. Pass the returned id as `branchOf` to createMessage,
+ * or to the chat route when regenerating a reply.
+ */
+export const branchFrom = mutation({
+  args: { messageId: v.id("messages") },
   returns: v.id("messages"),
-  handler: async (ctx, { chatId, role, content }) => {
-    const identity = await ctx.auth.getUserIdentity();
-    if (!identity) {
-      throw new Error("Unauthenticated");
+  handler: async (ctx, { messageId }) => {
+    const userId = await requireUserId(ctx);
+
+    const message = await requireOwnedMessage(ctx, messageId, userId);
+    if (message.hidden) throw new Error("Message is not on the current branch");
+
+    await linkParents(ctx, message.chatId);
+    await hideFrom(ctx, message);
+
+    return message.branchOf ?? message._id;
+  },
+});
+
+/**
+ * Selects another version of a message, restoring the conversation that
+ * followed it (its most recent continuation).
+ */
+export const switchBranch = mutation({
+  args: { messageId: v.id("messages") },
+  returns: v.null(),
+  handler: async (ctx, { messageId }) => {
+    const userId = await requireUserId(ctx);
+
+    const target = await requireOwnedMessage(ctx, messageId, userId);
+    if (!target.hidden) return null;
+
+    const versions = await getBranchVersions(ctx, target);
+    const current = versions.find((m) => !m.hidden);
+    if (!current) throw new Error("Message is not on the current branch");
+    if (current.status === "pending" || current.status === "streaming") {
+      throw new Error("Wait for the reply to finish");
+    }
+
+    await hideFrom(ctx, current);
+
+    let node: Doc<"messages"> | null = target;
+    while (node) {
+      await ctx.db.patch(node._id, { hidden: undefined });
+      const parentId: Id<"messages"> = node._id;
+      node = await ctx.db
+        .query("messages")
+        .withIndex("by_parent", (q) => q.eq("parentId", parentId))
+        .order("desc")
+        .first();
     }
-    const userId = identity.subject;
 
-    const chat = await ctx.db.get(chatId);
-    if (!chat || chat.userId !== userId || chat.isDeleted) {
-      throw new Error("Unauthorized or chat not found");
+    return null;
+  },
+});
+
+/**
+ * Stops a reply that is still generating, keeping what was streamed so far.
+ * The server notices on its next appendMessageDelta and aborts.
+ */
+export const stopMessage = mutation({
+  args: { messageId: v.id("messages") },
+  returns: v.null(),
+  handler: async (ctx, { messageId }) => {
+    const userId = await requireUserId(ctx);
+
+    const message = await requireOwnedMessage(ctx, messageId, userId);
+    if (
+      message.role !== "assistant" ||
+      (message.status !== "pending" && message.status !== "streaming")
+    ) {
+      return null;
     }
 
     const now = Date.now();
+    await ctx.db.patch(messageId, { status: "sent", updatedAt: now });
+    await ctx.db.patch(message.chatId, { updatedAt: now });
+    await applyTriage(ctx, message, message.content);
 
-    // Insert message
-    const messageId = await ctx.db.insert("messages", {
-      chatId,
-      role,
-      content,
-      status: role === "user" ? "sent" : "pending",
-      createdAt: now,
-      tokens: Math.ceil(content.length / 4),
+    return null;
+  },
+});
+
+// ---------------------------------------------------------------------
+// Server-owned generation: the route handler streams the model reply into
+// the assistant message row, clients only subscribe to getChatMessages.
+// ---------------------------------------------------------------------
+
+/** Creates the empty assistant reply the server then streams into */
+export const createAssistantMessage = mutation({
+  args: {
+    serverSecret: v.string(),
+    chatId: v.id("chats"),
+    userId: v.string(),
+    // First version of the reply this one regenerates, see branchFrom
+    branchOf: v.optional(v.id("messages")),
+  },
+  returns: v.id("messages"),
+  handler: async (ctx, { serverSecret, chatId, userId, branchOf }) => {
+    assertServerSecret(serverSecret);
+
+    const chat = await requireActiveChat(ctx, chatId, userId);
+
+    return await insertMessage(ctx, chat, {
+      role: "assistant",
+      content: "",
+      branchOf,
     });
+  },
+});
 
-    // Update chat metadata
-    await ctx.db.patch(chatId, {
-      updatedAt: now,
-      messageCount: chat.messageCount + 1,
+/**
+ * Appends a batch of streamed content. Returns false once the message has
+ * been finished (e.g. the user pressed stop) so the server can abort.
+ */
+export const appendMessageDelta = mutation({
+  args: {
+    serverSecret: v.string(),
+    messageId: v.id("messages"),
+    delta: v.string(),
+  },
+  returns: v.boolean(),
+  handler: async (ctx, { serverSecret, messageId, delta }) => {
+    assertServerSecret(serverSecret);
+
+    const message = await ctx.db.get(messageId);
+    if (!message) throw notFound("Message");
+
+    if (message.status === "sent" || message.status === "error") {
+      return false;
+    }
+
+    await ctx.db.patch(messageId, {
+      content: message.content + delta,
+      status: "streaming",
+      updatedAt: Date.now(),
     });
 
-    return messageId;
+    return true;
   },
 });
 
-export const updateMessage = mutation({
+export const completeMessage = mutation({
   args: {
+    serverSecret: v.string(),
     messageId: v.id("messages"),
-    content: v.optional(v.string()),
-    status: v.optional(
-      v.union(
-        v.literal("pending"),
-        v.literal("streaming"),
-        v.literal("sent"),
-        v.literal("error"),
-      ),
-    ),
-    append: v.optional(v.boolean()),
+    status: v.union(v.literal("sent"), v.literal("error")),
+    errorMessage: v.optional(v.string()),
+    // Token counts the provider reported for the whole reply
+    usage: v.optional(tokenUsageValidator),
   },
   returns: v.null(),
-  handler: async (ctx, { messageId, content, status, append }) => {
-    const identity = await ctx.auth.getUserIdentity();
-    if (!identity) {
-      throw new Error("Unauthenticated");
-    }
-    const userId = identity.subject;
+  handler: async (
+    ctx,
+    { serverSecret, messageId, status, errorMessage, usage },
+  ) => {
+    assertServerSecret(serverSecret);
 
     const message = await ctx.db.get(messageId);
-    if (!message) throw new Error("Message not found");
+    if (!message) throw notFound("Message");
+
+    // Already stopped by the user, keep what they saw but still count what
+    // was generated
+    if (message.status === "sent" || message.status === "error") {
+      if (usage && message.promptTokens === undefined) {
+        await ctx.db.patch(messageId, usage);
+        const chat = await ctx.db.get(message.chatId);
+        if (chat) await recordTokenUsage(ctx, chat.userId, usage);
+      }
+      return null;
+    }
+
+    const now = Date.now();
+    const content =
+      status === "error" && !message.content
+        ? (errorMessage ?? "Failed to generate response")
+        : message.content;
+
+    await ctx.db.patch(messageId, {
+      content,
+      status,
+      tokens: usage?.completionTokens ?? Math.ceil(content.length / 4),
+      ...usage,
+      updatedAt: now,
+    });
 
     const chat = await ctx.db.get(message.chatId);
-    if (!chat || chat.userId !== userId) {
-      throw new Error("Unauthorized");
+    if (!chat) throw notFound("Chat");
+    await ctx.db.patch(message.chatId, {
+      updatedAt: now,
+    });
+
+    if (usage) {
+      await recordTokenUsage(ctx, chat.userId, usage);
     }
 
-    const updates: Partial<typeof message> = {};
+    if (status === "sent") {
+      await applyTriage(ctx, message, content);
+    }
 
-    if (status) updates.status = status;
+    return null;
+  },
+});
 
-    if (content !== undefined) {
-      if (append && message.content) {
-        updates.content = message.content + content;
-      } else {
-        updates.content = content;
-      }
-      updates.updatedAt = Date.now();
-    }
+export const flagEmergency = mutation({
+  args: {
+    chatId: v.id("chats"),
+    emergency: emergencyValidator.omit("detectedAt"),
+  },
+  returns: v.null(),
+  handler: async (ctx, { chatId, emergency }) => {
+    const userId = await requireUserId(ctx);
 
-    await ctx.db.patch(messageId, updates);
+    await requireOwned(ctx, "chats", chatId, userId);
 
-    // If completing, update chat timestamp
-    if (status === "sent" && message.status !== "sent") {
-      await ctx.db.patch(message.chatId, {
-        updatedAt: Date.now(),
-      });
-    }
+    const now = Date.now();
+    await ctx.db.patch(chatId, {
+      emergency: { ...emergency, detectedAt: now },
+      urgentAt: now,
+    });
+
+    return null;
+  },
+});
+
+export const dismissEmergency = mutation({
+  args: {
+    chatId: v.id("chats"),
+  },
+  returns: v.null(),
+  handler: async (ctx, { chatId }) => {
+    const userId = await requireUserId(ctx);
+
+    await requireOwned(ctx, "chats", chatId, userId);
+
+    await ctx.db.patch(chatId, { emergency: undefined });
+
+    return null;
   },
 });
 
@@ -225,21 +692,16 @@ export const softDeleteChat = mutation({
   },
   returns: v.null(),
   handler: async (ctx, { chatId }) => {
-    const identity = await ctx.auth.getUserIdentity();
-    if (!identity) {
-      throw new Error("Unauthenticated");
-    }
-    const userId = identity.subject;
+    const userId = await requireUserId(ctx);
 
-    const chat = await ctx.db.get(chatId);
-    if (!chat || chat.userId !== userId) {
-      throw new Error("Unauthorized");
-    }
+    await requireOwned(ctx, "chats", chatId, userId);
 
+    // Kept in the trash until restored or purged, see retention.ts
+    const now = Date.now();
     await ctx.db.patch(chatId, {
       isDeleted: true,
-      updatedAt: Date.now(),
-      name: "",
+      deletedAt: now,
+      updatedAt: now,
     });
   },
 });
@@ -251,16 +713,9 @@ export const renameChat = mutation({
   },
   returns: v.null(),
   handler: async (ctx, { chatId, name }) => {
-    const identity = await ctx.auth.getUserIdentity();
-    if (!identity) {
-      throw new Error("Unauthenticated");
-    }
-    const userId = identity.subject;
+    const userId = await requireUserId(ctx);
 
-    const chat = await ctx.db.get(chatId);
-    if (!chat || chat.userId !== userId) {
-      throw new Error("Unauthorized");
-    }
+    await requireOwned(ctx, "chats", chatId, userId);
 
     await ctx.db.patch(chatId, {
       name: name.trim(),
@@ -268,3 +723,95 @@ export const renameChat = mutation({
     });
   },
 });
+
+// ==================== TRASH ====================
+
+export const getDeletedChats = query({
+  args: {
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (ctx, { paginationOpts }) => {
+    const userId = await requireUserId(ctx);
+
+    const result = await ctx.db
+      .query("chats")
+      .withIndex("by_user_active", (q) =>
+        q.eq("userId", userId).eq("isDeleted", true),
+      )
+      .order("desc")
+      .paginate(paginationOpts);
+
+    return {
+      ...result,
+      page: result.page.map((chat) => {
+        const deletedAt = chat.deletedAt ?? chat.updatedAt;
+        return {
+          _id: chat._id,
+          name: chat.name,
+          messageCount: chat.messageCount,
+          deletedAt,
+          purgeAt: deletedAt + CHAT_RETENTION_MS,
+        };
+      }),
+    };
+  },
+});
+
+export const restoreChat = mutation({
+  args: {
+    chatId: v.id("chats"),
+  },
+  returns: v.null(),
+  handler: async (ctx, { chatId }) => {
+    const userId = await requireUserId(ctx);
+
+    const chat = await requireOwned(ctx, "chats", chatId, userId);
+    if (!chat.isDeleted) throw new Error("Chat is not in the trash");
+
+    await ctx.db.patch(chatId, {
+      isDeleted: false,
+      deletedAt: undefined,
+      updatedAt: Date.now(),
+    });
+
+    return null;
+  },
+});
+
+/** Permanently deletes a trashed chat with its messages and reports */
+export const deleteChatForever = mutation({
+  args: {
+    chatId: v.id("chats"),
+  },
+  returns: v.null(),
+  handler: async (ctx, { chatId }) => {
+    const userId = await requireUserId(ctx);
+
+    const chat = await requireOwned(ctx, "chats", chatId, userId);
+    if (!chat.isDeleted) throw new Error("Chat is not in the trash");
+
+    const done = await purgeChat(ctx, chatId);
+    if (!done) {
+      await ctx.scheduler.runAfter(0, internal.retention.purgeChatById, {
+        chatId,
+      });
+    }
+
+    return null;
+  },
+});
+
+export const emptyTrash = mutation({
+  args: {},
+  returns: v.null(),
+  handler: async (ctx) => {
+    const userId = await requireUserId(ctx);
+
+    await ctx.scheduler.runAfter(0, internal.retention.purgeUserData, {
+      userId,
+      trashOnly: true,
+    });
+
+    return null;
+  },
+});
@@ -0,0 +1,19 @@
+// convex/crons.ts
+import { cronJobs } from "convex/server";
+import { internal } from "./_generated/api";
+
+const crons = cronJobs();
+
+crons.daily(
+  "purge expired trash",
+  { hourUTC: 3, minuteUTC: 0 },
+  internal.retention.purgeExpiredChats,
+);
+
+crons.daily(
+  "purge stale rate limits",
+  { hourUTC: 3, minuteUTC: 30 },
+  internal.rateLimits.purgeStaleRateLimits,
+);
+
+export default crons;
@@ -0,0 +1,66 @@
+// convex/emails.ts
+import { Infer, v } from "convex/values";
+import { mutation } from "./_generated/server";
+import { assertServerSecret } from "./auth";
+
+export const emailKindValidator = v.union(
+  v.literal("contact"),
+  v.literal("vet_summary"),
+  v.literal("analysis_ready"),
+  v.literal("analysis_to_vet"),
+  v.literal("support_forward"),
+  v.literal("support_reply"),
+);
+
+export const emailStatusValidator = v.union(
+  v.literal("queued"),
+  v.literal("sent"),
+  v.literal("failed"),
+);
+
+export type EmailKind = Infer<typeof emailKindValidator>;
+
+// ==================== MUTATIONS ====================
+// Written by lib/mailer on the Next.js server, which sends on behalf of
+// signed-out visitors too, so these take the server secret instead of auth.
+
+export const logEmail = mutation({
+  args: {
+    serverSecret: v.string(),
+    userId: v.optional(v.string()),
+    kind: emailKindValidator,
+    to: v.string(),
+    subject: v.string(),
+    transport: v.union(v.literal("resend"), v.literal("local")),
+  },
+  returns: v.id("emailLog"),
+  handler: async (ctx, { serverSecret, ...email }) => {
+    assertServerSecret(serverSecret);
+
+    const now = Date.now();
+    return await ctx.db.insert("emailLog", {
+      ...email,
+      status: "queued",
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+export const updateEmailStatus = mutation({
+  args: {
+    serverSecret: v.string(),
+    emailId: v.id("emailLog"),
+    status: emailStatusValidator,
+    providerId: v.optional(v.string()),
+    error: v.optional(v.string()),
+  },
+  returns: v.null(),
+  handler: async (ctx, { serverSecret, emailId, ...update }) => {
+    assertServerSecret(serverSecret);
+
+    await ctx.db.patch(emailId, { ...update, updatedAt: Date.now() });
+
+    return null;
+  },
+});
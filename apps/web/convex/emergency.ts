@@ -0,0 +1,11 @@
+// convex/emergency.ts
+import { v } from "convex/values";
+
+// Pinned on the chat by /api/chat/[id] when the rule-based detector fires
+export const emergencyValidator = v.object({
+  ruleId: v.string(),
+  title: v.string(),
+  firstAid: v.array(v.string()),
+  poisonControl: v.boolean(),
+  detectedAt: v.number(),
+});
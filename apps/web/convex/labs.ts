@@ -0,0 +1,464 @@
+// convex/labs.ts
+import { Infer, v } from "convex/values";
+import { query, MutationCtx } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { getOwned, getUserId } from "./auth";
+import { slugify } from "../lib/slug";
+import { resolveSpeciesGroup, SpeciesGroup } from "../lib/species";
+
+export const labFlagValidator = v.union(
+  v.literal("low"),
+  v.literal("normal"),
+  v.literal("high"),
+);
+
+export type LabFlag = Infer<typeof labFlagValidator>;
+
+interface Analyte {
+  key: string;
+  name: string;
+  aliases: RegExp;
+  unit: string;
+  ranges: Partial<Record<SpeciesGroup, [number, number]>>;
+}
+
+// Typical adult reference intervals, used only when the report prints none.
+// Labs differ, so a range printed on the report always wins. Ruminant ranges
+// are bovine, left out where goats and sheep differ widely (ALP, AST).
+const ANALYTES: Analyte[] = [
+  {
+    key: "alt",
+    name: "ALT",
+    aliases: /^(alt|sgpt|alanine aminotransferase)\b/i,
+    unit: "U/L",
+    ranges: { dog: [10, 125], cat: [12, 130], horse: [3, 23] },
+  },
+  {
+    key: "alp",
+    name: "ALP",
+    aliases: /^(alp|alkp|alkaline phosphatase)\b/i,
+    unit: "U/L",
+    ranges: { dog: [23, 212], cat: [14, 111] },
+  },
+  {
+    key: "ast",
+    name: "AST",
+    aliases: /^(ast|sgot|aspartate aminotransferase)\b/i,
+    unit: "U/L",
+    ranges: { dog: [0, 50], cat: [0, 48], horse: [226, 366] },
+  },
+  {
+    key: "creatinine",
+    name: "Creatinine",
+    aliases: /^(crea|creat|creatinine)\b/i,
+    unit: "mg/dL",
+    ranges: {
+      dog: [0.5, 1.8],
+      cat: [0.8, 2.4],
+      ruminant: [1, 2],
+      horse: [1.2, 1.9],
+    },
+  },
+  {
+    key: "bun",
+    name: "BUN",
+    aliases: /^(bun|urea nitrogen|blood urea nitrogen)\b/i,
+    unit: "mg/dL",
+    ranges: {
+      dog: [7, 27],
+      cat: [16, 36],
+      ruminant: [10, 25],
+      horse: [10, 24],
+    },
+  },
+  {
+    key: "glucose",
+    name: "Glucose",
+    aliases: /^(glu|gluc|glucose)\b/i,
+    unit: "mg/dL",
+    ranges: {
+      dog: [74, 143],
+      cat: [71, 159],
+      ruminant: [45, 75],
+      horse: [75, 115],
+    },
+  },
+  {
+    key: "total-protein",
+    name: "Total Protein",
+    aliases: /^(tp|total protein)\b/i,
+    unit: "g/dL",
+    ranges: {
+      dog: [5.2, 8.2],
+      cat: [5.7, 8.9],
+      ruminant: [6.7, 7.5],
+      horse: [5.2, 7.9],
+    },
+  },
+  {
+    key: "albumin",
+    name: "Albumin",
+    aliases: /^(alb|albumin)\b/i,
+    unit: "g/dL",
+    ranges: {
+      dog: [2.3, 4],
+      cat: [2.2, 4],
+      ruminant: [3, 3.6],
+      horse: [2.6, 3.7],
+    },
+  },
+  {
+    key: "hematocrit",
+    name: "Hematocrit",
+    aliases: /^(hct|pcv|hematocrit|haematocrit|packed cell volume)\b/i,
+    unit: "%",
+    ranges: {
+      dog: [37, 55],
+      cat: [30, 45],
+      ruminant: [24, 46],
+      horse: [32, 53],
+    },
+  },
+  {
+    key: "hemoglobin",
+    name: "Hemoglobin",
+    aliases: /^(hgb|hb|hemoglobin|haemoglobin)\b/i,
+    unit: "g/dL",
+    ranges: { dog: [12, 18], cat: [8, 15], ruminant: [8, 15], horse: [11, 19] },
+  },
+  {
+    key: "wbc",
+    name: "WBC",
+    aliases: /^(wbc|white blood cells?|leukocytes?)\b/i,
+    unit: "10^3/µL",
+    ranges: {
+      dog: [6, 17],
+      cat: [5.5, 19.5],
+      ruminant: [4, 12],
+      horse: [5.5, 12.5],
+    },
+  },
+  {
+    key: "platelets",
+    name: "Platelets",
+    aliases: /^(plt|platelets?|thrombocytes?)\b/i,
+    unit: "10^3/µL",
+    ranges: {
+      dog: [200, 500],
+      cat: [300, 800],
+      ruminant: [100, 800],
+      horse: [100, 350],
+    },
+  },
+];
+
+// Treats "IU/L" and "U/L", or "x10^3/uL" and "10^3/µL", as the same unit
+function normalizeUnit(unit: string) {
+  return unit
+    .toLowerCase()
+    .replace(/\s/g, "")
+    .replace(/^x/, "")
+    .replace(/^iu\//, "u/")
+    .replace(/\/[uμ]l$/, "/µl");
+}
+
+// Values are only comparable in the same unit, e.g. glucose in mg/dL and
+// mmol/L become separate series
+function seriesKey(row: Pick<Doc<"labResults">, "analyteKey" | "unit">) {
+  return `${row.analyteKey}:${normalizeUnit(row.unit)}`;
+}
+
+function parseNumber(text: string): number | undefined {
+  const match = text.replace(/,/g, "").match(/-?\d+(\.\d+)?/);
+  return match ? Number(match[0]) : undefined;
+}
+
+function parseRange(text: string): { low?: number; high?: number } {
+  const cleaned = text.replace(/,/g, "");
+  const between = cleaned.match(
+    /(\d+(?:\.\d+)?)\s*(?:-|–|to)\s*(\d+(?:\.\d+)?)/,
+  );
+  if (between) return { low: Number(between[1]), high: Number(between[2]) };
+  const below = cleaned.match(/(?:<|≤|up to)\s*(\d+(?:\.\d+)?)/i);
+  if (below) return { high: Number(below[1]) };
+  const above = cleaned.match(/(?:>|≥)\s*(\d+(?:\.\d+)?)/);
+  if (above) return { low: Number(above[1]) };
+  return {};
+}
+
+function splitRow(line: string) {
+  return line
+    .trim()
+    .replace(/^\||\|$/g, "")
+    .split("|")
+    .map((cell) => cell.replace(/\*\*/g, "").trim());
+}
+
+export interface ParsedLabRow {
+  analyte: string;
+  analyteKey: string;
+  value: number;
+  valueText: string;
+  unit: string;
+  referenceLow?: number;
+  referenceHigh?: number;
+  referenceSource?: "report" | "species";
+  flag?: LabFlag;
+}
+
+/**
+ * Reads the "| Analyte | Value | Unit | Reference Range |" table the report
+ * prompt asks for. Missing ranges fall back to the species table above, and
+ * the flag is always computed here rather than trusted from the model.
+ */
+export function parseLabTable(
+  analysis: string,
+  species?: string,
+): ParsedLabRow[] {
+  const lines = analysis.split("\n");
+  const headerIndex = lines.findIndex(
+    (line) => /\|\s*analyte\s*\|/i.test(line) && /\|\s*value\s*\|/i.test(line),
+  );
+  if (headerIndex === -1) return [];
+
+  const header = splitRow(lines[headerIndex]).map((cell) => cell.toLowerCase());
+  const column = (name: string) => header.findIndex((h) => h.startsWith(name));
+  const [analyteCol, valueCol, unitCol, rangeCol] = [
+    column("analyte"),
+    column("value"),
+    column("unit"),
+    column("reference"),
+  ];
+
+  const group = species ? resolveSpeciesGroup(species) : undefined;
+
+  const rows: ParsedLabRow[] = [];
+  for (const line of lines.slice(headerIndex + 1)) {
+    if (!line.trim().startsWith("|")) break;
+    if (/^\s*\|?\s*:?-{3,}/.test(line)) continue; // separator row
+
+    const cells = splitRow(line);
+    const name = cells[analyteCol];
+    const valueText = cells[valueCol] ?? "";
+    const value = parseNumber(valueText);
+    if (!name || value === undefined) continue;
+
+    const unit = unitCol >= 0 ? (cells[unitCol] ?? "") : "";
+    const known = ANALYTES.find((a) => a.aliases.test(name));
+
+    let { low, high } = rangeCol >= 0 ? parseRange(cells[rangeCol] ?? "") : {};
+    let referenceSource: ParsedLabRow["referenceSource"] =
+      low !== undefined || high !== undefined ? "report" : undefined;
+
+    const fallback = known && group && known.ranges[group];
+    if (
+      !referenceSource &&
+      fallback &&
+      (!unit || normalizeUnit(unit) === normalizeUnit(known.unit))
+    ) {
+      [low, high] = fallback;
+      referenceSource = "species";
+    }
+
+    let flag: LabFlag | undefined;
+    if (referenceSource) {
+      if (low !== undefined && value < low) flag = "low";
+      else if (high !== undefined && value > high) flag = "high";
+      else flag = "normal";
+    }
+
+    rows.push({
+      analyte: known?.name ?? name,
+      analyteKey: known?.key ?? slugify(name),
+      value,
+      valueText,
+      unit: unit || known?.unit || "",
+      referenceLow: low,
+      referenceHigh: high,
+      referenceSource,
+      flag,
+    });
+  }
+
+  return rows.slice(0, 100);
+}
+
+/** Rebuilds the lab rows of a report from its latest analysis */
+export async function replaceLabResults(
+  ctx: MutationCtx,
+  report: Doc<"reports">,
+  analysis: string,
+) {
+  const existing = await ctx.db
+    .query("labResults")
+    .withIndex("by_report", (q) => q.eq("reportId", report._id))
+    .collect();
+  for (const row of existing) {
+    await ctx.db.delete(row._id);
+  }
+
+  const animal = report.animalId ? await ctx.db.get(report.animalId) : null;
+  const rows = parseLabTable(analysis, animal?.species);
+
+  const now = Date.now();
+  for (const row of rows) {
+    await ctx.db.insert("labResults", {
+      ...row,
+      userId: report.userId,
+      reportId: report._id,
+      animalId: report.animalId,
+      measuredAt: report.createdAt,
+      createdAt: now,
+    });
+  }
+}
+
+// ==================== QUERIES ====================
+
+export const getReportLabResults = query({
+  args: { reportId: v.id("reports") },
+  handler: async (ctx, { reportId }) => {
+    const report = await getOwned(ctx, reportId, await getUserId(ctx));
+    if (!report) return [];
+
+    return await ctx.db
+      .query("labResults")
+      .withIndex("by_report", (q) => q.eq("reportId", reportId))
+      .collect();
+  },
+});
+
+/**
+ * Every lab value recorded for an animal, grouped per analyte and unit and
+ * ordered by report date, for the trend charts.
+ */
+export const getAnimalLabTrends = query({
+  args: { animalId: v.id("animals") },
+  handler: async (ctx, { animalId }) => {
+    const animal = await getOwned(ctx, animalId, await getUserId(ctx));
+    if (!animal) return null;
+
+    const rows = await ctx.db
+      .query("labResults")
+      .withIndex("by_animal_analyte", (q) => q.eq("animalId", animalId))
+      .collect();
+
+    const analytes = new Map<
+      string,
+      {
+        key: string;
+        analyteKey: string;
+        analyte: string;
+        unit: string;
+        referenceLow?: number;
+        referenceHigh?: number;
+        points: {
+          reportId: Id<"reports">;
+          measuredAt: number;
+          value: number;
+          flag?: LabFlag;
+        }[];
+      }
+    >();
+
+    for (const row of rows) {
+      const key = seriesKey(row);
+      const series = analytes.get(key) ?? {
+        key,
+        analyteKey: row.analyteKey,
+        analyte: row.analyte,
+        unit: row.unit,
+        points: [],
+      };
+      // Latest report's range wins, ranges can change between labs
+      series.referenceLow = row.referenceLow;
+      series.referenceHigh = row.referenceHigh;
+      series.points.push({
+        reportId: row.reportId,
+        measuredAt: row.measuredAt,
+        value: row.value,
+        flag: row.flag,
+      });
+      analytes.set(key, series);
+    }
+
+    const reportIds = [...new Set(rows.map((row) => row.reportId))];
+    const reports = (await Promise.all(reportIds.map((id) => ctx.db.get(id))))
+      .filter((report) => report !== null)
+      .map(({ _id, fileName, createdAt }) => ({ _id, fileName, createdAt }))
+      .sort((a, b) => a.createdAt - b.createdAt);
+
+    return {
+      reports,
+      analytes: [...analytes.values()].sort(
+        (a, b) => b.points.length - a.points.length,
+      ),
+    };
+  },
+});
+
+/**
+ * Lines up the lab values of two reports by analyte and unit. `before` is the
+ * older report regardless of argument order.
+ */
+export const compareReports = query({
+  args: {
+    reportIds: v.array(v.id("reports")),
+  },
+  handler: async (ctx, { reportIds }) => {
+    const userId = await getUserId(ctx);
+    if (!userId) return null;
+    if (reportIds.length !== 2) throw new Error("Select two reports");
+
+    const reports = await Promise.all(
+      reportIds.map((id) => getOwned(ctx, id, userId)),
+    );
+    if (reports.some((r) => !r)) return null;
+
+    const [older, newer] = (reports as Doc<"reports">[]).sort(
+      (a, b) => a.createdAt - b.createdAt,
+    );
+
+    const [beforeRows, afterRows] = await Promise.all(
+      [older, newer].map((report) =>
+        ctx.db
+          .query("labResults")
+          .withIndex("by_report", (q) => q.eq("reportId", report._id))
+          .collect(),
+      ),
+    );
+
+    const keys = [...new Set([...beforeRows, ...afterRows].map(seriesKey))];
+
+    const rows = keys.map((key) => {
+      const before = beforeRows.find((r) => seriesKey(r) === key);
+      const after = afterRows.find((r) => seriesKey(r) === key);
+      const change =
+        before && after && before.value !== 0
+          ? ((after.value - before.value) / Math.abs(before.value)) * 100
+          : undefined;
+
+      return {
+        key,
+        analyteKey: (after ?? before)!.analyteKey,
+        analyte: (after ?? before)!.analyte,
+        unit: (after ?? before)!.unit,
+        before: before && { value: before.value, flag: before.flag },
+        after: after && { value: after.value, flag: after.flag },
+        changePercent: change,
+      };
+    });
+
+    const summarize = ({ _id, fileName, createdAt }: Doc<"reports">) => ({
+      _id,
+      fileName,
+      createdAt,
+    });
+
+    return {
+      before: summarize(older),
+      after: summarize(newer),
+      rows: rows.sort((a, b) => a.analyte.localeCompare(b.analyte)),
+    };
+  },
+});
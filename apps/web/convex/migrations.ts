@@ -0,0 +1,164 @@
+// convex/migrations.ts
+import { v } from "convex/values";
+import { internalMutation } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { Id } from "./_generated/dataModel";
+import { getUpload } from "./auth";
+import { recordMessageUsage } from "./usage";
+
+/**
+ * Copies chats.userId onto older messages so they show up in search.
+ * Run from the dashboard until it reports isDone:
+ *   npx convex run migrations:backfillMessageUserIds
+ */
+export const backfillMessageUserIds = internalMutation({
+  args: { cursor: v.optional(v.union(v.string(), v.null())) },
+  handler: async (ctx, { cursor }) => {
+    const page = await ctx.db
+      .query("messages")
+      .paginate({ cursor: cursor ?? null, numItems: 200 });
+
+    let updated = 0;
+    for (const message of page.page) {
+      if (message.userId) continue;
+      const chat = await ctx.db.get(message.chatId);
+      if (!chat) continue;
+      await ctx.db.patch(message._id, { userId: chat.userId });
+      updated++;
+    }
+
+    return {
+      updated,
+      isDone: page.isDone,
+      cursor: page.continueCursor,
+    };
+  },
+});
+
+/**
+ * Builds dailyUsage from messages created before the rollups existed. Pass
+ * the time the rollups were deployed as `before` so newer messages, already
+ * counted by the mutations, aren't counted twice:
+ *   npx convex run migrations:backfillDailyUsage '{"before": 1760000000000}'
+ */
+export const backfillDailyUsage = internalMutation({
+  args: {
+    before: v.number(),
+    cursor: v.optional(v.union(v.string(), v.null())),
+  },
+  handler: async (ctx, { before, cursor }) => {
+    const page = await ctx.db
+      .query("messages")
+      .paginate({ cursor: cursor ?? null, numItems: 200 });
+
+    let counted = 0;
+    for (const message of page.page) {
+      if (!message.userId || message.createdAt >= before) continue;
+      await recordMessageUsage(
+        ctx,
+        message.userId,
+        message.role,
+        message.createdAt,
+      );
+      counted++;
+    }
+
+    return {
+      counted,
+      isDone: page.isDone,
+      cursor: page.continueCursor,
+    };
+  },
+});
+
+/**
+ * Records the owner of files referenced before uploads were tracked, without
+ * it they can't be attached again or deleted. Run for each table until it
+ * reports isDone (messages need backfillMessageUserIds first):
+ *   npx convex run migrations:backfillUploads '{"table": "reports"}'
+ */
+export const backfillUploads = internalMutation({
+  args: {
+    table: v.union(
+      v.literal("reports"),
+      v.literal("messages"),
+      v.literal("animals"),
+      v.literal("vetSummaries"),
+    ),
+    cursor: v.optional(v.union(v.string(), v.null())),
+  },
+  handler: async (ctx, { table, cursor }) => {
+    const paginationOpts = { cursor: cursor ?? null, numItems: 200 };
+    const files: { storageId: Id<"_storage">; userId: string }[] = [];
+
+    let page;
+    if (table === "reports" || table === "vetSummaries") {
+      page = await ctx.db.query(table).paginate(paginationOpts);
+      for (const doc of page.page) {
+        files.push({ storageId: doc.fileId, userId: doc.userId });
+      }
+    } else if (table === "animals") {
+      page = await ctx.db.query("animals").paginate(paginationOpts);
+      for (const animal of page.page) {
+        if (animal.photoId) {
+          files.push({ storageId: animal.photoId, userId: animal.userId });
+        }
+      }
+    } else {
+      page = await ctx.db.query("messages").paginate(paginationOpts);
+      for (const message of page.page) {
+        const userId = message.userId;
+        if (!userId) continue;
+        for (const { storageId } of message.attachments ?? []) {
+          files.push({ storageId, userId });
+        }
+      }
+    }
+
+    let recorded = 0;
+    for (const { storageId, userId } of files) {
+      if (await getUpload(ctx, storageId)) continue;
+      await ctx.db.insert("uploads", {
+        storageId,
+        userId,
+        createdAt: Date.now(),
+      });
+      recorded++;
+    }
+
+    return {
+      recorded,
+      isDone: page.isDone,
+      cursor: page.continueCursor,
+    };
+  },
+});
+
+/**
+ * Schedules revocation of share links created before expiry was enforced
+ * by expireShare, past-due ones are revoked right away:
+ *   npx convex run migrations:scheduleShareExpiries
+ */
+export const scheduleShareExpiries = internalMutation({
+  args: { cursor: v.optional(v.union(v.string(), v.null())) },
+  handler: async (ctx, { cursor }) => {
+    const page = await ctx.db
+      .query("shares")
+      .paginate({ cursor: cursor ?? null, numItems: 200 });
+
+    let scheduled = 0;
+    for (const share of page.page) {
+      if (share.revokedAt || !share.expiresAt) continue;
+      await ctx.scheduler.runAt(share.expiresAt, internal.shares.expireShare, {
+        shareId: share._id,
+      });
+      scheduled++;
+    }
+
+    return {
+      scheduled,
+      isDone: page.isDone,
+      cursor: page.continueCursor,
+    };
+  },
+});
@@ -0,0 +1,62 @@
+// convex/notes.ts
+import { v } from "convex/values";
+import { mutation } from "./_generated/server";
+import { notFound, requireOwned, requireUserId } from "./auth";
+
+// Notes are read through analytics.getDashboardOverview's timeline
+
+// ==================== MUTATIONS ====================
+
+export const addHealthNote = mutation({
+  args: {
+    animalId: v.id("animals"),
+    body: v.string(),
+    remindAt: v.optional(v.number()),
+  },
+  returns: v.id("healthNotes"),
+  handler: async (ctx, { animalId, body, remindAt }) => {
+    const userId = await requireUserId(ctx);
+    await requireOwned(ctx, "animals", animalId, userId);
+
+    if (!body.trim()) throw new Error("Note is empty");
+
+    return await ctx.db.insert("healthNotes", {
+      userId,
+      animalId,
+      body: body.trim(),
+      remindAt,
+      createdAt: Date.now(),
+    });
+  },
+});
+
+/** Marks a reminder done, it drops off the upcoming count */
+export const completeReminder = mutation({
+  args: { noteId: v.id("healthNotes") },
+  returns: v.null(),
+  handler: async (ctx, { noteId }) => {
+    const userId = await requireUserId(ctx);
+
+    const note = await ctx.db.get(noteId);
+    if (!note || note.userId !== userId) throw notFound("Note");
+
+    await ctx.db.patch(noteId, { doneAt: Date.now() });
+
+    return null;
+  },
+});
+
+export const deleteHealthNote = mutation({
+  args: { noteId: v.id("healthNotes") },
+  returns: v.null(),
+  handler: async (ctx, { noteId }) => {
+    const userId = await requireUserId(ctx);
+
+    const note = await ctx.db.get(noteId);
+    if (!note || note.userId !== userId) throw notFound("Note");
+
+    await ctx.db.delete(noteId);
+
+    return null;
+  },
+});
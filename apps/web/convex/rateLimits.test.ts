@@ -0,0 +1,36 @@
+import { describe, expect, test } from "vitest";
+import { api } from "./_generated/api";
+import { SERVER_SECRET, setup } from "./test.setup";
+
+describe("consumeRateLimit", () => {
+  test("limits signed-out contact senders by IP", async () => {
+    const { t } = setup();
+    const send = (ip?: string) =>
+      t.mutation(api.rateLimits.consumeRateLimit, {
+        serverSecret: SERVER_SECRET,
+        route: "contact",
+        ip,
+      });
+
+    for (let i = 0; i < 5; i++) {
+      expect(await send("203.0.113.7")).toEqual({ ok: true });
+    }
+    expect(await send("203.0.113.7")).toMatchObject({ ok: false });
+    expect(await send("198.51.100.2")).toEqual({ ok: true });
+
+    // Without an IP they all share one bucket
+    for (let i = 0; i < 5; i++) await send();
+    expect(await send()).toMatchObject({ ok: false });
+  });
+
+  test("requires the server secret", async () => {
+    const { t } = setup();
+
+    await expect(
+      t.mutation(api.rateLimits.consumeRateLimit, {
+        serverSecret: "wrong",
+        route: "contact",
+      }),
+    ).rejects.toThrow("FORBIDDEN");
+  });
+});
@@ -0,0 +1,182 @@
+// convex/rateLimits.ts
+import { v } from "convex/values";
+import { internal } from "./_generated/api";
+import { internalMutation, mutation, MutationCtx } from "./_generated/server";
+import { assertServerSecret } from "./auth";
+
+const MINUTE_MS = 60 * 1000;
+
+// Buckets untouched this long are full again and can go
+const STALE_AFTER_MS = 24 * 60 * MINUTE_MS;
+const PURGE_BATCH = 500;
+
+type Bucket = { capacity: number; refillPerMinute: number };
+
+/**
+ * Token buckets per route. A request takes one token from the user's bucket
+ * and one from its IP's, IPs get more room since households and offices
+ * share one.
+ */
+const RATE_LIMITS = {
+  createChat: {
+    user: { capacity: 10, refillPerMinute: 5 },
+    ip: { capacity: 30, refillPerMinute: 15 },
+  },
+  chat: {
+    user: { capacity: 20, refillPerMinute: 10 },
+    ip: { capacity: 60, refillPerMinute: 30 },
+  },
+  analyze: {
+    user: { capacity: 5, refillPerMinute: 1 },
+    ip: { capacity: 15, refillPerMinute: 3 },
+  },
+  summary: {
+    user: { capacity: 5, refillPerMinute: 1 },
+    ip: { capacity: 15, refillPerMinute: 3 },
+  },
+  compare: {
+    user: { capacity: 5, refillPerMinute: 1 },
+    ip: { capacity: 15, refillPerMinute: 3 },
+  },
+  // Emails to vets, shared by reports and visit summaries
+  mail: {
+    user: { capacity: 5, refillPerMinute: 0.5 },
+    ip: { capacity: 15, refillPerMinute: 1.5 },
+  },
+  // The public contact form, most senders are signed out so the IP counts
+  contact: {
+    user: { capacity: 3, refillPerMinute: 0.1 },
+    ip: { capacity: 5, refillPerMinute: 0.1 },
+  },
+} satisfies Record<string, { user: Bucket; ip: Bucket }>;
+
+export const rateLimitRouteValidator = v.union(
+  v.literal("createChat"),
+  v.literal("chat"),
+  v.literal("analyze"),
+  v.literal("summary"),
+  v.literal("compare"),
+  v.literal("mail"),
+  v.literal("contact"),
+);
+
+// Tokens in a bucket after refilling since its last update
+function refill(
+  row: { tokens: number; updatedAt: number } | null,
+  bucket: Bucket,
+  now: number,
+) {
+  if (!row) return bucket.capacity;
+  const refilled =
+    row.tokens + ((now - row.updatedAt) / MINUTE_MS) * bucket.refillPerMinute;
+  return Math.min(bucket.capacity, refilled);
+}
+
+/** Drops the user's buckets on every route, IP buckets aren't theirs alone */
+export async function deleteUserRateLimits(ctx: MutationCtx, userId: string) {
+  for (const route of Object.keys(RATE_LIMITS)) {
+    const row = await ctx.db
+      .query("rateLimits")
+      .withIndex("by_key", (q) => q.eq("key", `${route}:user:${userId}`))
+      .unique();
+    if (row) await ctx.db.delete(row._id);
+  }
+}
+
+// ==================== MUTATIONS ====================
+
+/**
+ * Takes a token from the user's and the IP's bucket for `route`. Nothing is
+ * taken unless both have one, otherwise returns how long until they do.
+ * Signed-out callers only have the IP bucket, and share one when their IP is
+ * unknown.
+ */
+export const consumeRateLimit = mutation({
+  args: {
+    serverSecret: v.string(),
+    route: rateLimitRouteValidator,
+    userId: v.optional(v.string()),
+    ip: v.optional(v.string()),
+  },
+  returns: v.union(
+    v.object({ ok: v.literal(true) }),
+    v.object({ ok: v.literal(false), retryAfterMs: v.number() }),
+  ),
+  handler: async (ctx, { serverSecret, route, userId, ip }) => {
+    assertServerSecret(serverSecret);
+
+    const limits = RATE_LIMITS[route];
+    const now = Date.now();
+
+    const checks: { key: string; bucket: Bucket }[] = [];
+    if (userId) {
+      checks.push({ key: `${route}:user:${userId}`, bucket: limits.user });
+    }
+    if (ip || !userId) {
+      checks.push({ key: `${route}:ip:${ip ?? "unknown"}`, bucket: limits.ip });
+    }
+
+    const states = await Promise.all(
+      checks.map(async ({ key, bucket }) => {
+        const row = await ctx.db
+          .query("rateLimits")
+          .withIndex("by_key", (q) => q.eq("key", key))
+          .unique();
+        return { key, bucket, row, tokens: refill(row, bucket, now) };
+      }),
+    );
+
+    const retryAfterMs = Math.max(
+      0,
+      ...states.map(({ tokens, bucket }) =>
+        tokens >= 1
+          ? 0
+          : Math.ceil(((1 - tokens) / bucket.refillPerMinute) * MINUTE_MS),
+      ),
+    );
+    if (retryAfterMs > 0) {
+      return { ok: false as const, retryAfterMs };
+    }
+
+    for (const { key, row, tokens } of states) {
+      if (row) {
+        await ctx.db.patch(row._id, { tokens: tokens - 1, updatedAt: now });
+      } else {
+        await ctx.db.insert("rateLimits", {
+          key,
+          tokens: tokens - 1,
+          updatedAt: now,
+        });
+      }
+    }
+
+    return { ok: true as const };
+  },
+});
+
+/** Daily cron: drops buckets that have refilled completely */
+export const purgeStaleRateLimits = internalMutation({
+  args: {},
+  returns: v.null(),
+  handler: async (ctx) => {
+    const stale = await ctx.db
+      .query("rateLimits")
+      .withIndex("by_updated", (q) =>
+        q.lt("updatedAt", Date.now() - STALE_AFTER_MS),
+      )
+      .take(PURGE_BATCH);
+    for (const row of stale) {
+      await ctx.db.delete(row._id);
+    }
+
+    if (stale.length === PURGE_BATCH) {
+      await ctx.scheduler.runAfter(
+        0,
+        internal.rateLimits.purgeStaleRateLimits,
+        {},
+      );
+    }
+
+    return null;
+  },
+});
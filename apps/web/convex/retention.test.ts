@@ -0,0 +1,62 @@
+import { afterEach, describe, expect, test, vi } from "vitest";
+import { api } from "./_generated/api";
+import { seedChat, seedFile, setup } from "./test.setup";
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("deleteAllMyData", () => {
+  test("removes the user's uploads, tickets and rate limits", async () => {
+    vi.useFakeTimers();
+    const { t, alice } = setup();
+    await seedChat(t, "user_alice");
+    const aliceFile = await seedFile(t, "user_alice");
+    const bobFile = await seedFile(t, "user_bob");
+    await t.run(async (ctx) => {
+      const now = Date.now();
+      for (const userId of ["user_alice", "user_bob"]) {
+        await ctx.db.insert("supportTickets", {
+          userId,
+          name: "Owner",
+          email: "owner@example.com",
+          message: "Help",
+          status: "open",
+          replies: [],
+          createdAt: now,
+          updatedAt: now,
+        });
+        await ctx.db.insert("rateLimits", {
+          key: `chat:user:${userId}`,
+          tokens: 1,
+          updatedAt: now,
+        });
+      }
+    });
+
+    await alice.mutation(api.retention.deleteAllMyData, {});
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+    const left = await t.run(async (ctx) => ({
+      chats: await ctx.db.query("chats").collect(),
+      uploads: await ctx.db.query("uploads").collect(),
+      tickets: await ctx.db.query("supportTickets").collect(),
+      rateLimits: await ctx.db.query("rateLimits").collect(),
+      aliceFile: await ctx.db.system.get(aliceFile),
+    }));
+    expect(left.chats).toEqual([]);
+    expect(left.aliceFile).toBeNull();
+    expect(left.uploads.map((u) => u.storageId)).toEqual([bobFile]);
+    expect(left.tickets.map((ticket) => ticket.userId)).toEqual(["user_bob"]);
+    expect(left.rateLimits.map((row) => row.key)).toEqual([
+      "chat:user:user_bob",
+    ]);
+  });
+
+  test("requires a signed-in user", async () => {
+    const { t } = setup();
+    await expect(t.mutation(api.retention.deleteAllMyData, {})).rejects.toThrow(
+      "UNAUTHENTICATED",
+    );
+  });
+});
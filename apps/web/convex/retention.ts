@@ -0,0 +1,294 @@
+// convex/retention.ts
+import { v } from "convex/values";
+import { internalMutation, mutation, MutationCtx } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+import { getUpload, requireUserId } from "./auth";
+import { deleteUserRateLimits } from "./rateLimits";
+import { deleteShares } from "./shares";
+
+// Days a chat stays in the trash before the daily cron purges it
+const RETENTION_DAYS = Number(process.env.CHAT_RETENTION_DAYS ?? 30);
+export const CHAT_RETENTION_MS = RETENTION_DAYS * 24 * 60 * 60 * 1000;
+
+// Keeps each mutation well inside Convex's write limits, work that doesn't
+// fit is rescheduled
+const CHAT_BATCH = 10;
+const MESSAGE_BATCH = 200;
+const ROW_BATCH = 100;
+
+// Only files `userId` uploaded are deleted. Edited messages reuse their
+// original's photos, so a file may already be gone.
+export async function deleteFile(
+  ctx: MutationCtx,
+  storageId: Id<"_storage">,
+  userId: string,
+) {
+  const upload = await getUpload(ctx, storageId);
+  if (upload?.userId !== userId) return;
+  await ctx.db.delete(upload._id);
+
+  if (await ctx.db.system.get(storageId)) {
+    await ctx.storage.delete(storageId);
+  }
+}
+
+/** Deletes a report with its file, parsed lab values and share links */
+export async function purgeReport(ctx: MutationCtx, report: Doc<"reports">) {
+  const labResults = await ctx.db
+    .query("labResults")
+    .withIndex("by_report", (q) => q.eq("reportId", report._id))
+    .collect();
+  for (const row of labResults) {
+    await ctx.db.delete(row._id);
+  }
+
+  await deleteShares(ctx, { reportId: report._id });
+  await deleteFile(ctx, report.fileId, report.userId);
+  await ctx.db.delete(report._id);
+}
+
+/**
+ * Deletes a chat with its messages, photos, linked reports, vet summaries
+ * and share links. Long chats take several calls, returns false while messages
+ * remain.
+ */
+export async function purgeChat(ctx: MutationCtx, chatId: Id<"chats">) {
+  const chat = await ctx.db.get(chatId);
+  if (!chat) return true;
+
+  const messages = await ctx.db
+    .query("messages")
+    .withIndex("by_chat", (q) => q.eq("chatId", chatId))
+    .take(MESSAGE_BATCH);
+  for (const message of messages) {
+    for (const attachment of message.attachments ?? []) {
+      await deleteFile(ctx, attachment.storageId, chat.userId);
+    }
+    await ctx.db.delete(message._id);
+  }
+  if (messages.length === MESSAGE_BATCH) return false;
+
+  const reports = await ctx.db
+    .query("reports")
+    .withIndex("by_chat", (q) => q.eq("chatId", chatId))
+    .collect();
+  for (const report of reports) {
+    await purgeReport(ctx, report);
+  }
+
+  const summaries = await ctx.db
+    .query("vetSummaries")
+    .withIndex("by_chat", (q) => q.eq("chatId", chatId))
+    .collect();
+  for (const summary of summaries) {
+    await deleteFile(ctx, summary.fileId, summary.userId);
+    await ctx.db.delete(summary._id);
+  }
+
+  await deleteShares(ctx, { chatId });
+  await ctx.db.delete(chatId);
+  return true;
+}
+
+// ==================== MUTATIONS ====================
+
+/**
+ * Wipes every chat, report, lab value, animal profile, file, email log entry,
+ * support ticket, rate limit and setting of the user
+ */
+export const deleteAllMyData = mutation({
+  args: {},
+  returns: v.null(),
+  handler: async (ctx) => {
+    const userId = await requireUserId(ctx);
+
+    await ctx.scheduler.runAfter(0, internal.retention.purgeUserData, {
+      userId,
+      trashOnly: false,
+    });
+
+    return null;
+  },
+});
+
+// ==================== INTERNAL ====================
+
+/** Finishes purging a chat that didn't fit in one mutation */
+export const purgeChatById = internalMutation({
+  args: { chatId: v.id("chats") },
+  returns: v.null(),
+  handler: async (ctx, { chatId }) => {
+    if (!(await ctx.db.get(chatId))) return null;
+
+    const done = await purgeChat(ctx, chatId);
+    if (!done) {
+      await ctx.scheduler.runAfter(0, internal.retention.purgeChatById, {
+        chatId,
+      });
+    }
+
+    return null;
+  },
+});
+
+/**
+ * Purges a user's trashed chats, or with `trashOnly: false` everything they
+ * own. Reschedules itself until nothing is left.
+ */
+export const purgeUserData = internalMutation({
+  args: { userId: v.string(), trashOnly: v.boolean() },
+  returns: v.null(),
+  handler: async (ctx, { userId, trashOnly }) => {
+    const reschedule = () =>
+      ctx.scheduler.runAfter(0, internal.retention.purgeUserData, {
+        userId,
+        trashOnly,
+      });
+
+    const chats = trashOnly
+      ? await ctx.db
+          .query("chats")
+          .withIndex("by_user_active", (q) =>
+            q.eq("userId", userId).eq("isDeleted", true),
+          )
+          .take(CHAT_BATCH)
+      : await ctx.db
+          .query("chats")
+          .withIndex("by_user", (q) => q.eq("userId", userId))
+          .take(CHAT_BATCH);
+
+    if (chats.length > 0) {
+      for (const chat of chats) {
+        await purgeChat(ctx, chat._id);
+      }
+      await reschedule();
+      return null;
+    }
+    if (trashOnly) return null;
+
+    // Reports uploaded outside a chat, and what they reference
+    const reports = await ctx.db
+      .query("reports")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .take(ROW_BATCH);
+    for (const report of reports) {
+      await purgeReport(ctx, report);
+    }
+
+    const labResults = await ctx.db
+      .query("labResults")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .take(ROW_BATCH);
+    for (const row of labResults) {
+      await ctx.db.delete(row._id);
+    }
+
+    const notes = await ctx.db
+      .query("healthNotes")
+      .withIndex("by_user_reminder", (q) => q.eq("userId", userId))
+      .take(ROW_BATCH);
+    for (const note of notes) {
+      await ctx.db.delete(note._id);
+    }
+
+    const animals = await ctx.db
+      .query("animals")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .take(ROW_BATCH);
+    for (const animal of animals) {
+      if (animal.photoId) await deleteFile(ctx, animal.photoId, userId);
+      await ctx.db.delete(animal._id);
+    }
+
+    const emails = await ctx.db
+      .query("emailLog")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .take(ROW_BATCH);
+    for (const email of emails) {
+      await ctx.db.delete(email._id);
+    }
+
+    const usage = await ctx.db
+      .query("dailyUsage")
+      .withIndex("by_user_day", (q) => q.eq("userId", userId))
+      .take(ROW_BATCH);
+    for (const row of usage) {
+      await ctx.db.delete(row._id);
+    }
+
+    const tickets = await ctx.db
+      .query("supportTickets")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .take(ROW_BATCH);
+    for (const ticket of tickets) {
+      await ctx.db.delete(ticket._id);
+    }
+
+    // Files nothing references any more, e.g. import archives
+    const uploads = await ctx.db
+      .query("uploads")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .take(ROW_BATCH);
+    for (const upload of uploads) {
+      await deleteFile(ctx, upload.storageId, userId);
+    }
+
+    await deleteUserRateLimits(ctx, userId);
+
+    const settings = await ctx.db
+      .query("userSettings")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .unique();
+    if (settings) await ctx.db.delete(settings._id);
+
+    if (
+      reports.length +
+        labResults.length +
+        notes.length +
+        animals.length +
+        emails.length +
+        usage.length +
+        tickets.length +
+        uploads.length >
+      0
+    ) {
+      await reschedule();
+    }
+
+    return null;
+  },
+});
+
+/** Daily cron: purges chats that have been in the trash past retention */
+export const purgeExpiredChats = internalMutation({
+  args: {},
+  returns: v.null(),
+  handler: async (ctx) => {
+    const cutoff = Date.now() - CHAT_RETENTION_MS;
+
+    // Chats trashed before deletedAt existed sort first (undefined)
+    const chats = await ctx.db
+      .query("chats")
+      .withIndex("by_deleted", (q) =>
+        q.eq("isDeleted", true).lt("deletedAt", cutoff),
+      )
+      .take(CHAT_BATCH);
+
+    let hasMore = chats.length === CHAT_BATCH;
+    for (const chat of chats) {
+      if (chat.deletedAt === undefined && chat.updatedAt > cutoff) {
+        // softDeleteChat bumped updatedAt, so it's the deletion time
+        await ctx.db.patch(chat._id, { deletedAt: chat.updatedAt });
+        continue;
+      }
+      if (!(await purgeChat(ctx, chat._id))) hasMore = true;
+    }
+
+    if (hasMore) {
+      await ctx.scheduler.runAfter(0, internal.retention.purgeExpiredChats, {});
+    }
+
+    return null;
+  },
+});
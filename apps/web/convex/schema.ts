@@ -1,6 +1,13 @@
 // convex/schema.ts
 import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
+import { attachmentValidator } from "./attachments";
+import { emailKindValidator, emailStatusValidator } from "./emails";
+import { emergencyValidator } from "./emergency";
+import { labFlagValidator } from "./labs";
+import { ticketStatusValidator } from "./support";
+import { triageValidator } from "./triage";
+import { vetSummaryValidator } from "./vetSummaries";
 
 export default defineSchema({
   chats: defineTable({
@@ -9,14 +16,26 @@ export default defineSchema({
     createdAt: v.number(),
     updatedAt: v.number(), // Required for proper sorting
     isDeleted: v.boolean(), // Required (no optional for index fields)
+    deletedAt: v.optional(v.number()), // Moved to trash, purged after retention
     messageCount: v.number(), // Denormalized counter
+    animalId: v.optional(v.id("animals")), // Profile injected into the chat context
+    urgentAt: v.optional(v.number()), // Last time a reply was triaged URGENT
+    emergency: v.optional(emergencyValidator), // Pinned emergency guidance
   })
     .index("by_user_active", ["userId", "isDeleted", "updatedAt"])
     .index("by_user_created", ["userId", "isDeleted", "createdAt"])
-    .index("by_user", ["userId"]),
+    .index("by_user", ["userId"])
+    .index("by_animal", ["animalId"])
+    .index("by_user_urgent", ["userId", "isDeleted", "urgentAt"])
+    .index("by_deleted", ["isDeleted", "deletedAt"])
+    .searchIndex("search_name", {
+      searchField: "name",
+      filterFields: ["userId", "isDeleted"],
+    }),
 
   messages: defineTable({
     chatId: v.id("chats"),
+    userId: v.optional(v.string()), // Denormalized from the chat for search scoping
     role: v.union(
       v.literal("user"),
       v.literal("assistant"),
@@ -29,25 +48,195 @@ export default defineSchema({
       v.literal("sent"),
       v.literal("error"),
     ),
-    tokens: v.optional(v.number()),
+    tokens: v.optional(v.number()), // Estimate used to fit the context window
+    promptTokens: v.optional(v.number()), // Reported by the provider, assistant replies only
+    completionTokens: v.optional(v.number()),
+    triage: v.optional(triageValidator), // Parsed from assistant replies
+    attachments: v.optional(v.array(attachmentValidator)), // User photos
+    parentId: v.optional(v.id("messages")), // Previous message on its branch
+    branchOf: v.optional(v.id("messages")), // First version, for regenerated or edited messages
+    hidden: v.optional(v.boolean()), // On a branch that isn't selected
     createdAt: v.number(),
     updatedAt: v.optional(v.number()),
   })
     .index("by_chat", ["chatId", "createdAt"]) // Oldest first
+    .index("by_chat_visible", ["chatId", "hidden", "createdAt"])
+    .index("by_parent", ["parentId", "createdAt"])
+    .index("by_branch", ["branchOf", "createdAt"])
     .index("by_chat_desc", ["chatId"]) // Newest first (auto _creationTime)
-    .index("by_status", ["status", "createdAt"]),
+    .index("by_status", ["status", "createdAt"])
+    .searchIndex("search_content", {
+      searchField: "content",
+      filterFields: ["userId", "hidden"],
+    }),
 
   reports: defineTable({
     userId: v.string(),
     chatId: v.optional(v.id("chats")), // in uploaded from chat
+    animalId: v.optional(v.id("animals")),
     fileId: v.id("_storage"),
     fileName: v.string(),
     mimeType: v.string(), // e.g application/pdf
     sizeBytes: v.number(),
     analysis: v.optional(v.string()), // AI generated analysis content
+    extractedText: v.optional(v.string()), // PDF/DOCX text, reused on re-analysis
     createdAt: v.number(),
     updatedAt: v.optional(v.number()),
   })
     .index("by_user", ["userId", "createdAt"])
-    .index("by_chat", ["chatId", "createdAt"]),
+    .index("by_chat", ["chatId", "createdAt"])
+    .index("by_animal", ["animalId", "createdAt"]),
+
+  labResults: defineTable({
+    userId: v.string(),
+    reportId: v.id("reports"),
+    animalId: v.optional(v.id("animals")),
+    analyte: v.string(), // display name, e.g "ALT"
+    analyteKey: v.string(), // stable key for trends across labs, e.g "alt"
+    value: v.number(),
+    valueText: v.string(), // as printed, e.g "1,245 H"
+    unit: v.string(),
+    referenceLow: v.optional(v.number()),
+    referenceHigh: v.optional(v.number()),
+    referenceSource: v.optional(
+      v.union(v.literal("report"), v.literal("species")),
+    ),
+    flag: v.optional(labFlagValidator),
+    measuredAt: v.number(), // report upload time, the lab's own date isn't parsed
+    createdAt: v.number(),
+  })
+    .index("by_report", ["reportId"])
+    .index("by_animal_analyte", ["animalId", "analyteKey", "measuredAt"])
+    .index("by_user", ["userId", "measuredAt"]),
+
+  vetSummaries: defineTable({
+    userId: v.string(),
+    chatId: v.id("chats"),
+    animalId: v.optional(v.id("animals")),
+    summary: vetSummaryValidator, // Structured fields the PDF was rendered from
+    fileId: v.id("_storage"), // Rendered PDF
+    createdAt: v.number(),
+  }).index("by_chat", ["chatId", "createdAt"]),
+
+  // Public read-only links to a chat or a report, one of the two ids is set
+  shares: defineTable({
+    userId: v.string(),
+    token: v.string(), // Unguessable, the only thing the public page gets
+    chatId: v.optional(v.id("chats")),
+    reportId: v.optional(v.id("reports")),
+    expiresAt: v.optional(v.number()), // No expiry when unset
+    revokedAt: v.optional(v.number()),
+    createdAt: v.number(),
+  })
+    .index("by_token", ["token"])
+    .index("by_chat", ["chatId"])
+    .index("by_report", ["reportId"]),
+
+  // Every email sent through lib/mailer, with its delivery status
+  emailLog: defineTable({
+    userId: v.optional(v.string()), // Unset for signed-out contact form sends
+    kind: emailKindValidator,
+    to: v.string(),
+    subject: v.string(),
+    transport: v.union(v.literal("resend"), v.literal("local")),
+    status: emailStatusValidator,
+    providerId: v.optional(v.string()), // Resend email id
+    error: v.optional(v.string()),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  }).index("by_user", ["userId", "createdAt"]),
+
+  // Contact form submissions, answered from /chat/support
+  supportTickets: defineTable({
+    userId: v.optional(v.string()), // Set when the sender was signed in
+    name: v.string(),
+    email: v.string(),
+    message: v.string(),
+    status: ticketStatusValidator,
+    replies: v.array(
+      v.object({
+        body: v.string(),
+        staffId: v.string(),
+        sentAt: v.number(),
+      }),
+    ),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_status", ["status", "updatedAt"])
+    .index("by_user", ["userId"]),
+
+  // Who uploaded each storage file, checked before a file is referenced or
+  // deleted so ids can't be used across accounts
+  uploads: defineTable({
+    storageId: v.id("_storage"),
+    userId: v.string(),
+    createdAt: v.number(),
+  })
+    .index("by_storage", ["storageId"])
+    .index("by_user", ["userId"]),
+
+  userSettings: defineTable({
+    userId: v.string(),
+    emailOnAnalysisReady: v.optional(v.boolean()), // Opt-in
+    timeZone: v.optional(v.string()), // IANA zone from the browser, e.g Asia/Kolkata
+    // Zone change waiting for the day it was made on (`after`, in the old
+    // zone) to end, so switching zones can't start a fresh quota day early
+    pendingTimeZone: v.optional(
+      v.object({ timeZone: v.string(), after: v.string() }),
+    ),
+    updatedAt: v.number(),
+  }).index("by_user", ["userId"]),
+
+  // Per-user message counts per calendar day in the user's time zone,
+  // maintained by the message mutations
+  dailyUsage: defineTable({
+    userId: v.string(),
+    day: v.string(), // YYYY-MM-DD
+    userMessages: v.number(),
+    assistantMessages: v.number(),
+    promptTokens: v.optional(v.number()), // As reported by the provider
+    completionTokens: v.optional(v.number()),
+    updatedAt: v.number(),
+  }).index("by_user_day", ["userId", "day"]),
+
+  // Token buckets for the API routes, see rateLimits.ts
+  rateLimits: defineTable({
+    key: v.string(), // route:user:<id> or route:ip:<address>
+    tokens: v.number(), // Left as of updatedAt, refills over time
+    updatedAt: v.number(),
+  })
+    .index("by_key", ["key"])
+    .index("by_updated", ["updatedAt"]),
+
+  animals: defineTable({
+    userId: v.string(),
+    name: v.string(),
+    species: v.string(), // e.g dog, cat, cow, goat
+    breed: v.optional(v.string()),
+    sex: v.union(v.literal("male"), v.literal("female"), v.literal("unknown")),
+    dateOfBirth: v.optional(v.number()), // epoch ms, approximate is fine
+    isNeutered: v.optional(v.boolean()),
+    weightHistory: v.array(
+      v.object({
+        weightKg: v.number(),
+        recordedAt: v.number(),
+      }),
+    ), // Oldest first
+    photoId: v.optional(v.id("_storage")),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  }).index("by_user", ["userId", "updatedAt"]),
+
+  // Free-form health notes on an animal, a note with remindAt is a reminder
+  healthNotes: defineTable({
+    userId: v.string(),
+    animalId: v.id("animals"),
+    body: v.string(),
+    remindAt: v.optional(v.number()),
+    doneAt: v.optional(v.number()), // Reminder dismissed
+    createdAt: v.number(),
+  })
+    .index("by_animal", ["animalId", "createdAt"])
+    .index("by_user_reminder", ["userId", "doneAt", "remindAt"]),
 });
@@ -0,0 +1,93 @@
+// convex/settings.ts
+import { v } from "convex/values";
+import { Doc } from "./_generated/dataModel";
+import { mutation, query } from "./_generated/server";
+import { getUserId, requireUserId } from "./auth";
+import { dayKey, effectiveTimeZone, getDailyUsage } from "./usage";
+
+const DEFAULT_SETTINGS = {
+  emailOnAnalysisReady: false,
+  timeZone: null as string | null,
+};
+
+// ==================== QUERIES ====================
+
+export const getMySettings = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getUserId(ctx);
+    if (!userId) return DEFAULT_SETTINGS;
+
+    const settings = await ctx.db
+      .query("userSettings")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .unique();
+
+    return {
+      emailOnAnalysisReady:
+        settings?.emailOnAnalysisReady ?? DEFAULT_SETTINGS.emailOnAnalysisReady,
+      // The zone last requested, even when it only applies tomorrow
+      timeZone:
+        settings?.pendingTimeZone?.timeZone ??
+        settings?.timeZone ??
+        DEFAULT_SETTINGS.timeZone,
+    };
+  },
+});
+
+// ==================== MUTATIONS ====================
+
+export const updateMySettings = mutation({
+  args: {
+    emailOnAnalysisReady: v.optional(v.boolean()),
+    // Decides which day messages count towards in dailyUsage, changes
+    // apply from the next day once today has usage
+    timeZone: v.optional(v.string()),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const userId = await requireUserId(ctx);
+
+    const existing = await ctx.db
+      .query("userSettings")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .unique();
+
+    const { timeZone, ...rest } = args;
+    const now = Date.now();
+    const updates: Partial<Doc<"userSettings">> = { ...rest, updatedAt: now };
+
+    if (timeZone !== undefined) {
+      try {
+        dayKey(now, timeZone);
+      } catch {
+        throw new Error("Invalid time zone");
+      }
+
+      // Once something counted towards today, a new zone waits for today to
+      // end, otherwise moving the clock would reset the daily quota
+      const current = effectiveTimeZone(existing, now);
+      const today = dayKey(now, current);
+      const usedToday = await getDailyUsage(ctx, userId, today);
+      if (timeZone === current || !usedToday) {
+        updates.timeZone = timeZone;
+        updates.pendingTimeZone = undefined;
+      } else {
+        updates.timeZone = current;
+        updates.pendingTimeZone = { timeZone, after: today };
+      }
+    }
+
+    if (existing) {
+      await ctx.db.patch(existing._id, updates);
+    } else {
+      await ctx.db.insert("userSettings", {
+        userId,
+        ...updates,
+        updatedAt: now,
+      });
+    }
+
+    return null;
+  },
+});
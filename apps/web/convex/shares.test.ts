@@ -0,0 +1,45 @@
+import { afterEach, describe, expect, test, vi } from "vitest";
+import { api } from "./_generated/api";
+import { seedChat, setup } from "./test.setup";
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("shares", () => {
+  test("links stop resolving once they expire", async () => {
+    vi.useFakeTimers();
+    const { t, alice } = setup();
+    const { chatId } = await seedChat(t, "user_alice");
+
+    const token = await alice.mutation(api.shares.createShare, {
+      chatId,
+      expiresInDays: 1,
+    });
+    expect(await t.query(api.shares.getSharedContent, { token })).toMatchObject(
+      { kind: "chat" },
+    );
+
+    vi.advanceTimersByTime(24 * 60 * 60 * 1000);
+    await t.finishInProgressScheduledFunctions();
+
+    expect(await t.query(api.shares.getSharedContent, { token })).toBeNull();
+    expect(await alice.query(api.shares.getShares, { chatId })).toEqual([]);
+  });
+
+  test("only the owner can share or revoke", async () => {
+    const { t, alice, bob } = setup();
+    const { chatId } = await seedChat(t, "user_alice");
+
+    await expect(
+      bob.mutation(api.shares.createShare, { chatId }),
+    ).rejects.toThrow("FORBIDDEN");
+
+    await alice.mutation(api.shares.createShare, { chatId });
+    const [share] = await alice.query(api.shares.getShares, { chatId });
+    await expect(
+      bob.mutation(api.shares.revokeShare, { shareId: share._id }),
+    ).rejects.toThrow("FORBIDDEN");
+    expect(await bob.query(api.shares.getShares, { chatId })).toEqual([]);
+  });
+});
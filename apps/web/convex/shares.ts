@@ -0,0 +1,237 @@
+// convex/shares.ts
+import { v } from "convex/values";
+import {
+  internalMutation,
+  mutation,
+  MutationCtx,
+  query,
+  QueryCtx,
+} from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+import { withAttachmentUrls } from "./attachments";
+import {
+  getUserId,
+  requireActiveChat,
+  requireOwned,
+  requireUserId,
+} from "./auth";
+
+// Shared chats render at most this many of their latest messages
+const MAX_SHARED_MESSAGES = 500;
+
+// 24 random bytes as base64url, 32 characters
+function generateToken() {
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+// Expired links are revoked by expireShare, scheduled at expiresAt, so the
+// cached queries below never depend on the current time
+function isActive(share: Doc<"shares">) {
+  return !share.revokedAt;
+}
+
+async function assertOwnsTarget(
+  ctx: QueryCtx,
+  userId: string,
+  target: { chatId?: Id<"chats">; reportId?: Id<"reports"> },
+) {
+  if (!!target.chatId === !!target.reportId) {
+    throw new Error("Share either a chat or a report");
+  }
+
+  if (target.chatId) {
+    await requireActiveChat(ctx, target.chatId, userId);
+  } else {
+    await requireOwned(ctx, "reports", target.reportId!, userId);
+  }
+}
+
+/** Removes share links when what they point to is deleted */
+export async function deleteShares(
+  ctx: MutationCtx,
+  target: { chatId: Id<"chats"> } | { reportId: Id<"reports"> },
+) {
+  const shares =
+    "chatId" in target
+      ? await ctx.db
+          .query("shares")
+          .withIndex("by_chat", (q) => q.eq("chatId", target.chatId))
+          .collect()
+      : await ctx.db
+          .query("shares")
+          .withIndex("by_report", (q) => q.eq("reportId", target.reportId))
+          .collect();
+  for (const share of shares) {
+    await ctx.db.delete(share._id);
+  }
+}
+
+// ==================== QUERIES ====================
+
+/** The owner's active links for a chat or report */
+export const getShares = query({
+  args: {
+    chatId: v.optional(v.id("chats")),
+    reportId: v.optional(v.id("reports")),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getUserId(ctx);
+    if (!userId) return [];
+
+    const shares = args.chatId
+      ? await ctx.db
+          .query("shares")
+          .withIndex("by_chat", (q) => q.eq("chatId", args.chatId))
+          .collect()
+      : await ctx.db
+          .query("shares")
+          .withIndex("by_report", (q) => q.eq("reportId", args.reportId))
+          .collect();
+
+    return shares
+      .filter((s) => s.userId === userId && isActive(s))
+      .map((s) => ({
+        _id: s._id,
+        token: s.token,
+        expiresAt: s.expiresAt,
+        createdAt: s.createdAt,
+      }));
+  },
+});
+
+/**
+ * Public: resolves a share token to read-only content. Anyone with the
+ * token can read it, so only what the page renders is returned.
+ */
+export const getSharedContent = query({
+  args: { token: v.string() },
+  handler: async (ctx, { token }) => {
+    const share = await ctx.db
+      .query("shares")
+      .withIndex("by_token", (q) => q.eq("token", token))
+      .unique();
+    if (!share || !isActive(share)) return null;
+
+    if (share.chatId) {
+      const chat = await ctx.db.get(share.chatId);
+      if (!chat || chat.isDeleted) return null;
+
+      const messages = await ctx.db
+        .query("messages")
+        .withIndex("by_chat_visible", (q) =>
+          q.eq("chatId", chat._id).eq("hidden", undefined),
+        )
+        .order("desc")
+        .take(MAX_SHARED_MESSAGES);
+
+      return {
+        kind: "chat" as const,
+        expiresAt: share.expiresAt,
+        name: chat.name,
+        messages: await Promise.all(
+          messages
+            .filter((m) => m.role !== "system" && m.status !== "error")
+            .map(async (m) => {
+              const { attachments } = await withAttachmentUrls(ctx, m);
+              return {
+                _id: m._id,
+                role: m.role,
+                content: m.content,
+                status: m.status,
+                triage: m.triage,
+                attachments: attachments.map((a) => ({
+                  url: a.url,
+                  name: a.name,
+                })),
+                createdAt: m.createdAt,
+              };
+            }),
+        ),
+      };
+    }
+
+    const report = share.reportId ? await ctx.db.get(share.reportId) : null;
+    if (!report) return null;
+
+    return {
+      kind: "report" as const,
+      expiresAt: share.expiresAt,
+      fileName: report.fileName,
+      analysis: report.analysis ?? "",
+      createdAt: report.createdAt,
+    };
+  },
+});
+
+// ==================== MUTATIONS ====================
+
+export const createShare = mutation({
+  args: {
+    chatId: v.optional(v.id("chats")),
+    reportId: v.optional(v.id("reports")),
+    expiresInDays: v.optional(v.number()),
+  },
+  returns: v.string(),
+  handler: async (ctx, { chatId, reportId, expiresInDays }) => {
+    const userId = await requireUserId(ctx);
+
+    await assertOwnsTarget(ctx, userId, { chatId, reportId });
+    if (expiresInDays !== undefined && expiresInDays <= 0) {
+      throw new Error("Expiry must be in the future");
+    }
+
+    const now = Date.now();
+    const token = generateToken();
+    const expiresAt = expiresInDays
+      ? now + expiresInDays * 24 * 60 * 60 * 1000
+      : undefined;
+    const shareId = await ctx.db.insert("shares", {
+      userId,
+      token,
+      chatId,
+      reportId,
+      expiresAt,
+      createdAt: now,
+    });
+    if (expiresAt) {
+      await ctx.scheduler.runAt(expiresAt, internal.shares.expireShare, {
+        shareId,
+      });
+    }
+
+    return token;
+  },
+});
+
+export const revokeShare = mutation({
+  args: { shareId: v.id("shares") },
+  returns: v.null(),
+  handler: async (ctx, { shareId }) => {
+    const userId = await requireUserId(ctx);
+
+    await requireOwned(ctx, "shares", shareId, userId);
+
+    await ctx.db.patch(shareId, { revokedAt: Date.now() });
+
+    return null;
+  },
+});
+
+/** Revokes a link once its expiry passes, see createShare */
+export const expireShare = internalMutation({
+  args: { shareId: v.id("shares") },
+  returns: v.null(),
+  handler: async (ctx, { shareId }) => {
+    const share = await ctx.db.get(shareId);
+    if (!share || share.revokedAt || !share.expiresAt) return null;
+
+    await ctx.db.patch(shareId, { revokedAt: share.expiresAt });
+
+    return null;
+  },
+});
@@ -0,0 +1,136 @@
+// convex/support.ts
+import { v } from "convex/values";
+import { paginationOptsValidator } from "convex/server";
+import { mutation, query, QueryCtx } from "./_generated/server";
+import {
+  assertServerSecret,
+  forbidden,
+  getUserId,
+  notFound,
+  requireUserId,
+} from "./auth";
+
+export const ticketStatusValidator = v.union(
+  v.literal("open"),
+  v.literal("replied"),
+  v.literal("closed"),
+);
+
+// Clerk user ids allowed to see and answer tickets, comma separated
+function staffIds() {
+  return (process.env.SUPPORT_STAFF_USER_IDS ?? "")
+    .split(",")
+    .map((id) => id.trim())
+    .filter(Boolean);
+}
+
+async function requireStaff(ctx: QueryCtx) {
+  const userId = await requireUserId(ctx);
+  if (!staffIds().includes(userId)) throw forbidden();
+  return userId;
+}
+
+// ==================== QUERIES ====================
+
+export const isSupportStaff = query({
+  args: {},
+  returns: v.boolean(),
+  handler: async (ctx) => {
+    const userId = await getUserId(ctx);
+    return !!userId && staffIds().includes(userId);
+  },
+});
+
+/** Staff: tickets with a status, most recently active first */
+export const getTickets = query({
+  args: {
+    status: ticketStatusValidator,
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (ctx, { status, paginationOpts }) => {
+    await requireStaff(ctx);
+
+    return await ctx.db
+      .query("supportTickets")
+      .withIndex("by_status", (q) => q.eq("status", status))
+      .order("desc")
+      .paginate(paginationOpts);
+  },
+});
+
+export const getTicket = query({
+  args: { ticketId: v.id("supportTickets") },
+  handler: async (ctx, { ticketId }) => {
+    await requireStaff(ctx);
+
+    return await ctx.db.get(ticketId);
+  },
+});
+
+// ==================== MUTATIONS ====================
+
+// Called by the contact form's server action, visitors don't need an account
+export const createTicket = mutation({
+  args: {
+    serverSecret: v.string(),
+    userId: v.optional(v.string()),
+    name: v.string(),
+    email: v.string(),
+    message: v.string(),
+  },
+  returns: v.id("supportTickets"),
+  handler: async (ctx, { serverSecret, ...ticket }) => {
+    assertServerSecret(serverSecret);
+
+    const now = Date.now();
+    return await ctx.db.insert("supportTickets", {
+      ...ticket,
+      status: "open",
+      replies: [],
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+/** Records a reply once it has been emailed, and marks the ticket replied */
+export const addTicketReply = mutation({
+  args: {
+    ticketId: v.id("supportTickets"),
+    body: v.string(),
+  },
+  returns: v.null(),
+  handler: async (ctx, { ticketId, body }) => {
+    const staffId = await requireStaff(ctx);
+
+    const ticket = await ctx.db.get(ticketId);
+    if (!ticket) throw notFound("Ticket");
+
+    const now = Date.now();
+    await ctx.db.patch(ticketId, {
+      replies: [...ticket.replies, { body, staffId, sentAt: now }],
+      status: "replied",
+      updatedAt: now,
+    });
+
+    return null;
+  },
+});
+
+export const setTicketStatus = mutation({
+  args: {
+    ticketId: v.id("supportTickets"),
+    status: ticketStatusValidator,
+  },
+  returns: v.null(),
+  handler: async (ctx, { ticketId, status }) => {
+    await requireStaff(ctx);
+
+    const ticket = await ctx.db.get(ticketId);
+    if (!ticket) throw notFound("Ticket");
+
+    await ctx.db.patch(ticketId, { status, updatedAt: Date.now() });
+
+    return null;
+  },
+});
@@ -0,0 +1,101 @@
+/// <reference types="vite/client" />
+import { convexTest } from "convex-test";
+import schema from "./schema";
+import { Id } from "./_generated/dataModel";
+
+// Every Convex function module, for convexTest(schema, modules)
+export const modules = import.meta.glob([
+  "./**/*.ts",
+  "./_generated/*.js",
+  "!./**/*.d.ts",
+  "!./**/*.*.ts",
+]);
+
+export const SERVER_SECRET = process.env.CONVEX_SERVER_SECRET!;
+
+/** A fresh backend with two signed-in users */
+export function setup() {
+  const t = convexTest(schema, modules);
+  return {
+    t,
+    alice: t.withIdentity({ subject: "user_alice" }),
+    bob: t.withIdentity({ subject: "user_bob" }),
+  };
+}
+
+type TestConvex = ReturnType<typeof setup>["t"];
+
+/** A chat owned by `userId` with one user message */
+export async function seedChat(
+  t: TestConvex,
+  userId: string,
+  chat: { isDeleted?: boolean; name?: string } = {},
+) {
+  return await t.run(async (ctx) => {
+    const now = Date.now();
+    const chatId = await ctx.db.insert("chats", {
+      name: chat.name ?? "Limping dog",
+      userId,
+      createdAt: now,
+      updatedAt: now,
+      isDeleted: chat.isDeleted ?? false,
+      deletedAt: chat.isDeleted ? now : undefined,
+      messageCount: 1,
+    });
+    const messageId = await ctx.db.insert("messages", {
+      chatId,
+      userId,
+      role: "user",
+      content: "My dog is limping on the left hind leg",
+      status: "sent",
+      createdAt: now,
+      tokens: 10,
+    });
+    return { chatId, messageId };
+  });
+}
+
+/** A stored file registered as uploaded by `userId` */
+export async function seedFile(t: TestConvex, userId: string) {
+  return await t.run(async (ctx) => {
+    const storageId: Id<"_storage"> = await ctx.storage.store(
+      new Blob(["%PDF-1.4"], { type: "application/pdf" }),
+    );
+    await ctx.db.insert("uploads", {
+      storageId,
+      userId,
+      createdAt: Date.now(),
+    });
+    return storageId;
+  });
+}
+
+/** A report owned by `userId` */
+export async function seedReport(t: TestConvex, userId: string) {
+  const fileId = await seedFile(t, userId);
+  return await t.run((ctx) =>
+    ctx.db.insert("reports", {
+      userId,
+      fileId,
+      fileName: "bloodwork.pdf",
+      mimeType: "application/pdf",
+      sizeBytes: 8,
+      createdAt: Date.now(),
+    }),
+  );
+}
+
+/** An animal owned by `userId` */
+export async function seedAnimal(t: TestConvex, userId: string) {
+  return await t.run((ctx) =>
+    ctx.db.insert("animals", {
+      userId,
+      name: "Bruno",
+      species: "Dog",
+      sex: "male",
+      weightHistory: [],
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    }),
+  );
+}
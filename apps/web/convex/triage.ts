@@ -0,0 +1,55 @@
+// convex/triage.ts
+import { Infer, v } from "convex/values";
+
+export const triagePriorityValidator = v.union(
+  v.literal("ROUTINE"),
+  v.literal("MONITOR"),
+  v.literal("URGENT"),
+);
+
+export const triageValidator = v.object({
+  priority: triagePriorityValidator,
+  condition: v.optional(v.string()),
+  bodySystem: v.optional(v.string()),
+  redFlags: v.array(v.string()),
+});
+
+export type Triage = Infer<typeof triageValidator>;
+
+function boldField(content: string, label: string) {
+  const match = content.match(
+    new RegExp(`\\*\\*${label}:\\*\\*[ \\t]*([^\\n]+)`, "i"),
+  );
+  return match?.[1].replace(/[*_[\]]/g, "").trim() || undefined;
+}
+
+/**
+ * Pulls the structured triage out of a reply written in the format the
+ * system prompt asks for. Returns undefined when there's no Priority line.
+ */
+export function parseTriage(content: string): Triage | undefined {
+  const priority = content
+    .match(/\*\*Priority:\*\*[ \t]*\[?[ \t]*(ROUTINE|MONITOR|URGENT)\b/i)?.[1]
+    ?.toUpperCase() as Triage["priority"] | undefined;
+  if (!priority) return undefined;
+
+  const redFlags = content
+    .split("\n")
+    .filter((line) => line.includes("⚠️"))
+    .map((line) =>
+      line
+        .replace(/^\s*(?:[-*]|\d+\.)\s*/, "")
+        .replace(/⚠️/g, "")
+        .replace(/\*\*/g, "")
+        .trim(),
+    )
+    .filter(Boolean)
+    .slice(0, 10);
+
+  return {
+    priority,
+    condition: boldField(content, "Condition"),
+    bodySystem: boldField(content, "System"),
+    redFlags,
+  };
+}
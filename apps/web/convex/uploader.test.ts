@@ -0,0 +1,181 @@
+import { afterEach, describe, expect, test, vi } from "vitest";
+import { api } from "./_generated/api";
+import { Id } from "./_generated/dataModel";
+import {
+  SERVER_SECRET,
+  seedAnimal,
+  seedChat,
+  seedFile,
+  seedReport,
+  setup,
+} from "./test.setup";
+
+type Fixture = ReturnType<typeof setup> & { reportId: Id<"reports"> };
+
+// A stored file nobody has registered yet
+const storeFile = (t: Fixture["t"]) =>
+  t.run((ctx) => ctx.storage.store(new Blob(["%PDF-1.4"])));
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("registerUpload", () => {
+  test("records the first caller and is idempotent for them", async () => {
+    const { t, alice, bob } = setup();
+    const storageId = await storeFile(t);
+
+    await alice.mutation(api.uploader.registerUpload, { storageId });
+    await alice.mutation(api.uploader.registerUpload, { storageId });
+    await expect(
+      bob.mutation(api.uploader.registerUpload, { storageId }),
+    ).rejects.toThrow("FORBIDDEN");
+  });
+
+  test("rejects files uploaded over an hour ago", async () => {
+    vi.useFakeTimers();
+    const { t, bob } = setup();
+    const storageId = await storeFile(t);
+
+    vi.setSystemTime(Date.now() + 2 * 60 * 60 * 1000);
+    await expect(
+      bob.mutation(api.uploader.registerUpload, { storageId }),
+    ).rejects.toThrow("FORBIDDEN");
+  });
+});
+
+describe("uploaded files", () => {
+  test("getUploadedFile reads the owner's stored file", async () => {
+    const { t, alice, bob } = setup();
+    const storageId = await seedFile(t, "user_alice");
+
+    expect(
+      await alice.query(api.uploader.getUploadedFile, { storageId }),
+    ).toMatchObject({ size: 8 });
+    await expect(
+      bob.query(api.uploader.getUploadedFile, { storageId }),
+    ).rejects.toThrow("FORBIDDEN");
+  });
+
+  test("discardUpload only deletes the caller's own file", async () => {
+    const { t, alice, bob } = setup();
+    const storageId = await seedFile(t, "user_alice");
+
+    await bob.mutation(api.uploader.discardUpload, { storageId });
+    expect(await t.run((ctx) => ctx.db.system.get(storageId))).not.toBeNull();
+
+    await alice.mutation(api.uploader.discardUpload, { storageId });
+    expect(await t.run((ctx) => ctx.db.system.get(storageId))).toBeNull();
+    expect(await t.run((ctx) => ctx.db.query("uploads").collect())).toEqual([]);
+  });
+});
+
+describe("uploader: other users' reports", () => {
+  // Alice owns the report, Bob calls
+  const rejected: [string, (f: Fixture) => Promise<unknown>][] = [
+    [
+      "saveAnalysis",
+      ({ bob, reportId }) =>
+        bob.mutation(api.uploader.saveAnalysis, { reportId, analysis: "x" }),
+    ],
+    [
+      "saveExtractedText",
+      ({ bob, reportId }) =>
+        bob.mutation(api.uploader.saveExtractedText, {
+          reportId,
+          extractedText: "x",
+        }),
+    ],
+    [
+      "askAboutReport",
+      ({ bob, reportId }) =>
+        bob.mutation(api.uploader.askAboutReport, { reportId }),
+    ],
+    [
+      "detachReport",
+      ({ bob, reportId }) =>
+        bob.mutation(api.uploader.detachReport, { reportId }),
+    ],
+    [
+      "deleteReport",
+      ({ bob, reportId }) =>
+        bob.mutation(api.uploader.deleteReport, { reportId }),
+    ],
+  ];
+
+  test.each(rejected)("%s throws FORBIDDEN", async (_, call) => {
+    const users = setup();
+    const reportId = await seedReport(users.t, "user_alice");
+
+    await expect(call({ ...users, reportId })).rejects.toThrow("FORBIDDEN");
+
+    // Every one of them touches updatedAt, deleteReport removes the row
+    const after = await users.t.run((ctx) => ctx.db.get(reportId));
+    expect(after).not.toBeNull();
+    expect(after?.updatedAt).toBeUndefined();
+  });
+
+  test("queries return nothing", async () => {
+    const { t, bob } = setup();
+    const reportId = await seedReport(t, "user_alice");
+    const { chatId } = await seedChat(t, "user_alice");
+    await t.run((ctx) => ctx.db.patch(reportId, { chatId }));
+
+    expect(
+      await bob.query(api.uploader.getReport, { id: reportId }),
+    ).toBeNull();
+    expect(await bob.query(api.uploader.getChatReports, { chatId })).toEqual(
+      [],
+    );
+    expect(await bob.query(api.uploader.getUserReports, {})).toEqual([]);
+  });
+
+  test("saveReport rejects another user's file, chat or animal", async () => {
+    const { t, bob } = setup();
+    const report = {
+      fileName: "bloodwork.pdf",
+      mimeType: "application/pdf",
+      sizeBytes: 8,
+    };
+    const aliceFile = await seedFile(t, "user_alice");
+    const bobFile = await seedFile(t, "user_bob");
+    const { chatId } = await seedChat(t, "user_alice");
+    const animalId = await seedAnimal(t, "user_alice");
+
+    await expect(
+      bob.mutation(api.uploader.saveReport, { ...report, fileId: aliceFile }),
+    ).rejects.toThrow("FORBIDDEN");
+    await expect(
+      bob.mutation(api.uploader.saveReport, {
+        ...report,
+        fileId: bobFile,
+        chatId,
+      }),
+    ).rejects.toThrow("FORBIDDEN");
+    await expect(
+      bob.mutation(api.uploader.saveReport, {
+        ...report,
+        fileId: bobFile,
+        animalId,
+      }),
+    ).rejects.toThrow("FORBIDDEN");
+  });
+
+  test("completeAnalysis requires the server secret", async () => {
+    const { t } = setup();
+    const reportId = await seedReport(t, "user_alice");
+
+    await expect(
+      t.mutation(api.uploader.completeAnalysis, {
+        serverSecret: "wrong",
+        reportId,
+        analysis: "x",
+      }),
+    ).rejects.toThrow("FORBIDDEN");
+    await t.mutation(api.uploader.completeAnalysis, {
+      serverSecret: SERVER_SECRET,
+      reportId,
+      analysis: "x",
+    });
+  });
+});
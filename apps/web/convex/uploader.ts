@@ -1,38 +1,154 @@
 import { v } from "convex/values";
 import { query, mutation } from "./_generated/server";
+import { replaceLabResults } from "./labs";
+import { deleteFile, purgeReport } from "./retention";
+import {
+  assertServerSecret,
+  forbidden,
+  getOwned,
+  getUpload,
+  getUserId,
+  notFound,
+  requireOwned,
+  requireOwnedFile,
+  requireUserId,
+} from "./auth";
 
 export const generateUploadUrl = mutation({
   args: {},
   handler: async (ctx) => {
-    const identity = await ctx.auth.getUserIdentity();
-    if (!identity) throw new Error("Unauthorized");
+    await requireUserId(ctx);
     return await ctx.storage.generateUploadUrl();
   },
 });
 
+// A file can only be claimed this soon after it was uploaded
+const REGISTER_WINDOW_MS = 60 * 60 * 1000;
+
+/**
+ * Records the caller as the uploader of a file they just stored via
+ * generateUploadUrl. Call it right after the upload, mutations that reference
+ * or delete files check it.
+ */
+export const registerUpload = mutation({
+  args: { storageId: v.id("_storage") },
+  returns: v.null(),
+  handler: async (ctx, { storageId }) => {
+    const userId = await requireUserId(ctx);
+
+    const file = await ctx.db.system.get(storageId);
+    if (!file) throw notFound("File");
+
+    const existing = await getUpload(ctx, storageId);
+    if (existing) {
+      if (existing.userId !== userId) throw forbidden();
+      return null;
+    }
+    if (Date.now() - file._creationTime > REGISTER_WINDOW_MS) {
+      throw forbidden();
+    }
+
+    await ctx.db.insert("uploads", {
+      storageId,
+      userId,
+      createdAt: Date.now(),
+    });
+
+    return null;
+  },
+});
+
+/** Size and URL of a file the caller uploaded, read by the analyze route */
+export const getUploadedFile = query({
+  args: { storageId: v.id("_storage") },
+  handler: async (ctx, { storageId }) => {
+    const userId = await requireUserId(ctx);
+    await requireOwnedFile(ctx, storageId, userId);
+
+    const file = await ctx.db.system.get(storageId);
+    if (!file) return null;
+    return { size: file.size, url: await ctx.storage.getUrl(storageId) };
+  },
+});
+
+/** Deletes an upload that never became a report, e.g. an unreadable file */
+export const discardUpload = mutation({
+  args: { storageId: v.id("_storage") },
+  returns: v.null(),
+  handler: async (ctx, { storageId }) => {
+    const userId = await requireUserId(ctx);
+    await deleteFile(ctx, storageId, userId);
+    return null;
+  },
+});
+
+/**
+ * Upload URL and registration for files the server stores for a user, e.g.
+ * imports that outlive the user's token
+ */
+export const generateServerUploadUrl = mutation({
+  args: { serverSecret: v.string() },
+  handler: async (ctx, { serverSecret }) => {
+    assertServerSecret(serverSecret);
+    return await ctx.storage.generateUploadUrl();
+  },
+});
+
+export const registerServerUpload = mutation({
+  args: {
+    serverSecret: v.string(),
+    userId: v.string(),
+    storageId: v.id("_storage"),
+  },
+  returns: v.null(),
+  handler: async (ctx, { serverSecret, userId, storageId }) => {
+    assertServerSecret(serverSecret);
+
+    if (await getUpload(ctx, storageId)) throw forbidden();
+    await ctx.db.insert("uploads", {
+      storageId,
+      userId,
+      createdAt: Date.now(),
+    });
+
+    return null;
+  },
+});
+
 export const saveReport = mutation({
   args: {
     chatId: v.optional(v.id("chats")),
+    animalId: v.optional(v.id("animals")),
     fileId: v.id("_storage"),
     fileName: v.string(),
     mimeType: v.string(),
     sizeBytes: v.number(),
     analysis: v.optional(v.string()),
+    extractedText: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
-    const identity = await ctx.auth.getUserIdentity();
-    if (!identity) throw new Error("Unauthorized");
+    const userId = await requireUserId(ctx);
 
     if (args.sizeBytes > 5 * 1024 * 1024) throw new Error("File too large");
 
+    if (args.animalId) {
+      await requireOwned(ctx, "animals", args.animalId, userId);
+    }
+    if (args.chatId) {
+      await requireOwned(ctx, "chats", args.chatId, userId);
+    }
+    await requireOwnedFile(ctx, args.fileId, userId);
+
     return await ctx.db.insert("reports", {
-      userId: identity.subject,
+      userId,
       chatId: args.chatId,
+      animalId: args.animalId,
       fileId: args.fileId,
       fileName: args.fileName,
       mimeType: args.mimeType,
       sizeBytes: args.sizeBytes,
       analysis: args.analysis,
+      extractedText: args.extractedText,
       createdAt: Date.now(),
     });
   },
@@ -44,31 +160,130 @@ export const saveAnalysis = mutation({
     analysis: v.string(),
   },
   handler: async (ctx, args) => {
-    const identity = await ctx.auth.getUserIdentity();
-    if (!identity) throw new Error("Unauthorized");
-
-    const report = await ctx.db.get(args.reportId);
-    if (!report || report.userId !== identity.subject) {
-      throw new Error("Not authorized");
-    }
+    const userId = await requireUserId(ctx);
+    const report = await requireOwned(ctx, "reports", args.reportId, userId);
 
     await ctx.db.patch(args.reportId, {
       analysis: args.analysis,
       updatedAt: Date.now(),
     });
+    await replaceLabResults(ctx, report, args.analysis);
+  },
+});
+
+// Saves an analysis the route kept generating after the browser went away
+export const completeAnalysis = mutation({
+  args: {
+    serverSecret: v.string(),
+    reportId: v.id("reports"),
+    analysis: v.string(),
+  },
+  returns: v.null(),
+  handler: async (ctx, { serverSecret, reportId, analysis }) => {
+    assertServerSecret(serverSecret);
+
+    const report = await ctx.db.get(reportId);
+    if (!report) throw notFound("Report");
+
+    await ctx.db.patch(reportId, { analysis, updatedAt: Date.now() });
+    await replaceLabResults(ctx, report, analysis);
+
+    return null;
+  },
+});
+
+export const saveExtractedText = mutation({
+  args: {
+    reportId: v.id("reports"),
+    extractedText: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await requireUserId(ctx);
+    await requireOwned(ctx, "reports", args.reportId, userId);
+
+    await ctx.db.patch(args.reportId, {
+      extractedText: args.extractedText,
+      updatedAt: Date.now(),
+    });
+  },
+});
+
+/**
+ * Opens the chat already attached to a report, or starts one linked to the
+ * report (and its animal) so the chat route can ground answers in it.
+ */
+export const askAboutReport = mutation({
+  args: { reportId: v.id("reports") },
+  returns: v.id("chats"),
+  handler: async (ctx, { reportId }) => {
+    const userId = await requireUserId(ctx);
+    const report = await requireOwned(ctx, "reports", reportId, userId);
+
+    if (report.chatId) {
+      const chat = await ctx.db.get(report.chatId);
+      if (chat && !chat.isDeleted && chat.userId === userId) {
+        return chat._id;
+      }
+    }
+
+    const now = Date.now();
+    const chatId = await ctx.db.insert("chats", {
+      name: `Report: ${report.fileName}`.slice(0, 100),
+      userId,
+      createdAt: now,
+      updatedAt: now,
+      isDeleted: false,
+      messageCount: 0,
+      animalId: report.animalId,
+    });
+
+    await ctx.db.patch(reportId, { chatId, updatedAt: now });
+    return chatId;
+  },
+});
+
+export const detachReport = mutation({
+  args: { reportId: v.id("reports") },
+  handler: async (ctx, { reportId }) => {
+    const userId = await requireUserId(ctx);
+    await requireOwned(ctx, "reports", reportId, userId);
+
+    await ctx.db.patch(reportId, { chatId: undefined, updatedAt: Date.now() });
+  },
+});
+
+/** Reports attached to a chat, without their (large) text */
+export const getChatReports = query({
+  args: { chatId: v.id("chats") },
+  handler: async (ctx, { chatId }) => {
+    const chat = await getOwned(ctx, chatId, await getUserId(ctx));
+    if (!chat) return [];
+
+    const reports = await ctx.db
+      .query("reports")
+      .withIndex("by_chat", (q) => q.eq("chatId", chatId))
+      .collect();
+
+    return reports.map((report) => ({
+      _id: report._id,
+      fileName: report.fileName,
+      mimeType: report.mimeType,
+      createdAt: report.createdAt,
+      hasAnalysis: !!report.analysis,
+    }));
   },
 });
 
 export const getUserReports = query({
   args: {},
   handler: async (ctx) => {
-    const identity = await ctx.auth.getUserIdentity();
+    const userId = await getUserId(ctx);
     // Return empty array instead of throwing error
-    if (!identity) return [];
+    if (!userId) return [];
 
     return await ctx.db
       .query("reports")
-      .withIndex("by_user", (q) => q.eq("userId", identity.subject))
+      .withIndex("by_user", (q) => q.eq("userId", userId))
       .order("desc")
       .take(20);
   },
@@ -77,27 +292,18 @@ export const getUserReports = query({
 export const deleteReport = mutation({
   args: { reportId: v.id("reports") },
   handler: async (ctx, args) => {
-    const identity = await ctx.auth.getUserIdentity();
-    if (!identity) throw new Error("Unauthorized");
+    const userId = await requireUserId(ctx);
+    const report = await requireOwned(ctx, "reports", args.reportId, userId);
 
-    const report = await ctx.db.get(args.reportId);
-    if (!report || report.userId !== identity.subject) {
-      throw new Error("Not authorized");
-    }
-
-    await ctx.storage.delete(report.fileId);
-    await ctx.db.delete(args.reportId);
+    await purgeReport(ctx, report);
   },
 });
 
 export const getReport = query({
   args: { id: v.id("reports") },
   handler: async (ctx, args) => {
-    const identity = await ctx.auth.getUserIdentity();
-    if (!identity) return null;
-
-    const report = await ctx.db.get(args.id);
-    if (!report || report.userId !== identity.subject) return null;
+    const report = await getOwned(ctx, args.id, await getUserId(ctx));
+    if (!report) return null;
 
     // Generate signed URL for viewing
     const url = await ctx.storage.getUrl(report.fileId);
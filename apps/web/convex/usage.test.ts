@@ -0,0 +1,31 @@
+import { describe, expect, test } from "vitest";
+import { api } from "./_generated/api";
+import { dailyTokenLimit } from "./usage";
+import { setup } from "./test.setup";
+
+describe("getMyUsage", () => {
+  test("the limit resets with the day passed in", async () => {
+    const { t, alice } = setup();
+    const now = Date.UTC(2026, 9, 19, 22, 30);
+    await t.run((ctx) =>
+      ctx.db.insert("dailyUsage", {
+        userId: "user_alice",
+        day: "2026-10-19",
+        userMessages: 1,
+        assistantMessages: 1,
+        promptTokens: dailyTokenLimit(),
+        completionTokens: 0,
+        updatedAt: now,
+      }),
+    );
+
+    const today = await alice.query(api.usage.getMyUsage, { now });
+    expect(today).toMatchObject({ day: "2026-10-19", limitReached: true });
+    expect(today?.resetsAt).toBe(Date.UTC(2026, 9, 20));
+
+    const tomorrow = await alice.query(api.usage.getMyUsage, {
+      now: today!.resetsAt,
+    });
+    expect(tomorrow).toMatchObject({ day: "2026-10-20", limitReached: false });
+  });
+});
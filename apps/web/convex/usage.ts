@@ -0,0 +1,215 @@
+// convex/usage.ts
+import { v } from "convex/values";
+import { Doc } from "./_generated/dataModel";
+import { mutation, MutationCtx, query, QueryCtx } from "./_generated/server";
+import { assertServerSecret, getUserId } from "./auth";
+
+// Free plan allowance, prompt plus completion tokens per local day.
+// Override with the Convex env var DAILY_TOKEN_LIMIT.
+const DEFAULT_DAILY_TOKEN_LIMIT = 100_000;
+
+export const tokenUsageValidator = v.object({
+  promptTokens: v.number(),
+  completionTokens: v.number(),
+});
+
+type Counters = {
+  userMessages: number;
+  assistantMessages: number;
+  promptTokens: number;
+  completionTokens: number;
+};
+
+export function dailyTokenLimit() {
+  const limit = Number(process.env.DAILY_TOKEN_LIMIT);
+  return limit > 0 ? limit : DEFAULT_DAILY_TOKEN_LIMIT;
+}
+
+/**
+ * Time zone in effect at `at`: the one last reported by the user's browser,
+ * else UTC. A change only applies once the day it was made on has ended.
+ */
+export function effectiveTimeZone(
+  settings: Pick<Doc<"userSettings">, "timeZone" | "pendingTimeZone"> | null,
+  at: number,
+) {
+  const timeZone = settings?.timeZone ?? "UTC";
+  const pending = settings?.pendingTimeZone;
+  if (pending && dayKey(at, timeZone) > pending.after) {
+    return pending.timeZone;
+  }
+  return timeZone;
+}
+
+/** The user's IANA time zone at `at`, see effectiveTimeZone */
+export async function getUserTimeZone(
+  ctx: QueryCtx,
+  userId: string,
+  at = Date.now(),
+) {
+  const settings = await ctx.db
+    .query("userSettings")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .unique();
+  return effectiveTimeZone(settings, at);
+}
+
+/**
+ * Calendar day ("YYYY-MM-DD") that `at` falls on in `timeZone`. Throws a
+ * RangeError for unknown zones.
+ */
+export function dayKey(at: number, timeZone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).formatToParts(at);
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((p) => p.type === type)?.value;
+
+  return `${part("year")}-${part("month")}-${part("day")}`;
+}
+
+/** When the day `at` falls on in `timeZone` ends */
+export function nextDayStart(at: number, timeZone: string) {
+  const today = dayKey(at, timeZone);
+  // Days are 23 to 25 hours long around DST changes
+  let [low, high] = [at, at + 26 * 60 * 60 * 1000];
+  while (high - low > 1) {
+    const mid = Math.floor((low + high) / 2);
+    if (dayKey(mid, timeZone) === today) low = mid;
+    else high = mid;
+  }
+  return high;
+}
+
+/** Moves a day key by whole days */
+export function shiftDay(day: string, days: number) {
+  const date = new Date(`${day}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+export function getDailyUsage(ctx: QueryCtx, userId: string, day: string) {
+  return ctx.db
+    .query("dailyUsage")
+    .withIndex("by_user_day", (q) => q.eq("userId", userId).eq("day", day))
+    .unique();
+}
+
+// Adds to the rollup row of the user's day `at` falls on
+async function addDailyUsage(
+  ctx: MutationCtx,
+  userId: string,
+  at: number,
+  delta: Partial<Counters>,
+) {
+  const day = dayKey(at, await getUserTimeZone(ctx, userId, at));
+  const existing = await getDailyUsage(ctx, userId, day);
+
+  const now = Date.now();
+  if (existing) {
+    await ctx.db.patch(existing._id, {
+      userMessages: existing.userMessages + (delta.userMessages ?? 0),
+      assistantMessages:
+        existing.assistantMessages + (delta.assistantMessages ?? 0),
+      promptTokens: (existing.promptTokens ?? 0) + (delta.promptTokens ?? 0),
+      completionTokens:
+        (existing.completionTokens ?? 0) + (delta.completionTokens ?? 0),
+      updatedAt: now,
+    });
+  } else {
+    await ctx.db.insert("dailyUsage", {
+      userId,
+      day,
+      userMessages: delta.userMessages ?? 0,
+      assistantMessages: delta.assistantMessages ?? 0,
+      promptTokens: delta.promptTokens ?? 0,
+      completionTokens: delta.completionTokens ?? 0,
+      updatedAt: now,
+    });
+  }
+}
+
+/**
+ * Counts a new message towards the user's dailyUsage rollup. System messages
+ * aren't counted.
+ */
+export async function recordMessageUsage(
+  ctx: MutationCtx,
+  userId: string,
+  role: "user" | "assistant" | "system",
+  at: number,
+) {
+  if (role === "system") return;
+
+  await addDailyUsage(
+    ctx,
+    userId,
+    at,
+    role === "user" ? { userMessages: 1 } : { assistantMessages: 1 },
+  );
+}
+
+/** Adds provider-reported tokens to today's rollup */
+export async function recordTokenUsage(
+  ctx: MutationCtx,
+  userId: string,
+  usage: { promptTokens: number; completionTokens: number },
+) {
+  await addDailyUsage(ctx, userId, Date.now(), usage);
+}
+
+// ==================== QUERIES ====================
+
+/**
+ * Token usage of the day `now` falls on against the daily limit, null when
+ * signed out. The day rolls over at midnight in the user's time zone, at
+ * `resetsAt`; callers pass `now` so a cached result can't outlive its day.
+ */
+export const getMyUsage = query({
+  args: { now: v.number() },
+  handler: async (ctx, { now }) => {
+    const userId = await getUserId(ctx);
+    if (!userId) return null;
+
+    const timeZone = await getUserTimeZone(ctx, userId, now);
+    const day = dayKey(now, timeZone);
+    const usage = await getDailyUsage(ctx, userId, day);
+
+    const promptTokens = usage?.promptTokens ?? 0;
+    const completionTokens = usage?.completionTokens ?? 0;
+    const usedTokens = promptTokens + completionTokens;
+    const limit = dailyTokenLimit();
+
+    return {
+      day,
+      resetsAt: nextDayStart(now, timeZone),
+      promptTokens,
+      completionTokens,
+      usedTokens,
+      limit,
+      limitReached: usedTokens >= limit,
+    };
+  },
+});
+
+// ==================== MUTATIONS ====================
+
+// For model calls that don't write a message, e.g. report analysis
+export const recordServerTokenUsage = mutation({
+  args: {
+    serverSecret: v.string(),
+    userId: v.string(),
+    usage: tokenUsageValidator,
+  },
+  returns: v.null(),
+  handler: async (ctx, { serverSecret, userId, usage }) => {
+    assertServerSecret(serverSecret);
+
+    await recordTokenUsage(ctx, userId, usage);
+
+    return null;
+  },
+});
@@ -0,0 +1,85 @@
+// convex/vetSummaries.ts
+import { Infer, v } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import {
+  getOwned,
+  getUserId,
+  requireActiveChat,
+  requireOwnedFile,
+  requireUserId,
+} from "./auth";
+import { triagePriorityValidator } from "./triage";
+
+export const vetSummaryValidator = v.object({
+  patientName: v.optional(v.string()),
+  signalment: v.object({
+    species: v.optional(v.string()),
+    breed: v.optional(v.string()),
+    age: v.optional(v.string()),
+    sex: v.optional(v.string()),
+    weight: v.optional(v.string()),
+  }),
+  presentingComplaint: v.string(),
+  timeline: v.array(v.object({ when: v.string(), event: v.string() })),
+  advice: v.array(v.string()),
+  triageLevel: v.optional(triagePriorityValidator),
+  redFlags: v.array(v.string()),
+  questionsForVet: v.array(v.string()),
+});
+
+export type VetSummary = Infer<typeof vetSummaryValidator>;
+
+// ==================== QUERIES ====================
+
+/** Most recent summary of a chat, with a signed URL for its PDF */
+export const getLatestVetSummary = query({
+  args: { chatId: v.id("chats") },
+  handler: async (ctx, { chatId }) => {
+    const chat = await getOwned(ctx, chatId, await getUserId(ctx));
+    if (!chat) return null;
+
+    const summary = await ctx.db
+      .query("vetSummaries")
+      .withIndex("by_chat", (q) => q.eq("chatId", chatId))
+      .order("desc")
+      .first();
+    if (!summary) return null;
+
+    return { ...summary, url: await ctx.storage.getUrl(summary.fileId) };
+  },
+});
+
+export const getVetSummary = query({
+  args: { summaryId: v.id("vetSummaries") },
+  handler: async (ctx, { summaryId }) => {
+    const summary = await getOwned(ctx, summaryId, await getUserId(ctx));
+    if (!summary) return null;
+
+    return { ...summary, url: await ctx.storage.getUrl(summary.fileId) };
+  },
+});
+
+// ==================== MUTATIONS ====================
+
+export const saveVetSummary = mutation({
+  args: {
+    chatId: v.id("chats"),
+    summary: vetSummaryValidator,
+    fileId: v.id("_storage"),
+  },
+  returns: v.id("vetSummaries"),
+  handler: async (ctx, { chatId, summary, fileId }) => {
+    const userId = await requireUserId(ctx);
+    const chat = await requireActiveChat(ctx, chatId, userId);
+    await requireOwnedFile(ctx, fileId, userId);
+
+    return await ctx.db.insert("vetSummaries", {
+      userId,
+      chatId,
+      animalId: chat.animalId,
+      summary,
+      fileId,
+      createdAt: Date.now(),
+    });
+  },
+});
@@ -0,0 +1,123 @@
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+import { useMutation } from "convex/react";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { toast } from "sonner";
+
+const MAX_ATTACHMENTS = 4;
+const MAX_IMAGE_SIZE = 5 * 1024 * 1024;
+
+export interface PendingAttachment {
+  id: string;
+  name: string;
+  mimeType: string;
+  previewUrl: string;
+  storageId?: Id<"_storage">;
+  status: "uploading" | "ready" | "error";
+}
+
+/**
+ * Composer image attachments. Files are uploaded to Convex storage as soon
+ * as they're added, so sending only has to reference the storage ids.
+ */
+export function useImageAttachments() {
+  const [attachments, setAttachments] = useState<PendingAttachment[]>([]);
+  const generateUploadUrl = useMutation(api.uploader.generateUploadUrl);
+  const registerUpload = useMutation(api.uploader.registerUpload);
+
+  const attachmentsRef = useRef<PendingAttachment[]>([]);
+  useEffect(() => {
+    attachmentsRef.current = attachments;
+  }, [attachments]);
+
+  // Revoke object URLs on unmount
+  useEffect(
+    () => () =>
+      attachmentsRef.current.forEach((a) => URL.revokeObjectURL(a.previewUrl)),
+    [],
+  );
+
+  const update = (id: string, patch: Partial<PendingAttachment>) =>
+    setAttachments((prev) =>
+      prev.map((a) => (a.id === id ? { ...a, ...patch } : a)),
+    );
+
+  const addFiles = useCallback(
+    (files: Iterable<File>) => {
+      const images = [...files].filter((file) =>
+        file.type.startsWith("image/"),
+      );
+      if (images.length === 0) return;
+
+      const room = MAX_ATTACHMENTS - attachmentsRef.current.length;
+      if (images.length > room) {
+        toast.error(`You can attach up to ${MAX_ATTACHMENTS} photos`);
+      }
+
+      for (const file of images.slice(0, Math.max(room, 0))) {
+        if (file.size > MAX_IMAGE_SIZE) {
+          toast.error(`${file.name} exceeds 5MB`);
+          continue;
+        }
+
+        const id = crypto.randomUUID();
+        setAttachments((prev) => [
+          ...prev,
+          {
+            id,
+            name: file.name,
+            mimeType: file.type,
+            previewUrl: URL.createObjectURL(file),
+            status: "uploading",
+          },
+        ]);
+
+        (async () => {
+          try {
+            const postUrl = await generateUploadUrl();
+            const res = await fetch(postUrl, {
+              method: "POST",
+              headers: { "Content-Type": file.type },
+              body: file,
+            });
+            if (!res.ok) throw new Error("Upload failed");
+            const { storageId } = await res.json();
+            await registerUpload({ storageId });
+            update(id, { storageId, status: "ready" });
+          } catch (error) {
+            console.error(error);
+            update(id, { status: "error" });
+            toast.error(`Failed to upload ${file.name}`);
+          }
+        })();
+      }
+    },
+    [generateUploadUrl, registerUpload],
+  );
+
+  const remove = useCallback((id: string) => {
+    setAttachments((prev) => {
+      const removed = prev.find((a) => a.id === id);
+      if (removed) URL.revokeObjectURL(removed.previewUrl);
+      return prev.filter((a) => a.id !== id);
+    });
+  }, []);
+
+  const clear = useCallback(() => {
+    attachmentsRef.current.forEach((a) => URL.revokeObjectURL(a.previewUrl));
+    setAttachments([]);
+  }, []);
+
+  const isUploading = attachments.some((a) => a.status === "uploading");
+
+  /** Uploaded attachments in the shape `messages.attachments` expects */
+  const ready = attachments
+    .filter((a) => a.status === "ready" && a.storageId)
+    .map((a) => ({
+      storageId: a.storageId!,
+      mimeType: a.mimeType,
+      name: a.name,
+    }));
+
+  return { attachments, ready, isUploading, addFiles, remove, clear };
+}
@@ -0,0 +1,22 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api";
+
+/** Today's token usage, `limitReached` stays false while loading */
+export function useUsage() {
+  const [now, setNow] = useState(() => Date.now());
+  const usage = useQuery(api.usage.getMyUsage, { now });
+
+  // Ask again once the user's day is over, the limit resets then
+  const resetsAt = usage?.resetsAt;
+  useEffect(() => {
+    if (!resetsAt) return;
+    const timer = setTimeout(
+      () => setNow(Date.now()),
+      Math.max(resetsAt - Date.now(), 0) + 1000,
+    );
+    return () => clearTimeout(timer);
+  }, [resetsAt]);
+
+  return { usage, limitReached: usage?.limitReached ?? false };
+}
@@ -0,0 +1,136 @@
+import * as z from "zod";
+
+/**
+ * Layout of the data export ZIP. `manifest.json` indexes everything, each
+ * chat has a JSON file (used by import) and a Markdown copy for reading:
+ *
+ *   manifest.json
+ *   animals/<id>.<ext>              profile photos
+ *   chats/<slug>-<id>.json | .md
+ *   chats/attachments/<id>.<ext>    photos sent in chats
+ *   reports/<id>/<fileName>         original upload
+ *   reports/<id>/analysis.md
+ */
+export const ARCHIVE_VERSION = 1;
+
+const triageSchema = z.object({
+  priority: z.enum(["ROUTINE", "MONITOR", "URGENT"]),
+  condition: z.string().optional(),
+  bodySystem: z.string().optional(),
+  redFlags: z.array(z.string()),
+});
+
+const archivedFileSchema = z.object({
+  path: z.string(),
+  mimeType: z.string(),
+  name: z.string().optional(),
+});
+
+export const archivedMessageSchema = z.object({
+  id: z.string(),
+  role: z.enum(["user", "assistant", "system"]),
+  content: z.string(),
+  status: z.enum(["pending", "streaming", "sent", "error"]),
+  triage: triageSchema.optional(),
+  attachments: z.array(archivedFileSchema).optional(),
+  parentId: z.string().optional(),
+  branchOf: z.string().optional(),
+  hidden: z.boolean().optional(),
+  createdAt: z.number(),
+});
+
+export const archivedChatSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  animalId: z.string().optional(),
+  urgentAt: z.number().optional(),
+  createdAt: z.number(),
+  updatedAt: z.number(),
+  messages: z.array(archivedMessageSchema),
+});
+
+export const archiveManifestSchema = z.object({
+  version: z.literal(ARCHIVE_VERSION),
+  exportedAt: z.number(),
+  animals: z.array(
+    z.object({
+      id: z.string(),
+      name: z.string(),
+      species: z.string(),
+      breed: z.string().optional(),
+      sex: z.enum(["male", "female", "unknown"]),
+      dateOfBirth: z.number().optional(),
+      isNeutered: z.boolean().optional(),
+      weightHistory: z.array(
+        z.object({ weightKg: z.number(), recordedAt: z.number() }),
+      ),
+      photo: archivedFileSchema.optional(),
+      createdAt: z.number(),
+      updatedAt: z.number(),
+    }),
+  ),
+  chats: z.array(
+    z.object({ id: z.string(), name: z.string(), path: z.string() }),
+  ),
+  reports: z.array(
+    z.object({
+      id: z.string(),
+      chatId: z.string().optional(),
+      animalId: z.string().optional(),
+      file: archivedFileSchema,
+      sizeBytes: z.number(),
+      analysis: z.string().optional(),
+      extractedText: z.string().optional(),
+      createdAt: z.number(),
+    }),
+  ),
+});
+
+export type ArchivedMessage = z.infer<typeof archivedMessageSchema>;
+export type ArchivedChat = z.infer<typeof archivedChatSchema>;
+export type ArchiveManifest = z.infer<typeof archiveManifestSchema>;
+
+/** Keeps uploaded file names from escaping their folder in the ZIP */
+export function safeFileName(name: string) {
+  return name.replace(/[/\\]/g, "_").replace(/^\.+/, "") || "file";
+}
+
+export function extensionFor(mimeType: string) {
+  const subtype = mimeType.split("/")[1] ?? "bin";
+  return subtype === "jpeg" ? "jpg" : subtype.replace(/[^a-z0-9]/gi, "");
+}
+
+const roleLabels = {
+  user: "You",
+  assistant: "PashuCare AI",
+  system: "System",
+} as const;
+
+/** Readable transcript of the selected branch */
+export function chatToMarkdown(chat: ArchivedChat) {
+  const lines = [
+    `# ${chat.name || "Untitled Chat"}`,
+    "",
+    `_Started ${new Date(chat.createdAt).toLocaleString("en")}_`,
+  ];
+
+  for (const message of chat.messages) {
+    if (message.hidden || message.role === "system") continue;
+
+    lines.push(
+      "",
+      "---",
+      "",
+      `**${roleLabels[message.role]}** · ${new Date(message.createdAt).toLocaleString("en")}`,
+      "",
+    );
+    for (const attachment of message.attachments ?? []) {
+      // Markdown sits in chats/, next to the attachments folder
+      const relative = attachment.path.replace(/^chats\//, "");
+      lines.push(`![${attachment.name ?? "Photo"}](${relative})`, "");
+    }
+    lines.push(message.content);
+  }
+
+  return lines.join("\n") + "\n";
+}
@@ -0,0 +1,40 @@
+// Roughly 4 characters per token for English text
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+// Leaves room for the system prompt, animal profile and the reply
+export const HISTORY_TOKEN_BUDGET = 8000;
+
+type HistoryMessage = {
+  role: "user" | "assistant";
+  content: string;
+  tokens?: number;
+};
+
+/**
+ * Picks the most recent messages (oldest-first input) that fit in the
+ * token budget. The newest message is always kept, and the window never
+ * opens on an assistant reply without the question that prompted it.
+ */
+export function selectHistoryWindow<T extends HistoryMessage>(
+  messages: T[],
+  budget = HISTORY_TOKEN_BUDGET,
+): T[] {
+  const window: T[] = [];
+  let used = 0;
+
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const message = messages[i];
+    const cost = message.tokens ?? estimateTokens(message.content);
+    if (window.length > 0 && used + cost > budget) break;
+    window.unshift(message);
+    used += cost;
+  }
+
+  while (window.length > 1 && window[0].role === "assistant") {
+    window.shift();
+  }
+
+  return window;
+}
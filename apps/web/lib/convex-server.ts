@@ -0,0 +1,22 @@
+import { env } from "@/app/env";
+import { auth } from "@clerk/nextjs/server";
+import { ConvexHttpClient } from "convex/browser";
+
+/**
+ * Returns a Convex client authenticated as the signed-in Clerk user,
+ * or null when the request has no session.
+ */
+export async function getAuthedConvexClient() {
+  const { userId, getToken } = await auth();
+  if (!userId) return null;
+
+  const token = await getToken({ template: "convex" });
+  if (!token) {
+    throw new Error("Missing Convex token");
+  }
+
+  const client = new ConvexHttpClient(env.NEXT_PUBLIC_CONVEX_URL);
+  client.setAuth(token);
+
+  return { userId, client };
+}
@@ -0,0 +1,205 @@
+// Rule-based emergency detection. Runs before the model is called so owners
+// get first-aid guidance immediately, even when the provider is down.
+
+import { resolveSpeciesGroup, SpeciesGroup } from "./species";
+
+type FirstAid = { default: string[] } & Partial<Record<SpeciesGroup, string[]>>;
+
+interface EmergencyRule {
+  id: string;
+  title: string;
+  patterns: RegExp[];
+  /** Only fires for these species, or when the species is unknown */
+  species?: SpeciesGroup[];
+  firstAid: FirstAid;
+  poisonControl?: boolean;
+}
+
+const RULES: EmergencyRule[] = [
+  {
+    id: "seizure",
+    title: "Seizure",
+    patterns: [
+      /\bseiz(ure|ures|ing|ed)\b/i,
+      /\bconvuls(ion|ions|ing)\b/i,
+      /\b(fit|fits)\b.*\b(shak|jerk|paddl)/i,
+      /\bpaddling\b/i,
+    ],
+    firstAid: {
+      default: [
+        "Keep clear of the mouth. Animals don't swallow their tongue, and you can be bitten.",
+        "Move furniture and hard objects away, and dim lights and noise.",
+        "Time the seizure. More than 5 minutes, or several in a row, is critical.",
+        "Keep the animal cool, and don't give food, water or medicine by mouth.",
+      ],
+    },
+  },
+  {
+    id: "bloat-dog",
+    title: "Possible bloat (GDV)",
+    species: ["dog"],
+    patterns: [
+      /\bbloat(ed|ing)?\b/i,
+      /\b(swollen|distended|tight|hard)\b.*\b(belly|abdomen|stomach)\b/i,
+      /\b(retch|retching|dry heav|trying to vomit)/i,
+    ],
+    firstAid: {
+      default: [
+        "Bloat with a twisted stomach can kill within hours and needs surgery.",
+        "Do not give food, water or anything to induce vomiting.",
+        "Keep the dog calm and carry them to the car if possible.",
+        "Call ahead so the clinic can prepare.",
+      ],
+    },
+  },
+  {
+    id: "bloat-ruminant",
+    title: "Ruminal bloat (tympany)",
+    species: ["ruminant"],
+    patterns: [
+      /\bbloat(ed|ing)?\b/i,
+      /\b(left side|left flank|rumen)\b.*\b(swollen|distended|tight|puffed|bulging)\b/i,
+      /\b(swollen|distended|tight|puffed|bulging)\b.*\b(left side|left flank|rumen)\b/i,
+    ],
+    firstAid: {
+      default: [
+        "Stop access to lush legumes, clover or grain immediately.",
+        "Keep the animal standing and walking slowly. Don't let it lie on its side.",
+        "Raise the front end on a slope if you can.",
+        "Only a vet or trained person should pass a stomach tube or use a trocar.",
+      ],
+    },
+  },
+  {
+    id: "toxin",
+    title: "Possible poisoning",
+    patterns: [
+      /\b(ate|eaten|swallowed|ingested|licked|chewed|got into)\b.*\b(poison|rat ?bait|rodenticide|antifreeze|pesticide|insecticide|weed ?killer|bleach|chocolate|xylitol|grapes?|raisins?|onions?|garlic|ibuprofen|paracetamol|acetaminophen|medication|pills?|tablets?|lil(y|ies)|urea|organophosphate)/i,
+      /\b(poison(ed|ing)?|toxic(ity)?)\b/i,
+      /\bsnake ?bite\b|\bbitten by (a )?snake\b/i,
+    ],
+    firstAid: {
+      default: [
+        "Remove the animal from the source and keep the packaging or a sample.",
+        "Do not induce vomiting unless a vet or poison line tells you to.",
+        "Note what was eaten, how much and when.",
+        "Rinse skin or fur with lukewarm water if the substance is on the coat.",
+      ],
+      cat: [
+        "Lilies, paracetamol and permethrin flea products are deadly to cats even in tiny amounts.",
+        "Remove the cat from the source and keep the packaging or plant.",
+        "Do not induce vomiting or give milk.",
+        "Note what was eaten, how much and when.",
+      ],
+      ruminant: [
+        "Move the herd away from the suspected plant, feed or chemical.",
+        "Keep the feed or container for the vet.",
+        "Do not drench anything by mouth unless a vet advises it.",
+        "Note how many animals are affected and when signs started.",
+      ],
+    },
+    poisonControl: true,
+  },
+  {
+    id: "bleeding",
+    title: "Severe bleeding",
+    patterns: [
+      /\b(heavy|heavily|severe|won'?t stop|not stopping|lots of|gushing|spurting|pouring)\b.*\bbleed(ing)?\b/i,
+      /\bbleed(ing)?\b.*\b(heavily|a lot|won'?t stop|not stopping|everywhere)\b/i,
+      /\b(heavy|gushing|spurting)\b.*\bblood\b/i,
+    ],
+    firstAid: {
+      default: [
+        "Press firmly on the wound with a clean cloth and hold for at least 5 minutes without lifting.",
+        "If blood soaks through, add layers on top. Don't remove the first one.",
+        "Keep the animal still and warm.",
+        "Don't use a tight tourniquet unless bleeding from a limb is life-threatening.",
+      ],
+    },
+  },
+  {
+    id: "breathing",
+    title: "Breathing difficulty",
+    patterns: [
+      /\b(can'?t|cannot|struggling to|trouble|difficulty|hard time) breath/i,
+      /\b(gasping|choking|blue (gums|tongue))\b/i,
+      /\bopen[- ]mouth(ed)? breathing\b/i,
+    ],
+    firstAid: {
+      default: [
+        "Keep the animal calm, cool and in a well ventilated space.",
+        "If choking and you can see an object, carefully remove it. Don't push it deeper.",
+        "Don't restrain the chest or muzzle the animal.",
+      ],
+      cat: [
+        "Open-mouth breathing in a cat is always an emergency.",
+        "Put the cat in a carrier and keep stress to a minimum.",
+        "Don't restrain the chest.",
+      ],
+    },
+  },
+  {
+    id: "urinary-blockage",
+    title: "Possible urinary blockage",
+    species: ["cat"],
+    patterns: [
+      /\b(straining|can'?t|cannot|unable to|not able to|trying to) (pee|urinate|wee)/i,
+      /\b(no|little|not passing) urine\b/i,
+    ],
+    firstAid: {
+      default: [
+        "A blocked bladder can become fatal within 24–48 hours, especially in male cats.",
+        "Don't press on the bladder.",
+        "Go to a vet now, even if the cat still seems alert.",
+      ],
+    },
+  },
+  {
+    id: "heatstroke",
+    title: "Heatstroke",
+    patterns: [
+      /\b(heat ?stroke|overheat(ed|ing)|sun ?stroke)\b/i,
+      /\b(collapsed|collapse)\b.*\b(heat|sun|hot)\b/i,
+    ],
+    firstAid: {
+      default: [
+        "Move to shade or a cool room immediately.",
+        "Wet the body with cool, not ice-cold, water and use a fan.",
+        "Offer small sips of water if the animal is alert. Never force it.",
+        "Stop cooling once breathing settles, then go to the vet.",
+      ],
+    },
+  },
+];
+
+export interface EmergencyMatch {
+  ruleId: string;
+  title: string;
+  firstAid: string[];
+  poisonControl: boolean;
+}
+
+/**
+ * Returns the first emergency rule matching the owner's message, using the
+ * animal profile's species when known, else species mentioned in the text.
+ */
+export function detectEmergency(
+  text: string,
+  species?: string,
+): EmergencyMatch | null {
+  const group = resolveSpeciesGroup(species, text);
+
+  for (const rule of RULES) {
+    if (rule.species && group && !rule.species.includes(group)) continue;
+    if (!rule.patterns.some((pattern) => pattern.test(text))) continue;
+
+    return {
+      ruleId: rule.id,
+      title: rule.title,
+      firstAid: (group && rule.firstAid[group]) || rule.firstAid.default,
+      poisonControl: rule.poisonControl ?? false,
+    };
+  }
+
+  return null;
+}
@@ -0,0 +1,105 @@
+import { CompletionRequest, LLMMessage, LLMProvider, textOf } from "./types";
+import { readLines } from "./read-lines";
+
+const ANTHROPIC_VERSION = "2023-06-01";
+
+function toAnthropicContent(content: LLMMessage["content"]) {
+  if (typeof content === "string") return content;
+  return content.map((part) =>
+    part.type === "text"
+      ? { type: "text", text: part.text }
+      : {
+          type: "image",
+          source: {
+            type: "base64",
+            media_type: part.mimeType,
+            data: part.data,
+          },
+        },
+  );
+}
+
+/**
+ * Anthropic Messages API over plain fetch. System messages are lifted into
+ * the top-level `system` field as the API requires.
+ */
+export function createAnthropicProvider({
+  apiKey,
+  baseURL,
+}: {
+  apiKey: string;
+  baseURL: string;
+}): LLMProvider {
+  return {
+    name: "anthropic",
+
+    async *streamText({
+      model,
+      messages,
+      temperature,
+      maxTokens,
+      signal,
+      onUsage,
+    }: CompletionRequest) {
+      const system = messages
+        .filter((m) => m.role === "system")
+        .map((m) => textOf(m.content))
+        .join("\n\n");
+
+      const response = await fetch(`${baseURL}/v1/messages`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-api-key": apiKey,
+          "anthropic-version": ANTHROPIC_VERSION,
+        },
+        body: JSON.stringify({
+          model,
+          system: system || undefined,
+          messages: messages
+            .filter((m) => m.role !== "system")
+            .map((m) => ({
+              role: m.role,
+              content: toAnthropicContent(m.content),
+            })),
+          temperature,
+          max_tokens: maxTokens ?? 4096,
+          stream: true,
+        }),
+        signal,
+      });
+
+      if (!response.ok || !response.body) {
+        throw new Error(
+          `Anthropic request failed: ${response.status} ${await response.text()}`,
+        );
+      }
+
+      // Input tokens arrive with message_start, the output count is
+      // cumulative on each message_delta
+      let promptTokens = 0;
+      let completionTokens = 0;
+
+      for await (const line of readLines(response.body)) {
+        if (!line.startsWith("data:")) continue;
+        const event = JSON.parse(line.slice(5));
+        if (event.type === "message_start") {
+          promptTokens = event.message?.usage?.input_tokens ?? 0;
+          completionTokens = event.message?.usage?.output_tokens ?? 0;
+        }
+        if (event.type === "message_delta" && event.usage) {
+          completionTokens = event.usage.output_tokens ?? completionTokens;
+        }
+        if (event.type === "message_stop") {
+          onUsage?.({ promptTokens, completionTokens });
+        }
+        if (event.type === "content_block_delta" && event.delta?.text) {
+          yield event.delta.text as string;
+        }
+        if (event.type === "error") {
+          throw new Error(event.error?.message ?? "Anthropic stream error");
+        }
+      }
+    },
+  };
+}
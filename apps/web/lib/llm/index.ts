@@ -0,0 +1,82 @@
+import { env } from "@/app/env";
+import { createAnthropicProvider } from "./anthropic";
+import { createMockProvider } from "./mock";
+import { createOllamaProvider } from "./ollama";
+import { createOpenAICompatibleProvider } from "./openai-compatible";
+import { LLMFeature, LLMProvider } from "./types";
+
+export { textOf } from "./types";
+
+export type {
+  LLMContentPart,
+  LLMMessage,
+  LLMProvider,
+  LLMFeature,
+  TokenUsage,
+} from "./types";
+
+type ProviderName = typeof env.LLM_PROVIDER;
+
+const DEFAULT_BASE_URLS: Record<ProviderName, string> = {
+  openai: "https://api.moonshot.ai/v1",
+  anthropic: "https://api.anthropic.com",
+  ollama: "http://localhost:11434",
+  mock: "",
+};
+
+// Per-feature defaults, overridable with LLM_CHAT_MODEL / LLM_REPORT_MODEL /
+// LLM_VISION_MODEL. "vision" must accept image input.
+const DEFAULT_MODELS: Record<ProviderName, Record<LLMFeature, string>> = {
+  openai: {
+    chat: "kimi-k2-turbo-preview",
+    report: "kimi-k2.5",
+    vision: "kimi-k2.5",
+  },
+  anthropic: {
+    chat: "claude-sonnet-4-5",
+    report: "claude-sonnet-4-5",
+    vision: "claude-sonnet-4-5",
+  },
+  ollama: { chat: "llama3.1", report: "llama3.1", vision: "llava" },
+  mock: { chat: "mock-chat", report: "mock-report", vision: "mock-vision" },
+};
+
+function createProvider(): LLMProvider {
+  const baseURL = env.LLM_BASE_URL ?? DEFAULT_BASE_URLS[env.LLM_PROVIDER];
+  const apiKey = env.LLM_API_KEY ?? env.MOONSHOTAI_API_KEY;
+
+  switch (env.LLM_PROVIDER) {
+    case "mock":
+      return createMockProvider();
+    case "ollama":
+      return createOllamaProvider({ baseURL });
+    case "anthropic":
+      if (!apiKey) throw new Error("LLM_API_KEY is required for anthropic");
+      return createAnthropicProvider({ apiKey, baseURL });
+    case "openai":
+      if (!apiKey) {
+        throw new Error("LLM_API_KEY or MOONSHOTAI_API_KEY is required");
+      }
+      return createOpenAICompatibleProvider({ apiKey, baseURL });
+  }
+}
+
+let provider: LLMProvider | undefined;
+
+/**
+ * Resolves the configured provider and the model to use for a feature.
+ */
+export function getLLM(feature: LLMFeature) {
+  provider ??= createProvider();
+
+  const overrides: Record<LLMFeature, string | undefined> = {
+    chat: env.LLM_CHAT_MODEL,
+    report: env.LLM_REPORT_MODEL,
+    vision: env.LLM_VISION_MODEL,
+  };
+
+  return {
+    provider,
+    model: overrides[feature] ?? DEFAULT_MODELS[env.LLM_PROVIDER][feature],
+  };
+}
@@ -0,0 +1,76 @@
+import { describe, expect, test, vi } from "vitest";
+import { parseLabTable } from "@/convex/labs";
+import { parseTriage } from "@/convex/triage";
+import { createMockProvider } from "./mock";
+import { CompletionRequest, LLMMessage } from "./types";
+
+async function collect(request: CompletionRequest) {
+  const chunks: string[] = [];
+  for await (const chunk of createMockProvider().streamText(request)) {
+    chunks.push(chunk);
+  }
+  return chunks;
+}
+
+const messages: LLMMessage[] = [
+  { role: "system", content: "You are a veterinary assistant." },
+  { role: "user", content: "My dog is limping\nsince yesterday" },
+];
+
+describe("mock provider", () => {
+  test("streams the same reply word by word for the same request", async () => {
+    const first = await collect({ model: "mock-chat", messages });
+    const second = await collect({ model: "mock-chat", messages });
+
+    expect(first.length).toBeGreaterThan(1);
+    expect(second).toEqual(first);
+    expect(first.join("")).toContain('You asked: "My dog is limping"');
+  });
+
+  test("replies with a routine triage the parser reads", async () => {
+    const reply = (await collect({ model: "mock-chat", messages })).join("");
+
+    expect(parseTriage(reply)).toEqual({
+      priority: "ROUTINE",
+      condition: undefined,
+      bodySystem: undefined,
+      redFlags: [],
+    });
+  });
+
+  test("adds a lab table when the prompt asks for reference ranges", async () => {
+    const reply = (
+      await collect({
+        model: "mock-report",
+        messages: [
+          { role: "system", content: "End with a Reference Range table." },
+          { role: "user", content: "Analyze this report" },
+        ],
+      })
+    ).join("");
+
+    expect(parseLabTable(reply, "dog")).toMatchObject([
+      { analyteKey: "alt", value: 182, flag: "high" },
+      { analyteKey: "creatinine", value: 1.2, flag: "normal" },
+    ]);
+  });
+
+  test("stops on abort and reports usage once done", async () => {
+    const onUsage = vi.fn();
+    await collect({ model: "mock-chat", messages, onUsage });
+    expect(onUsage).toHaveBeenCalledWith({
+      promptTokens: expect.any(Number),
+      completionTokens: expect.any(Number),
+    });
+
+    const controller = new AbortController();
+    controller.abort();
+    expect(
+      await collect({
+        model: "mock-chat",
+        messages,
+        signal: controller.signal,
+      }),
+    ).toEqual([]);
+  });
+});
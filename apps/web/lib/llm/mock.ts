@@ -0,0 +1,73 @@
+import { estimateTokens } from "@/lib/context-window";
+import { CompletionRequest, LLMProvider, textOf } from "./types";
+
+/**
+ * Deterministic offline provider: the same request always produces the same
+ * reply, streamed word by word. Used for local development and tests.
+ */
+export function createMockProvider(): LLMProvider {
+  return {
+    name: "mock",
+
+    async *streamText({ model, messages, signal, onUsage }: CompletionRequest) {
+      const lastUser = [...messages].reverse().find((m) => m.role === "user");
+      const question = lastUser
+        ? textOf(lastUser.content).trim().split("\n")[0]
+        : "";
+
+      // The report prompt asks for a lab table, give the parser something to read
+      const asksForLabTable = messages.some(
+        (m) =>
+          m.role === "system" && textOf(m.content).includes("Reference Range"),
+      );
+      const labTable = asksForLabTable
+        ? `
+
+| Analyte | Value | Unit | Reference Range |
+|---|---|---|---|
+| ALT | 182 | U/L | 10-125 |
+| Creatinine | 1.2 | mg/dL | 0.5-1.8 |`
+        : "";
+
+      // The vet summary prompt expects a bare JSON object
+      const asksForVetSummary = messages.some(
+        (m) =>
+          m.role === "system" &&
+          textOf(m.content).includes('"presentingComplaint"'),
+      );
+      const reply = asksForVetSummary
+        ? JSON.stringify({
+            signalment: { species: "dog" },
+            presentingComplaint: `Mock summary from \`${model}\` (${messages.length} messages in context)`,
+            timeline: [{ when: "today", event: "Owner asked PashuCare AI" }],
+            advice: ["Monitor at home and see a vet if signs worsen"],
+            triageLevel: "ROUTINE",
+            redFlags: [],
+            questionsForVet: [],
+          })
+        : `### Triage Assessment
+
+**Priority:** ROUTINE
+
+Mock response from \`${model}\` (${messages.length} messages in context).
+
+### Summary
+
+You asked: "${question.slice(0, 200)}"${labTable}
+
+*This is a mock reply generated offline, not veterinary advice.*`;
+
+      for (const word of reply.split(/(?<=\s)/)) {
+        if (signal?.aborted) return;
+        yield word;
+      }
+
+      onUsage?.({
+        promptTokens: estimateTokens(
+          messages.map((m) => textOf(m.content)).join(""),
+        ),
+        completionTokens: estimateTokens(reply),
+      });
+    },
+  };
+}
@@ -0,0 +1,72 @@
+import { CompletionRequest, LLMMessage, LLMProvider, textOf } from "./types";
+import { readLines } from "./read-lines";
+
+// Ollama takes images as a separate base64 array on the message
+function toOllamaMessage(message: LLMMessage) {
+  const images =
+    typeof message.content === "string"
+      ? []
+      : message.content.flatMap((part) =>
+          part.type === "image" ? [part.data] : [],
+        );
+
+  return {
+    role: message.role,
+    content: textOf(message.content),
+    ...(images.length > 0 && { images }),
+  };
+}
+
+/**
+ * Local Ollama server (`ollama serve`), streams newline-delimited JSON.
+ */
+export function createOllamaProvider({
+  baseURL,
+}: {
+  baseURL: string;
+}): LLMProvider {
+  return {
+    name: "ollama",
+
+    async *streamText({
+      model,
+      messages,
+      temperature,
+      maxTokens,
+      signal,
+      onUsage,
+    }: CompletionRequest) {
+      const response = await fetch(`${baseURL}/api/chat`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          model,
+          messages: messages.map(toOllamaMessage),
+          stream: true,
+          options: { temperature, num_predict: maxTokens },
+        }),
+        signal,
+      });
+
+      if (!response.ok || !response.body) {
+        throw new Error(
+          `Ollama request failed: ${response.status} ${await response.text()}`,
+        );
+      }
+
+      for await (const line of readLines(response.body)) {
+        if (!line.trim()) continue;
+        const chunk = JSON.parse(line);
+        if (chunk.error) throw new Error(chunk.error);
+        if (chunk.message?.content) yield chunk.message.content as string;
+        if (chunk.done) {
+          onUsage?.({
+            promptTokens: chunk.prompt_eval_count ?? 0,
+            completionTokens: chunk.eval_count ?? 0,
+          });
+          return;
+        }
+      }
+    },
+  };
+}
@@ -0,0 +1,77 @@
+import { OpenAI } from "openai";
+import { ChatCompletionMessageParam } from "openai/resources/chat/completions";
+import { CompletionRequest, LLMMessage, LLMProvider, textOf } from "./types";
+
+function toOpenAIMessage(message: LLMMessage): ChatCompletionMessageParam {
+  if (typeof message.content === "string" || message.role !== "user") {
+    return { role: message.role, content: textOf(message.content) };
+  }
+
+  return {
+    role: "user",
+    content: message.content.map((part) =>
+      part.type === "text"
+        ? { type: "text" as const, text: part.text }
+        : {
+            type: "image_url" as const,
+            image_url: { url: `data:${part.mimeType};base64,${part.data}` },
+          },
+    ),
+  };
+}
+
+/**
+ * Any server speaking the OpenAI chat completions API: Moonshot, OpenAI,
+ * llama.cpp's `llama-server`, vLLM, LM Studio...
+ */
+export function createOpenAICompatibleProvider({
+  apiKey,
+  baseURL,
+}: {
+  apiKey: string;
+  baseURL: string;
+}): LLMProvider {
+  const client = new OpenAI({ apiKey, baseURL });
+
+  return {
+    name: "openai",
+
+    async *streamText({
+      model,
+      messages,
+      temperature,
+      maxTokens,
+      signal,
+      onUsage,
+    }: CompletionRequest) {
+      const stream = await client.chat.completions.create(
+        {
+          model,
+          messages: messages.map(toOpenAIMessage),
+          temperature,
+          max_tokens: maxTokens,
+          stream: true,
+          stream_options: { include_usage: true },
+        },
+        { signal },
+      );
+
+      for await (const chunk of stream) {
+        const delta = chunk.choices?.[0]?.delta?.content || "";
+        if (delta) yield delta;
+
+        // Moonshot reports usage on the last choice instead of the chunk
+        const usage =
+          chunk.usage ??
+          (chunk.choices?.[0] as { usage?: typeof chunk.usage } | undefined)
+            ?.usage;
+        if (usage) {
+          onUsage?.({
+            promptTokens: usage.prompt_tokens,
+            completionTokens: usage.completion_tokens,
+          });
+        }
+      }
+    },
+  };
+}
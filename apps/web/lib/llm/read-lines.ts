@@ -0,0 +1,20 @@
+/**
+ * Splits a streamed response body into lines, for SSE and NDJSON APIs.
+ */
+export async function* readLines(body: ReadableStream<Uint8Array>) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder("utf-8");
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split("\n");
+    buffer = lines.pop() ?? "";
+    yield* lines;
+  }
+
+  if (buffer) yield buffer;
+}
@@ -0,0 +1,41 @@
+export type LLMRole = "system" | "user" | "assistant";
+
+export type LLMContentPart =
+  | { type: "text"; text: string }
+  /** Base64 encoded image, only for vision-capable models */
+  | { type: "image"; mimeType: string; data: string };
+
+export interface LLMMessage {
+  role: LLMRole;
+  content: string | LLMContentPart[];
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface CompletionRequest {
+  model: string;
+  messages: LLMMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  signal?: AbortSignal;
+  /** Called once with the provider's token counts when the stream ends */
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  /** Streams the completion as plain text deltas */
+  streamText(request: CompletionRequest): AsyncIterable<string>;
+}
+
+export type LLMFeature = "chat" | "report" | "vision";
+
+export function textOf(content: LLMMessage["content"]): string {
+  if (typeof content === "string") return content;
+  return content
+    .map((part) => (part.type === "text" ? part.text : ""))
+    .join("\n");
+}
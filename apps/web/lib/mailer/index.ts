@@ -0,0 +1,82 @@
+import { env } from "@/app/env";
+import { api } from "@/convex/_generated/api";
+import type { EmailKind } from "@/convex/emails";
+import { ConvexHttpClient } from "convex/browser";
+import { createLocalTransport } from "./local";
+import { createResendTransport } from "./resend";
+import { EmailMessage, EmailTransport } from "./types";
+
+export { clearCapturedEmails, getCapturedEmails } from "./local";
+export type { CapturedEmail } from "./local";
+export type { EmailAttachment, EmailMessage } from "./types";
+
+const FROM = "PashuCare <no-reply@pashucare.com>";
+
+let transport: EmailTransport | undefined;
+
+function getTransport(): EmailTransport {
+  transport ??=
+    env.EMAIL_TRANSPORT === "local"
+      ? createLocalTransport()
+      : createResendTransport();
+  return transport;
+}
+
+export type SendEmailResult =
+  | { success: true; id: string }
+  | { success: false; error: string };
+
+/**
+ * Sends an email through the configured transport and records it in the
+ * Convex email log. A failing log never blocks the send itself.
+ */
+export async function sendEmail(
+  email: Omit<EmailMessage, "from"> & { kind: EmailKind; userId?: string },
+): Promise<SendEmailResult> {
+  const { kind, userId, ...message } = email;
+  const mailer = getTransport();
+  const convex = new ConvexHttpClient(env.NEXT_PUBLIC_CONVEX_URL);
+  const serverSecret = env.CONVEX_SERVER_SECRET;
+
+  const emailId = await convex
+    .mutation(api.emails.logEmail, {
+      serverSecret,
+      userId,
+      kind,
+      to: message.to,
+      subject: message.subject,
+      transport: mailer.name,
+    })
+    .catch((error) => {
+      console.error("Failed to log email:", error);
+      return null;
+    });
+
+  const updateStatus = (
+    update:
+      | { status: "sent"; providerId: string }
+      | {
+          status: "failed";
+          error: string;
+        },
+  ) =>
+    emailId &&
+    convex
+      .mutation(api.emails.updateEmailStatus, {
+        serverSecret,
+        emailId,
+        ...update,
+      })
+      .catch((error) => console.error("Failed to update email log:", error));
+
+  try {
+    const id = await mailer.send({ ...message, from: FROM });
+    await updateStatus({ status: "sent", providerId: id });
+    return { success: true, id };
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : "Send failed";
+    console.error(`sendEmail (${kind}) error:`, error);
+    await updateStatus({ status: "failed", error: reason });
+    return { success: false, error: reason };
+  }
+}
@@ -0,0 +1,74 @@
+import { render } from "@react-email/render";
+import { afterEach, describe, expect, test, vi } from "vitest";
+import { AnalysisReadyEmailTemplate } from "@/app/email-templates";
+import { env } from "@/app/env";
+import { clearCapturedEmails, getCapturedEmails, sendEmail } from ".";
+
+vi.mock("@/app/env", () => ({
+  env: {
+    EMAIL_TRANSPORT: "local",
+    NEXT_PUBLIC_APP_URL: "https://app.pashucare.test",
+    NEXT_PUBLIC_CONVEX_URL: "https://convex.pashucare.test",
+    CONVEX_SERVER_SECRET: "test-server-secret-at-least-32-characters",
+  },
+}));
+
+// The email log lives in Convex, record the calls instead
+const logged = vi.hoisted(() => [] as Record<string, unknown>[]);
+vi.mock("convex/browser", () => ({
+  ConvexHttpClient: class {
+    async mutation(_fn: unknown, args: Record<string, unknown>) {
+      logged.push(args);
+      return "email_1";
+    }
+  },
+}));
+
+afterEach(() => {
+  clearCapturedEmails();
+  logged.length = 0;
+});
+
+describe("local transport", () => {
+  test("captures the analysis-ready email with a link into the app", async () => {
+    vi.spyOn(console, "info").mockImplementation(() => {});
+    const html = await render(
+      AnalysisReadyEmailTemplate({
+        firstName: "Asha",
+        fileName: "bloodwork.pdf",
+        // Built like the analyze route does
+        reportUrl: new URL(
+          "/chat/reports/report_1",
+          env.NEXT_PUBLIC_APP_URL,
+        ).toString(),
+      }),
+    );
+
+    const result = await sendEmail({
+      kind: "analysis_ready",
+      userId: "user_alice",
+      to: "asha@example.com",
+      subject: "Your analysis of bloodwork.pdf is ready — PashuCare",
+      html,
+    });
+
+    expect(result).toEqual({ success: true, id: "local-1" });
+    const [email] = getCapturedEmails();
+    expect(getCapturedEmails()).toHaveLength(1);
+    expect(email).toMatchObject({
+      id: "local-1",
+      from: "PashuCare <no-reply@pashucare.com>",
+      to: "asha@example.com",
+      subject: "Your analysis of bloodwork.pdf is ready — PashuCare",
+    });
+    expect(email.html).toContain(
+      'href="https://app.pashucare.test/chat/reports/report_1"',
+    );
+
+    // Logged as sent through the local transport
+    expect(logged).toEqual([
+      expect.objectContaining({ kind: "analysis_ready", transport: "local" }),
+      expect.objectContaining({ status: "sent", providerId: "local-1" }),
+    ]);
+  });
+});
@@ -0,0 +1,36 @@
+import { EmailMessage, EmailTransport } from "./types";
+
+export interface CapturedEmail extends EmailMessage {
+  id: string;
+  sentAt: number;
+}
+
+const outbox: CapturedEmail[] = [];
+
+/**
+ * Stand-in transport for development and tests: nothing leaves the machine,
+ * emails are kept in memory and summarized in the server log.
+ */
+export function createLocalTransport(): EmailTransport {
+  return {
+    name: "local",
+
+    async send(message) {
+      const id = `local-${outbox.length + 1}`;
+      outbox.push({ ...message, id, sentAt: Date.now() });
+      console.info(
+        `[mailer] captured ${id} to ${message.to}: ${message.subject}`,
+      );
+      return id;
+    },
+  };
+}
+
+/** Emails sent through the local transport since start or the last clear */
+export function getCapturedEmails(): readonly CapturedEmail[] {
+  return outbox;
+}
+
+export function clearCapturedEmails() {
+  outbox.length = 0;
+}
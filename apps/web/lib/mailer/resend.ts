@@ -0,0 +1,16 @@
+import { getResend } from "@/lib/resend-instance";
+import { EmailTransport } from "./types";
+
+export function createResendTransport(): EmailTransport {
+  return {
+    name: "resend",
+
+    async send(message) {
+      const { data, error } = await getResend().emails.send(message);
+      if (error || !data) {
+        throw new Error(error?.message ?? "Resend rejected the email");
+      }
+      return data.id;
+    },
+  };
+}
@@ -0,0 +1,19 @@
+export interface EmailAttachment {
+  filename: string;
+  content: Buffer;
+}
+
+export interface EmailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  html: string;
+  replyTo?: string;
+  attachments?: EmailAttachment[];
+}
+
+export interface EmailTransport {
+  readonly name: "resend" | "local";
+  /** Sends the email and returns the provider's id, throws when it's rejected */
+  send(message: EmailMessage): Promise<string>;
+}
@@ -0,0 +1,132 @@
+import path from "node:path";
+import {
+  createCanvas,
+  type Canvas,
+  type CanvasRenderingContext2D,
+} from "canvas";
+import { getDocument } from "pdfjs-dist/legacy/build/pdf.mjs";
+import type { TextItem } from "pdfjs-dist/types/src/display/api";
+
+/** Pages with fewer characters than this are treated as scanned images */
+const MIN_PAGE_CHARS = 40;
+const MAX_PAGES = 30;
+const MAX_OCR_PAGES = 10;
+const OCR_SCALE = 2;
+// Longest edge of a rendered page, same as report photos. Bounds the canvas
+// (about 16MB) whatever page size the PDF declares.
+const MAX_OCR_EDGE = 2048;
+
+// Needed to rasterize the 14 standard PDF fonts when rendering pages for OCR
+const STANDARD_FONT_DATA_URL = path.join(
+  process.cwd(),
+  "node_modules/pdfjs-dist/standard_fonts/",
+);
+
+interface CanvasAndContext {
+  canvas: Canvas | null;
+  context: CanvasRenderingContext2D | null;
+}
+
+// pdfjs only ships a factory for @napi-rs/canvas, we already depend on node-canvas
+class NodeCanvasFactory {
+  create(width: number, height: number): CanvasAndContext {
+    const canvas = createCanvas(width, height);
+    return { canvas, context: canvas.getContext("2d") };
+  }
+
+  reset(target: CanvasAndContext, width: number, height: number) {
+    if (!target.canvas) return;
+    target.canvas.width = width;
+    target.canvas.height = height;
+  }
+
+  destroy(target: CanvasAndContext) {
+    if (target.canvas) {
+      target.canvas.width = 0;
+      target.canvas.height = 0;
+    }
+    target.canvas = null;
+    target.context = null;
+  }
+}
+
+export interface PdfExtraction {
+  text: string;
+  pageCount: number;
+  /** 1-based numbers of the pages that went through OCR */
+  ocrPages: number[];
+}
+
+/**
+ * Extracts the text layer of a PDF in-process. Pages without one (scans,
+ * phone photos saved as PDF) are rendered to PNG and handed to `ocrPage`.
+ * Nothing is written to disk or sent to a file API.
+ */
+export async function extractPdfText(
+  buffer: Buffer,
+  ocrPage?: (png: Buffer, pageNumber: number) => Promise<string>,
+): Promise<PdfExtraction> {
+  const canvasFactory = new NodeCanvasFactory();
+  const document = await getDocument({
+    data: new Uint8Array(buffer),
+    CanvasFactory: NodeCanvasFactory,
+    isEvalSupported: false,
+    disableFontFace: true,
+    useSystemFonts: false,
+    standardFontDataUrl: STANDARD_FONT_DATA_URL,
+  }).promise;
+
+  const pageCount = Math.min(document.numPages, MAX_PAGES);
+  const pages: string[] = [];
+  const ocrPages: number[] = [];
+
+  try {
+    for (let pageNumber = 1; pageNumber <= pageCount; pageNumber++) {
+      const page = await document.getPage(pageNumber);
+      const content = await page.getTextContent();
+
+      let text = (content.items as TextItem[])
+        .map((item) => item.str + (item.hasEOL ? "\n" : " "))
+        .join("")
+        .replace(/[ \t]+\n/g, "\n")
+        .trim();
+
+      if (
+        text.replace(/\s/g, "").length < MIN_PAGE_CHARS &&
+        ocrPage &&
+        ocrPages.length < MAX_OCR_PAGES
+      ) {
+        const { width, height } = page.getViewport({ scale: 1 });
+        const scale = Math.min(
+          OCR_SCALE,
+          MAX_OCR_EDGE / Math.max(width, height, 1),
+        );
+        const viewport = page.getViewport({ scale });
+        const target = canvasFactory.create(
+          Math.ceil(viewport.width),
+          Math.ceil(viewport.height),
+        );
+
+        await page.render({
+          // pdfjs types expect the DOM canvas context
+          canvasContext:
+            target.context as unknown as globalThis.CanvasRenderingContext2D,
+          viewport,
+        }).promise;
+
+        const png = target.canvas!.toBuffer("image/png");
+        canvasFactory.destroy(target);
+
+        text = (await ocrPage(png, pageNumber)).trim();
+        ocrPages.push(pageNumber);
+      }
+
+      page.cleanup();
+      if (text) pages.push(`--- Page ${pageNumber} ---\n${text}`);
+    }
+  } finally {
+    await document.destroy();
+  }
+
+  return { text: pages.join("\n\n"), pageCount, ocrPages };
+}
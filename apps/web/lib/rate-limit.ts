@@ -0,0 +1,69 @@
+import { env } from "@/app/env";
+import { api } from "@/convex/_generated/api";
+import { ConvexHttpClient } from "convex/browser";
+import { FunctionArgs } from "convex/server";
+import { headers } from "next/headers";
+import { NextResponse } from "next/server";
+
+type RateLimitRoute = FunctionArgs<
+  typeof api.rateLimits.consumeRateLimit
+>["route"];
+
+/**
+ * Caller IP as reported by the proxy in front of the app. Assumes exactly one
+ * trusted proxy (Vercel, or nginx with `proxy_add_x_forwarded_for`): its
+ * x-real-ip wins, otherwise the last x-forwarded-for hop, the one it appended
+ * itself. Earlier hops come from the client and can be forged. Without such a
+ * proxy both headers are client-controlled, don't rely on the IP bucket then.
+ */
+async function clientIp() {
+  const requestHeaders = await headers();
+  return (
+    requestHeaders.get("x-real-ip")?.trim() ||
+    requestHeaders.get("x-forwarded-for")?.split(",").at(-1)?.trim() ||
+    undefined
+  );
+}
+
+/**
+ * Takes a request from the user's and the caller IP's token bucket for
+ * `route`. Returns how many seconds to wait when either is empty. Pass no
+ * `userId` for signed-out callers, only their IP is limited then.
+ */
+export async function checkRateLimit(route: RateLimitRoute, userId?: string) {
+  const convex = new ConvexHttpClient(env.NEXT_PUBLIC_CONVEX_URL);
+  const result = await convex.mutation(api.rateLimits.consumeRateLimit, {
+    serverSecret: env.CONVEX_SERVER_SECRET,
+    route,
+    userId,
+    ip: await clientIp(),
+  });
+  return result.ok
+    ? { ok: true as const }
+    : { ok: false as const, retryAfter: Math.ceil(result.retryAfterMs / 1000) };
+}
+
+export function rateLimitMessage(retryAfter: number) {
+  return `Too many requests, please try again in ${retryAfter} seconds.`;
+}
+
+/**
+ * checkRateLimit for route handlers: a 429 with Retry-After when limited, or
+ * null when the request may go ahead.
+ */
+export async function enforceRateLimit(route: RateLimitRoute, userId: string) {
+  const result = await checkRateLimit(route, userId);
+  if (result.ok) return null;
+
+  return NextResponse.json(
+    {
+      success: false,
+      code: "RATE_LIMITED",
+      message: rateLimitMessage(result.retryAfter),
+    },
+    {
+      status: 429,
+      headers: { "Retry-After": String(result.retryAfter) },
+    },
+  );
+}
@@ -0,0 +1,162 @@
+import { unzipSync } from "fflate";
+import sharp from "sharp";
+import { REPORT_MIME_TYPES } from "./report-types";
+
+export class UnsupportedReportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UnsupportedReportError";
+  }
+}
+
+export type NormalizedReport =
+  | { kind: "pdf"; mimeType: string; buffer: Buffer }
+  | { kind: "docx"; mimeType: string; text: string }
+  | { kind: "image"; mimeType: "image/jpeg"; base64: string };
+
+// Longest edge sent to vision models, keeps lab printouts legible
+const MAX_IMAGE_EDGE = 2048;
+
+// Inflated size of a DOCX's document.xml, way above any real lab report
+const MAX_DOCX_XML_SIZE = 20 * 1024 * 1024;
+
+type SniffedType = keyof typeof REPORT_MIME_TYPES;
+
+// Trust the bytes over the browser supplied type
+function sniffType(buffer: Buffer): SniffedType | null {
+  if (buffer.subarray(0, 4).toString("latin1") === "%PDF") return "pdf";
+  if (buffer.readUInt32BE(0) === 0x504b0304) return "docx";
+  if (buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
+    return "jpeg";
+  }
+  if (buffer.readUInt32BE(0) === 0x89504e47) return "png";
+  if (
+    buffer.subarray(0, 4).toString("latin1") === "RIFF" &&
+    buffer.subarray(8, 12).toString("latin1") === "WEBP"
+  ) {
+    return "webp";
+  }
+  if (buffer.subarray(4, 8).toString("latin1") === "ftyp") {
+    const brand = buffer.subarray(8, 12).toString("latin1");
+    if (["heic", "heix", "hevc", "hevx"].includes(brand)) return "heic";
+    if (["mif1", "msf1", "heim", "heis"].includes(brand)) return "heif";
+  }
+  return null;
+}
+
+const DOCX_BODY = "word/document.xml";
+
+/**
+ * The body XML of a DOCX (a ZIP). fflate inflates entries into buffers of
+ * their declared size, so checking that size bounds the memory used.
+ */
+function readDocxBody(buffer: Buffer): Uint8Array | null {
+  let files;
+  try {
+    files = unzipSync(new Uint8Array(buffer), {
+      filter: (file) => {
+        if (file.name !== DOCX_BODY) return false;
+        if (file.originalSize > MAX_DOCX_XML_SIZE) {
+          throw new UnsupportedReportError("This Word document is too large");
+        }
+        return true;
+      },
+    });
+  } catch (error) {
+    if (error instanceof UnsupportedReportError) throw error;
+    return null;
+  }
+  return files[DOCX_BODY] ?? null;
+}
+
+function decodeXmlEntities(text: string) {
+  return text
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, "&");
+}
+
+export function extractDocxText(buffer: Buffer): string {
+  const xml = readDocxBody(buffer);
+  if (!xml) {
+    throw new UnsupportedReportError("This Word document could not be read");
+  }
+
+  const text = Buffer.from(xml)
+    .toString("utf8")
+    .replace(/<w:tab\/>/g, "\t")
+    .replace(/<w:br\/>/g, "\n")
+    // Table rows become tab separated lines, common in lab sheets
+    .replace(/<\/w:p>\s*<\/w:tc>/g, "\t")
+    .replace(/<\/w:tr>/g, "\n")
+    .replace(/<\/w:p>/g, "\n")
+    .replace(/<[^>]+>/g, "");
+
+  return decodeXmlEntities(text)
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+async function normalizeImage(buffer: Buffer, type: SniffedType) {
+  try {
+    const jpeg = await sharp(buffer)
+      .rotate() // Apply EXIF orientation from phone cameras
+      .resize(MAX_IMAGE_EDGE, MAX_IMAGE_EDGE, {
+        fit: "inside",
+        withoutEnlargement: true,
+      })
+      .jpeg({ quality: 85 })
+      .toBuffer();
+    return jpeg.toString("base64");
+  } catch (error) {
+    console.error("Image normalization failed:", error);
+    throw new UnsupportedReportError(
+      type === "heic" || type === "heif"
+        ? "This HEIC photo could not be converted. Please export it as JPEG and try again."
+        : "This image could not be read",
+    );
+  }
+}
+
+/**
+ * Detects the real report format and converts it into something a model can
+ * read: PDFs pass through, DOCX becomes text, photos become a bounded JPEG.
+ */
+export async function normalizeReport(
+  buffer: Buffer,
+): Promise<NormalizedReport> {
+  const type = buffer.length >= 12 ? sniffType(buffer) : null;
+
+  switch (type) {
+    case "pdf":
+      return {
+        kind: "pdf",
+        mimeType: REPORT_MIME_TYPES.pdf,
+        buffer,
+      };
+    case "docx":
+      return {
+        kind: "docx",
+        mimeType: REPORT_MIME_TYPES.docx,
+        text: extractDocxText(buffer),
+      };
+    case "jpeg":
+    case "png":
+    case "webp":
+    case "heic":
+    case "heif":
+      return {
+        kind: "image",
+        mimeType: "image/jpeg",
+        base64: await normalizeImage(buffer, type),
+      };
+    default:
+      throw new UnsupportedReportError(
+        "Unsupported file type. Upload a PDF, Word document or photo.",
+      );
+  }
+}
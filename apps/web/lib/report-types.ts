@@ -0,0 +1,42 @@
+// Report formats accepted by UploadArea and /api/report/analyze
+
+export const REPORT_MIME_TYPES = {
+  pdf: "application/pdf",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  jpeg: "image/jpeg",
+  png: "image/png",
+  webp: "image/webp",
+  heic: "image/heic",
+  heif: "image/heif",
+} as const;
+
+export const REPORT_ACCEPT = [
+  ...Object.values(REPORT_MIME_TYPES),
+  ".pdf",
+  ".docx",
+  ".jpg",
+  ".jpeg",
+  ".png",
+  ".webp",
+  ".heic",
+  ".heif",
+].join(",");
+
+const EXTENSION_PATTERN = /\.(pdf|docx|jpe?g|png|webp|heic|heif)$/i;
+
+// Browsers often report an empty type for HEIC, so fall back to the name
+export function isSupportedReportFile(file: { name: string; type: string }) {
+  return (
+    (Object.values(REPORT_MIME_TYPES) as string[]).includes(file.type) ||
+    EXTENSION_PATTERN.test(file.name)
+  );
+}
+
+export function describeReportType(mimeType: string) {
+  if (mimeType === REPORT_MIME_TYPES.pdf) return "PDF Document";
+  if (mimeType === REPORT_MIME_TYPES.docx) return "Word Document";
+  if (mimeType.startsWith("image/")) {
+    return `${mimeType.slice(6).toUpperCase()} Image`;
+  }
+  return mimeType;
+}
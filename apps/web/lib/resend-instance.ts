@@ -1,4 +1,13 @@
 import { Resend } from "resend";
 import { env } from "@/app/env";
 
-export const resend = new Resend(env.RESEND_API_KEY);
+let resend: Resend | undefined;
+
+/** Created on first use so the local transport runs without an API key */
+export function getResend() {
+  if (!env.RESEND_API_KEY) {
+    throw new Error("RESEND_API_KEY is required to send email through Resend");
+  }
+  resend ??= new Resend(env.RESEND_API_KEY);
+  return resend;
+}
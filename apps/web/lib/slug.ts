@@ -0,0 +1,10 @@
+/** Lowercase and dash separated, for lab analyte keys and archive paths */
+export function slugify(name: string) {
+  return (
+    name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "")
+      .slice(0, 50) || "untitled"
+  );
+}
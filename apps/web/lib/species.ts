@@ -0,0 +1,24 @@
+// Species groups shared by the emergency rules and the lab reference ranges,
+// matched against the free-text species of an animal profile
+
+export type SpeciesGroup = "dog" | "cat" | "ruminant" | "horse" | "bird";
+
+const SPECIES_KEYWORDS: Record<SpeciesGroup, RegExp> = {
+  dog: /\b(dog|puppy|pup|canine|bitch)\b/i,
+  cat: /\b(cat|kitten|feline|tomcat)\b/i,
+  ruminant: /\b(cow|cattle|calf|buffalo|goat|sheep|lamb|kid|heifer|bull|ox)\b/i,
+  horse: /\b(horse|pony|foal|mare|donkey|mule)\b/i,
+  bird: /\b(bird|parrot|chicken|hen|budgie|pigeon|duck)\b/i,
+};
+
+/** The group of the profile's species, else of species mentioned in `text` */
+export function resolveSpeciesGroup(
+  species: string | undefined,
+  text = "",
+): SpeciesGroup | undefined {
+  const groups = Object.keys(SPECIES_KEYWORDS) as SpeciesGroup[];
+  if (species) {
+    return groups.find((group) => SPECIES_KEYWORDS[group].test(species));
+  }
+  return groups.find((group) => SPECIES_KEYWORDS[group].test(text));
+}
@@ -0,0 +1,98 @@
+import { env } from "@/app/env";
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+import { TokenUsage } from "@/lib/llm";
+import { ConvexHttpClient } from "convex/browser";
+
+// Batch chunks so a reply costs a handful of writes instead of one per token
+const FLUSH_INTERVAL_MS = 300;
+
+/**
+ * Drains a text stream into an assistant message row and moves its status
+ * pending → streaming → sent/error. Meant to run inside `after()` so the
+ * reply is persisted even if the browser goes away mid-stream. `usage` is
+ * read once the stream ends, see CompletionRequest.onUsage. Replies that were
+ * stopped, or whose provider reported nothing, count an estimate instead.
+ */
+export async function streamToMessage(
+  messageId: Id<"messages">,
+  chunks: AsyncIterable<string>,
+  {
+    abort,
+    usage,
+    promptTokens,
+  }: {
+    abort: () => void;
+    usage: () => TokenUsage | undefined;
+    // Estimated size of the prompt that was sent
+    promptTokens: number;
+  },
+) {
+  const convex = new ConvexHttpClient(env.NEXT_PUBLIC_CONVEX_URL);
+  const serverSecret = env.CONVEX_SERVER_SECRET;
+
+  let buffer = "";
+  let generated = 0;
+  let lastFlush = Date.now();
+
+  const usageOrEstimate = () =>
+    usage() ?? {
+      promptTokens,
+      completionTokens: Math.ceil(generated / 4),
+    };
+
+  const flush = async () => {
+    if (!buffer) return true;
+    const delta = buffer;
+    buffer = "";
+    lastFlush = Date.now();
+    return convex.mutation(api.chats.appendMessageDelta, {
+      serverSecret,
+      messageId,
+      delta,
+    });
+  };
+
+  try {
+    for await (const chunk of chunks) {
+      buffer += chunk;
+      generated += chunk.length;
+      if (Date.now() - lastFlush < FLUSH_INTERVAL_MS) continue;
+
+      // The user stopped the reply, no point paying for the rest
+      if (!(await flush())) {
+        abort();
+        await convex.mutation(api.chats.completeMessage, {
+          serverSecret,
+          messageId,
+          status: "sent",
+          usage: usageOrEstimate(),
+        });
+        return;
+      }
+    }
+
+    await flush();
+    await convex.mutation(api.chats.completeMessage, {
+      serverSecret,
+      messageId,
+      status: "sent",
+      usage: usageOrEstimate(),
+    });
+  } catch (error) {
+    console.error("Stream persistence error:", error);
+    await failMessage(messageId, error);
+  }
+}
+
+export async function failMessage(messageId: Id<"messages">, error: unknown) {
+  const convex = new ConvexHttpClient(env.NEXT_PUBLIC_CONVEX_URL);
+  await convex
+    .mutation(api.chats.completeMessage, {
+      serverSecret: env.CONVEX_SERVER_SECRET,
+      messageId,
+      status: "error",
+      errorMessage: error instanceof Error ? error.message : undefined,
+    })
+    .catch((err) => console.error("Failed to mark message as error:", err));
+}
@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server";
+
+/**
+ * 429 for a user over the daily token limit. Composers look for the
+ * LIMIT_REACHED code to show the limit notice instead of a generic error.
+ */
+export function limitReachedResponse() {
+  return NextResponse.json(
+    {
+      success: false,
+      code: "LIMIT_REACHED",
+      message:
+        "You've reached today's free usage limit. It resets at midnight your time.",
+    },
+    { status: 429 },
+  );
+}
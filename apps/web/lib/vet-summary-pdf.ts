@@ -0,0 +1,290 @@
+import { PDFDocument, PDFFont, PDFPage, rgb, StandardFonts } from "pdf-lib";
+
+import type { VetSummary } from "@/convex/vetSummaries";
+
+const PAGE_WIDTH = 595.28; // A4
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 50;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+
+const BRAND = rgb(0.77, 0.6, 0.18);
+const TEXT = rgb(0.07, 0.09, 0.15);
+const MUTED = rgb(0.42, 0.45, 0.5);
+const TRIAGE_COLORS = {
+  ROUTINE: rgb(0.13, 0.55, 0.33),
+  MONITOR: rgb(0.85, 0.55, 0.05),
+  URGENT: rgb(0.8, 0.15, 0.15),
+} as const;
+
+const DISCLAIMER =
+  "Generated by PashuCare AI from the owner's conversation. It is not a diagnosis and does not replace a veterinary examination.";
+
+// Standard PDF fonts only cover WinAnsi, swap common typography and drop
+// anything else rather than failing the whole render
+const REPLACEMENTS: Record<string, string> = {
+  "\u2018": "'",
+  "\u2019": "'",
+  "\u201c": '"',
+  "\u201d": '"',
+  "\u2013": "-",
+  "\u2014": "-",
+  "\u2026": "...",
+  "\u2022": "-",
+  "\u2192": "->",
+};
+
+function toWinAnsi(text: string) {
+  return text
+    .replace(
+      /[\u2018\u2019\u201c\u201d\u2013\u2014\u2026\u2022\u2192]/g,
+      (c) => REPLACEMENTS[c],
+    )
+    .replace(/[^\x20-\x7e\xa0-\xff\n]/g, "");
+}
+
+/** Trims text to a single line of the given width */
+function fit(text: string, font: PDFFont, size: number, width: number) {
+  let line = toWinAnsi(text);
+  while (line && font.widthOfTextAtSize(line, size) > width) {
+    line = line.slice(0, -1);
+  }
+  return line;
+}
+
+function wrap(text: string, font: PDFFont, size: number, width: number) {
+  const lines: string[] = [];
+  for (const paragraph of toWinAnsi(text).split("\n")) {
+    let line = "";
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && font.widthOfTextAtSize(candidate, size) > width) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+/**
+ * Renders the vet visit summary as a one or two page branded A4 PDF.
+ */
+export async function renderVetSummaryPdf(
+  summary: VetSummary,
+  meta: { ownerName?: string; generatedAt: number },
+) {
+  const pdf = await PDFDocument.create();
+  const regular = await pdf.embedFont(StandardFonts.Helvetica);
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+
+  pdf.setTitle(
+    `Vet visit summary${summary.patientName ? ` - ${summary.patientName}` : ""}`,
+  );
+  pdf.setProducer("PashuCare");
+
+  let page: PDFPage = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  let y = PAGE_HEIGHT - MARGIN;
+
+  const ensureSpace = (height: number) => {
+    if (y - height >= MARGIN + 30) return;
+    page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    y = PAGE_HEIGHT - MARGIN;
+  };
+
+  const paragraph = (
+    text: string,
+    options: { font?: PDFFont; size?: number; indent?: number } = {},
+  ) => {
+    const { font = regular, size = 10.5, indent = 0 } = options;
+    for (const line of wrap(text, font, size, CONTENT_WIDTH - indent)) {
+      ensureSpace(size + 4);
+      page.drawText(line, {
+        x: MARGIN + indent,
+        y: y - size,
+        size,
+        font,
+        color: TEXT,
+      });
+      y -= size + 4;
+    }
+  };
+
+  const heading = (text: string) => {
+    ensureSpace(40);
+    y -= 14;
+    page.drawText(text.toUpperCase(), {
+      x: MARGIN,
+      y: y - 10,
+      size: 10,
+      font: bold,
+      color: BRAND,
+    });
+    y -= 16;
+    page.drawLine({
+      start: { x: MARGIN, y },
+      end: { x: PAGE_WIDTH - MARGIN, y },
+      thickness: 0.5,
+      color: BRAND,
+    });
+    y -= 8;
+  };
+
+  const bullets = (items: string[], empty = "None reported") => {
+    if (items.length === 0) {
+      paragraph(empty, { font: regular });
+      return;
+    }
+    for (const item of items) {
+      ensureSpace(15);
+      page.drawText("-", {
+        x: MARGIN + 2,
+        y: y - 10.5,
+        size: 10.5,
+        font: bold,
+        color: TEXT,
+      });
+      paragraph(item, { indent: 14 });
+    }
+  };
+
+  // Header band
+  page.drawRectangle({
+    x: 0,
+    y: PAGE_HEIGHT - 80,
+    width: PAGE_WIDTH,
+    height: 80,
+    color: BRAND,
+  });
+  page.drawText("PashuCare", {
+    x: MARGIN,
+    y: PAGE_HEIGHT - 45,
+    size: 22,
+    font: bold,
+    color: rgb(1, 1, 1),
+  });
+  page.drawText("Vet visit summary", {
+    x: MARGIN,
+    y: PAGE_HEIGHT - 64,
+    size: 11,
+    font: regular,
+    color: rgb(1, 1, 1),
+  });
+  const dateText = new Date(meta.generatedAt).toLocaleDateString("en-GB", {
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+  });
+  page.drawText(dateText, {
+    x: PAGE_WIDTH - MARGIN - regular.widthOfTextAtSize(dateText, 10),
+    y: PAGE_HEIGHT - 45,
+    size: 10,
+    font: regular,
+    color: rgb(1, 1, 1),
+  });
+  y = PAGE_HEIGHT - 80 - 20;
+
+  // Triage badge
+  if (summary.triageLevel) {
+    const label = `TRIAGE: ${summary.triageLevel}`;
+    const width = bold.widthOfTextAtSize(label, 10) + 16;
+    page.drawRectangle({
+      x: MARGIN,
+      y: y - 20,
+      width,
+      height: 20,
+      color: TRIAGE_COLORS[summary.triageLevel],
+    });
+    page.drawText(label, {
+      x: MARGIN + 8,
+      y: y - 14,
+      size: 10,
+      font: bold,
+      color: rgb(1, 1, 1),
+    });
+    y -= 28;
+  }
+
+  heading("Patient");
+  const { signalment } = summary;
+  const rows: Array<[string, string | undefined]> = [
+    ["Name", summary.patientName],
+    ["Owner", meta.ownerName],
+    ["Species", signalment.species],
+    ["Breed", signalment.breed],
+    ["Age", signalment.age],
+    ["Sex", signalment.sex],
+    ["Weight", signalment.weight],
+  ];
+  for (const [label, value] of rows) {
+    if (!value) continue;
+    ensureSpace(15);
+    page.drawText(`${label}:`, {
+      x: MARGIN,
+      y: y - 10.5,
+      size: 10.5,
+      font: bold,
+      color: TEXT,
+    });
+    paragraph(value, { indent: 70 });
+  }
+
+  heading("Presenting complaint");
+  paragraph(summary.presentingComplaint);
+
+  heading("History and timeline");
+  if (summary.timeline.length === 0) {
+    paragraph("No timeline given");
+  }
+  for (const entry of summary.timeline) {
+    ensureSpace(15);
+    if (entry.when) {
+      page.drawText(fit(entry.when, bold, 10.5, 100), {
+        x: MARGIN,
+        y: y - 10.5,
+        size: 10.5,
+        font: bold,
+        color: TEXT,
+      });
+    }
+    paragraph(entry.event, { indent: 110 });
+  }
+
+  heading("Advice given so far");
+  bullets(summary.advice);
+
+  heading("Red flags");
+  bullets(summary.redFlags);
+
+  if (summary.questionsForVet.length > 0) {
+    heading("Questions for the vet");
+    bullets(summary.questionsForVet);
+  }
+
+  // Footer on every page
+  const pages = pdf.getPages();
+  for (const [index, p] of pages.entries()) {
+    const lines = wrap(DISCLAIMER, regular, 8, CONTENT_WIDTH - 60);
+    lines.forEach((line, i) =>
+      p.drawText(line, {
+        x: MARGIN,
+        y: MARGIN - i * 10,
+        size: 8,
+        font: regular,
+        color: MUTED,
+      }),
+    );
+    const pageLabel = `${index + 1} / ${pages.length}`;
+    p.drawText(pageLabel, {
+      x: PAGE_WIDTH - MARGIN - regular.widthOfTextAtSize(pageLabel, 8),
+      y: MARGIN,
+      size: 8,
+      font: regular,
+      color: MUTED,
+    });
+  }
+
+  return pdf.save();
+}
@@ -0,0 +1,88 @@
+import * as z from "zod";
+
+import { Doc } from "@/convex/_generated/dataModel";
+import type { VetSummary } from "@/convex/vetSummaries";
+
+const optionalText = z
+  .string()
+  .optional()
+  .transform((value) => value?.trim() || undefined);
+
+const textList = z
+  .array(z.string())
+  .default([])
+  .transform((items) => items.map((item) => item.trim()).filter(Boolean));
+
+// Models drift from the requested shape, so everything but the complaint
+// is lenient
+const modelSummarySchema = z.object({
+  signalment: z
+    .object({
+      species: optionalText,
+      breed: optionalText,
+      age: optionalText,
+      sex: optionalText,
+      weight: optionalText,
+    })
+    .prefault({}),
+  presentingComplaint: z.string().trim().min(1),
+  timeline: z
+    .array(z.object({ when: z.string().trim(), event: z.string().trim() }))
+    .default([])
+    .transform((items) => items.filter((item) => item.event)),
+  advice: textList,
+  triageLevel: z
+    .string()
+    .optional()
+    .transform((value) => {
+      const level = value?.toUpperCase();
+      return level === "ROUTINE" || level === "MONITOR" || level === "URGENT"
+        ? level
+        : undefined;
+    }),
+  redFlags: textList,
+  questionsForVet: textList,
+});
+
+/** Reads the JSON object out of a reply, tolerating code fences and prose */
+export function parseVetSummary(reply: string): VetSummary | null {
+  const start = reply.indexOf("{");
+  const end = reply.lastIndexOf("}");
+  if (start === -1 || end <= start) return null;
+
+  let json: unknown;
+  try {
+    json = JSON.parse(reply.slice(start, end + 1));
+  } catch {
+    return null;
+  }
+
+  const parsed = modelSummarySchema.safeParse(json);
+  return parsed.success ? parsed.data : null;
+}
+
+/** The profile is the source of truth for signalment, the model fills gaps */
+export function withAnimalProfile(
+  summary: VetSummary,
+  animal: Doc<"animals"> | null,
+): VetSummary {
+  if (!animal) return summary;
+
+  const latestWeight = animal.weightHistory.at(-1);
+  return {
+    ...summary,
+    patientName: animal.name,
+    signalment: {
+      ...summary.signalment,
+      species: animal.species,
+      breed: animal.breed ?? summary.signalment.breed,
+      sex:
+        animal.sex === "unknown"
+          ? summary.signalment.sex
+          : `${animal.sex}${animal.isNeutered ? " (neutered)" : ""}`,
+      weight: latestWeight
+        ? `${latestWeight.weightKg} kg`
+        : summary.signalment.weight,
+    },
+  };
+}
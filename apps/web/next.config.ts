@@ -11,6 +11,8 @@ const nextConfig: NextConfig = {
       },
     ],
   },
+  // Native bindings and pdfjs' worker must load from node_modules at runtime
+  serverExternalPackages: ["pdfjs-dist", "canvas"],
   typedRoutes: true,
   cacheComponents: true,
   logging: {
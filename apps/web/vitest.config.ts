@@ -0,0 +1,15 @@
+import { fileURLToPath } from "node:url";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  // Same as the "@/*" path in tsconfig.json
+  resolve: { alias: { "@": fileURLToPath(new URL(".", import.meta.url)) } },
+  test: {
+    // Convex functions run in an edge-like runtime, see convex/test.setup.ts
+    environment: "edge-runtime",
+    server: { deps: { inline: ["convex-test"] } },
+    env: {
+      CONVEX_SERVER_SECRET: "test-server-secret-at-least-32-characters",
+    },
+  },
+});